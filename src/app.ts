@@ -9,6 +9,13 @@ import userRoutes from "./routes/user.routes"
 import profileRoutes from "./routes/profile.routes"
 import bookmarkRoutes from "./routes/bookmark.route"
 import commentRoutes from "./routes/comment.routes"
+import adminRoutes from "./routes/admin.routes"
+import notificationRoutes from "./routes/notification.routes"
+import streamRoutes from "./routes/stream.routes"
+import collectionRoutes from "./routes/collection.routes"
+import historyRoutes from "./routes/history.routes"
+import mangaRoutes from "./routes/manga.routes"
+import feedRoutes from "./routes/feed.routes"
 import dotenv from "dotenv"
 dotenv.config()
 
@@ -46,6 +53,13 @@ app.use("/api/users", userRoutes)
 app.use("/api/profile", profileRoutes)
 app.use("/api/bookmarks", bookmarkRoutes)
 app.use("/api/comments", commentRoutes)
+app.use("/api/admin", adminRoutes)
+app.use("/api/notifications", notificationRoutes)
+app.use("/api/stream", streamRoutes)
+app.use("/api/collections", collectionRoutes)
+app.use("/api/history", historyRoutes)
+app.use("/api/manga", mangaRoutes)
+app.use("/api/feed", feedRoutes)
 
 // Health check endpoint
 app.get("/health", (req, res) => {
@@ -8,6 +8,118 @@ const config = {
   port: process.env.PORT ? Number.parseInt(process.env.PORT, 10) : 5000,
   clientUrl: process.env.CLIENT_URL || "http://localhost:3000",
   jwtSecret: process.env.JWT_SECRET || "",
+  // "supabase" (default) or "memory" for an offline, in-process data store
+  dataStore: process.env.DATA_STORE === "memory" ? "memory" : "supabase",
+
+  auth: {
+    // Access tokens are short-lived; sessions are kept alive with refresh tokens
+    accessTokenTtlSeconds: process.env.ACCESS_TOKEN_TTL_SECONDS
+      ? Number.parseInt(process.env.ACCESS_TOKEN_TTL_SECONDS, 10)
+      : 15 * 60,
+    refreshTokenTtlDays: process.env.REFRESH_TOKEN_TTL_DAYS
+      ? Number.parseInt(process.env.REFRESH_TOKEN_TTL_DAYS, 10)
+      : 30,
+    passwordResetTtlMinutes: 60,
+    emailVerificationTtlHours: 24,
+  },
+
+  comments: {
+    // Reply levels returned inline; deeper replies are lazy-loaded via /:id/replies
+    maxDepth: process.env.COMMENT_MAX_DEPTH ? Number.parseInt(process.env.COMMENT_MAX_DEPTH, 10) : 5,
+    pageSize: 20,
+    maxPageSize: 50,
+  },
+
+  realtime: {
+    // Keeps idle streams open through proxies; the session is re-checked on each beat
+    heartbeatSeconds: 25,
+    // How long a stream ticket from POST /api/stream/ticket stays redeemable
+    ticketSeconds: 30,
+  },
+
+  moderation: {
+    // Open reports needed before a comment is hidden pending review
+    reportThreshold: process.env.COMMENT_REPORT_THRESHOLD
+      ? Number.parseInt(process.env.COMMENT_REPORT_THRESHOLD, 10)
+      : 5,
+  },
+
+  avatars: {
+    maxFileSizeBytes: 5 * 1024 * 1024,
+    // Decoding is refused above this many pixels, whatever the file size
+    maxInputPixels: 50_000_000,
+    // Every upload is stored as square WebP images of these widths
+    sizes: [64, 128, 256],
+    webpQuality: 80,
+  },
+
+  usernames: {
+    // Minimum time between username changes
+    changeCooldownDays: process.env.USERNAME_CHANGE_COOLDOWN_DAYS
+      ? Number.parseInt(process.env.USERNAME_CHANGE_COOLDOWN_DAYS, 10)
+      : 30,
+    // A released name stays with its previous owner this long before anyone else may claim it
+    releaseHoldDays: 90,
+    // Never claimable, compared case-insensitively
+    reserved: [
+      "admin",
+      "administrator",
+      "anonymous",
+      "everyone",
+      "help",
+      "mangahilaw",
+      "moderator",
+      "null",
+      "official",
+      "profile",
+      "root",
+      "settings",
+      "staff",
+      "support",
+      "system",
+      "undefined",
+    ],
+  },
+
+  comick: {
+    apiUrl: process.env.COMICK_API_URL || "https://api.comick.fun",
+  },
+
+  chapterFeed: {
+    // "comick" polls the ComicK API, "fixture" reads chapters from a local JSON file
+    source: process.env.CHAPTER_FEED_SOURCE === "fixture" ? "fixture" : "comick",
+    fixturePath: process.env.CHAPTER_FEED_FIXTURE || "fixtures/chapters.json",
+    lang: process.env.CHAPTER_FEED_LANG || "en",
+    // 0 disables the background poll; ingestion can still be triggered from the admin API
+    pollIntervalMinutes: process.env.CHAPTER_FEED_POLL_MINUTES
+      ? Number.parseInt(process.env.CHAPTER_FEED_POLL_MINUTES, 10)
+      : 0,
+    // Per-request limit for each manga's chapter list
+    timeoutMs: 10000,
+  },
+
+  mangaLookup: {
+    // Matches imported titles to manga: "comick" searches the ComicK API,
+    // "fixture" looks them up in a local JSON file
+    source: process.env.MANGA_LOOKUP_SOURCE === "fixture" ? "fixture" : "comick",
+    fixturePath: process.env.MANGA_LOOKUP_FIXTURE || "fixtures/manga.json",
+    // Per-search limit, and how many searches an import runs at once
+    timeoutMs: 10000,
+    concurrency: 5,
+  },
+
+  bookmarkImport: {
+    maxFileSizeBytes: 2 * 1024 * 1024,
+    maxRows: 2000,
+  },
+
+  mail: {
+    // "console" logs who outgoing mail is for, "file" writes each message as JSON
+    // into outboxDir. Production has no default and must set MAIL_TRANSPORT.
+    transport: process.env.MAIL_TRANSPORT === "file" ? "file" : "console",
+    from: process.env.MAIL_FROM || "MangaHilaw <no-reply@mangahilaw.app>",
+    outboxDir: process.env.MAIL_OUTBOX_DIR || "mail-outbox",
+  },
 
   supabase: {
     url: process.env.SUPABASE_URL || "",
@@ -16,7 +128,10 @@ const config = {
   },
 }
 
-const requiredEnvVars = ["SUPABASE_URL", "SUPABASE_ANON_KEY", "JWT_SECRET"]
+const requiredEnvVars = [
+  ...(config.dataStore === "memory" ? ["JWT_SECRET"] : ["SUPABASE_URL", "SUPABASE_ANON_KEY", "JWT_SECRET"]),
+  ...(config.nodeEnv === "production" ? ["MAIL_TRANSPORT"] : []),
+]
 const missingEnvVars = requiredEnvVars.filter((envVar) => !process.env[envVar])
 
 if (missingEnvVars.length > 0) {
@@ -0,0 +1,348 @@
+import type { Request, Response, NextFunction } from "express"
+import { validationResult } from "express-validator"
+import { repositories, NOT_FOUND_CODE } from "../repositories"
+import { AppError } from "../utils/appError"
+import logger from "../utils/logger"
+import { roleOf } from "../utils/accountStatus"
+import { softDeleteComment } from "../utils/commentDeletion"
+import { notifyModeration } from "../utils/notifications"
+import { ingestLatestChapters } from "../utils/chapterFeed"
+import type { AccountStatus, UserProfile, UserRole } from "../types"
+
+const ROLE_RANK: Record<UserRole, number> = {
+  user: 0,
+  moderator: 1,
+  admin: 2,
+}
+
+// Profiles are created lazily, so fall back to the auth user when a target has none yet
+const findOrCreateProfile = async (userId: string): Promise<UserProfile | null> => {
+  const { data: profile, error } = await repositories.profiles.findById(userId)
+  if (profile) return profile
+  if (error && error.code !== NOT_FOUND_CODE) {
+    throw new Error(error.message)
+  }
+
+  const { data: user } = await repositories.auth.getUserById(userId)
+  if (!user) return null
+
+  const { data: created, error: createError } = await repositories.profiles.create({
+    id: user.id,
+    username: user.user_metadata?.username || user.email || user.id,
+    email: user.email || "",
+  })
+  if (createError) {
+    throw new Error(createError.message)
+  }
+  return created
+}
+
+// Moderators may only act on accounts ranked below their own, and never on themselves
+const loadModerationTarget = async (req: Request, next: NextFunction): Promise<UserProfile | null> => {
+  const target = await findOrCreateProfile(req.params.id)
+  if (!target) {
+    next(new AppError("User not found", 404))
+    return null
+  }
+
+  if (target.id === req.user.id) {
+    next(new AppError("You cannot moderate your own account", 400))
+    return null
+  }
+
+  if (ROLE_RANK[roleOf(target)] >= ROLE_RANK[req.user.role as UserRole]) {
+    next(new AppError("You do not have permission to moderate this user", 403))
+    return null
+  }
+
+  return target
+}
+
+const setAccountStatus = async (
+  target: UserProfile,
+  status: AccountStatus,
+  reason: string | null,
+  suspendedUntil: string | null,
+): Promise<UserProfile> => {
+  const { data, error } = await repositories.profiles.update(target.id, {
+    status,
+    status_reason: reason,
+    suspended_until: suspendedUntil,
+    updated_at: new Date().toISOString(),
+  })
+
+  if (error || !data) {
+    throw new Error(error?.message || "Failed to update account status")
+  }
+
+  if (status !== "active") {
+    await repositories.sessions.revokeAllForUser(target.id)
+  }
+  return data
+}
+
+// @desc    List and search users
+// @route   GET /api/admin/users
+// @access  Moderator
+export const listUsers = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()))
+    }
+
+    const { page = "1", limit = "20", search, role, status } = req.query
+    const pageNum = parseInt(page as string)
+    const limitNum = parseInt(limit as string)
+
+    const { data, error, count } = await repositories.profiles.search({
+      offset: (pageNum - 1) * limitNum,
+      limit: limitNum,
+      search: search as string | undefined,
+      role: role as UserRole | undefined,
+      status: status as AccountStatus | undefined,
+    })
+
+    if (error) {
+      logger.error("User search error:", error)
+      return next(new AppError("Failed to fetch users", 500))
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        users: data || [],
+      },
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total: count || 0,
+        pages: Math.ceil((count || 0) / limitNum),
+      },
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || "Failed to fetch users", 500))
+  }
+}
+
+// @desc    Get a single user and their profile
+// @route   GET /api/admin/users/:id
+// @access  Moderator
+export const getUser = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()))
+    }
+
+    // Reads only: a user whose profile hasn't been created yet comes back with a
+    // null profile rather than having one created here
+    const [{ data: user }, { data: profile, error }] = await Promise.all([
+      repositories.auth.getUserById(req.params.id),
+      repositories.profiles.findById(req.params.id),
+    ])
+    if (error && error.code !== NOT_FOUND_CODE) {
+      logger.error("Profile fetch error:", error)
+      return next(new AppError("Failed to fetch user", 500))
+    }
+    if (!user) {
+      return next(new AppError("User not found", 404))
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        user: {
+          id: user.id,
+          email: user.email,
+          email_confirmed_at: user.email_confirmed_at ?? null,
+        },
+        profile: profile || null,
+      },
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || "Failed to fetch user", 500))
+  }
+}
+
+// @desc    Suspend a user, indefinitely or for a number of hours
+// @route   POST /api/admin/users/:id/suspend
+// @access  Moderator
+export const suspendUser = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()))
+    }
+
+    const target = await loadModerationTarget(req, next)
+    if (!target) return
+
+    const { reason, duration_hours } = req.body
+    const suspendedUntil = duration_hours
+      ? new Date(Date.now() + Number(duration_hours) * 60 * 60 * 1000).toISOString()
+      : null
+
+    const profile = await setAccountStatus(target, "suspended", reason || null, suspendedUntil)
+    logger.info(`User ${target.id} suspended by ${req.user.id}`)
+
+    res.status(200).json({
+      success: true,
+      message: "User suspended",
+      data: {
+        profile,
+      },
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || "Failed to suspend user", 500))
+  }
+}
+
+// @desc    Ban a user
+// @route   POST /api/admin/users/:id/ban
+// @access  Moderator
+export const banUser = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()))
+    }
+
+    const target = await loadModerationTarget(req, next)
+    if (!target) return
+
+    const profile = await setAccountStatus(target, "banned", req.body.reason || null, null)
+    logger.info(`User ${target.id} banned by ${req.user.id}`)
+
+    res.status(200).json({
+      success: true,
+      message: "User banned",
+      data: {
+        profile,
+      },
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || "Failed to ban user", 500))
+  }
+}
+
+// @desc    Lift a suspension or ban
+// @route   POST /api/admin/users/:id/reinstate
+// @access  Moderator
+export const reinstateUser = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()))
+    }
+
+    const target = await loadModerationTarget(req, next)
+    if (!target) return
+
+    const profile = await setAccountStatus(target, "active", null, null)
+    logger.info(`User ${target.id} reinstated by ${req.user.id}`)
+
+    res.status(200).json({
+      success: true,
+      message: "User reinstated",
+      data: {
+        profile,
+      },
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || "Failed to reinstate user", 500))
+  }
+}
+
+// @desc    Change a user's role
+// @route   PUT /api/admin/users/:id/role
+// @access  Admin
+export const updateUserRole = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()))
+    }
+
+    const target = await loadModerationTarget(req, next)
+    if (!target) return
+
+    const { data: profile, error } = await repositories.profiles.update(target.id, {
+      role: req.body.role,
+      updated_at: new Date().toISOString(),
+    })
+
+    if (error) {
+      logger.error("Role update error:", error)
+      return next(new AppError("Failed to update role", 500))
+    }
+
+    logger.info(`User ${target.id} given role ${req.body.role} by ${req.user.id}`)
+
+    res.status(200).json({
+      success: true,
+      message: "Role updated",
+      data: {
+        profile,
+      },
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || "Failed to update role", 500))
+  }
+}
+
+// @desc    Delete any user's comment
+// @route   DELETE /api/admin/comments/:id
+// @access  Moderator
+export const deleteAnyComment = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()))
+    }
+
+    const { id } = req.params
+    const { data: comment, error: fetchError } = await repositories.comments.findById(id)
+
+    if (fetchError || !comment || comment.deleted_at) {
+      return next(new AppError("Comment not found", 404))
+    }
+
+    const result = await softDeleteComment(comment, req.user.id)
+    logger.info(`Comment ${id} deleted by moderator ${req.user.id}`)
+    await notifyModeration(comment, "A moderator removed one of your comments", req.user.id, result === "removed")
+
+    res.status(200).json({
+      success: true,
+      message: "Comment deleted successfully",
+      data: {
+        tombstoned: result === "tombstoned",
+      },
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || "Failed to delete comment", 500))
+  }
+}
+
+// @desc    Fetch new chapters for bookmarked manga from the chapter feed
+// @route   POST /api/admin/chapters/ingest
+// @access  Moderator
+export const ingestChapters = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()))
+    }
+
+    const { manga_hids }: { manga_hids?: string[] } = req.body
+    const result = await ingestLatestChapters(manga_hids)
+    logger.info(`Chapter feed ingest by ${req.user.id}: ${result.added} new chapters`)
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || "Failed to ingest chapters", 500))
+  }
+}
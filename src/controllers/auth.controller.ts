@@ -1,10 +1,94 @@
 import { Request, Response, NextFunction } from "express"
-import { supabase } from "../utils/supabase"
+import { validationResult } from "express-validator"
+import { randomUUID } from "crypto"
+import { repositories, type AuthUser } from "../repositories"
 import { AppError } from "../utils/appError"
-import jwt from "jsonwebtoken"
+import logger from "../utils/logger"
+import { sendMail } from "../utils/mailer"
+import {
+  generateOneTimeToken,
+  generateRefreshToken,
+  hashToken,
+  parseRefreshToken,
+  refreshTokenExpiry,
+  signAccessToken,
+} from "../utils/tokens"
 import config from "../config"
+import { getAccountRestriction, roleOf } from "../utils/accountStatus"
+import { checkUsername, claimUsername, currentUsername, usernameUnavailableError } from "../utils/usernames"
+import type { AuthTokenPurpose, Session } from "../types/auth.types"
+import type { UserProfile } from "../types"
+
+// The registered name; sign-up metadata only covers accounts that never claimed one
+const usernameOf = async (user: AuthUser): Promise<string | null> =>
+  (await currentUsername(user.id)) || user.user_metadata?.username || null
+
+const issueAccessToken = (user: AuthUser, sessionId: string, profile: UserProfile | null, username: string | null) =>
+  signAccessToken({
+    id: user.id,
+    email: user.email,
+    username,
+    role: roleOf(profile),
+    sid: sessionId,
+  })
+
+// Replaces any outstanding token for the same purpose and returns the new raw token
+const issueAuthToken = async (userId: string, purpose: AuthTokenPurpose, ttlMs: number): Promise<string> => {
+  await repositories.authTokens.invalidateForUser(userId, purpose)
+
+  const { token, hash } = generateOneTimeToken()
+  const { error } = await repositories.authTokens.create({
+    user_id: userId,
+    purpose,
+    token_hash: hash,
+    expires_at: new Date(Date.now() + ttlMs).toISOString(),
+  })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+  return token
+}
+
+// Consumes an unused, unexpired token; null when there is none
+const consumeAuthToken = async (token: string, purpose: AuthTokenPurpose) => {
+  const { data, error } = await repositories.authTokens.consume(purpose, hashToken(token))
+  if (error) {
+    throw new Error(error.message)
+  }
+  return data
+}
+
+const sendVerificationEmail = async (user: AuthUser) => {
+  const token = await issueAuthToken(
+    user.id,
+    "email_verification",
+    config.auth.emailVerificationTtlHours * 60 * 60 * 1000,
+  )
+
+  await sendMail({
+    to: user.email!,
+    subject: "Verify your MangaHilaw email",
+    text: `Confirm your email address by opening this link:\n${config.clientUrl}/verify-email?token=${token}\n\nThe link expires in ${config.auth.emailVerificationTtlHours} hours.`,
+  })
+}
+
+const toPublicSession = (session: Session, currentSessionId?: string) => ({
+  id: session.id,
+  user_agent: session.user_agent,
+  ip_address: session.ip_address,
+  created_at: session.created_at,
+  last_used_at: session.last_used_at,
+  expires_at: session.expires_at,
+  current: session.id === currentSessionId,
+})
 
 export const register = async (req: Request, res: Response, next: NextFunction) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    return next(new AppError("Validation error", 400, errors.array()))
+  }
+
   const { email, password } = req.body
 
   if (!email || !password || !req.body.username) {
@@ -12,27 +96,50 @@ export const register = async (req: Request, res: Response, next: NextFunction)
   }
 
   try {
-    const { data, error } = await supabase.auth.signUp({
-      email,
-      password,
-      options: {
-        data: {
-          username: req.body.username
-        }
-      }
+    const { data: availability, error: checkError } = await checkUsername(req.body.username)
+    if (checkError) {
+      logger.error("Username availability error:", checkError)
+      return next(new AppError("Error checking username", 500))
+    }
+    if (!availability!.available) {
+      return next(usernameUnavailableError(availability!.reason!))
+    }
+
+    const { data, error } = await repositories.auth.signUp(email, password, {
+      username: req.body.username
     })
 
     if (error) {
       return next(new AppError(error.message, 400))
     }
 
+    // Checked above, so this only fails if someone took the name in the meantime.
+    // The account is removed again so the user can register with another name.
+    const { error: claimError } = await claimUsername(data!.id, req.body.username)
+    if (claimError) {
+      const { error: deleteError } = await repositories.auth.deleteUser(data!.id)
+      if (deleteError) {
+        logger.error("Sign-up rollback error:", deleteError)
+      }
+      return next(claimError)
+    }
+
+    if (data && !data.email_confirmed_at) {
+      try {
+        await sendVerificationEmail(data)
+      } catch (mailError) {
+        // The user can ask for another link through /resend-verification
+        logger.error("Verification email error:", mailError)
+      }
+    }
+
     res.status(201).json({
       success: true,
       message: "User registered successfully. Please verify your email.",
       data: {
         user: {
-          id: data.user?.id,
-          email: data.user?.email,
+          id: data?.id,
+          email: data?.email,
         },
       },
     })
@@ -42,6 +149,11 @@ export const register = async (req: Request, res: Response, next: NextFunction)
 }
 
 export const login = async (req: Request, res: Response, next: NextFunction) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    return next(new AppError("Validation error", 400, errors.array()))
+  }
+
   const { email, password } = req.body
 
   if (!email || !password) {
@@ -49,35 +161,50 @@ export const login = async (req: Request, res: Response, next: NextFunction) =>
   }
 
   try {
-    const { data, error } = await supabase.auth.signInWithPassword({
-      email,
-      password,
+    const { data: user, error } = await repositories.auth.signInWithPassword(email, password)
+
+    if (error || !user) {
+      return next(new AppError(error?.message || "Invalid login credentials", 400))
+    }
+
+    const { data: profile } = await repositories.profiles.findById(user.id)
+    const restriction = getAccountRestriction(profile)
+    if (restriction) {
+      return next(new AppError(restriction, 403))
+    }
+
+    const sessionId = randomUUID()
+    const refreshToken = generateRefreshToken(sessionId)
+    const { error: sessionError } = await repositories.sessions.create({
+      id: sessionId,
+      user_id: user.id,
+      refresh_token_hash: refreshToken.hash,
+      user_agent: req.get("user-agent") || null,
+      ip_address: req.ip || null,
+      expires_at: refreshTokenExpiry(),
     })
 
-    if (error) {
-      return next(new AppError(error.message, 400))
+    if (sessionError) {
+      logger.error("Session create error:", sessionError)
+      return next(new AppError("Failed to start session", 500))
     }
 
-    const token = jwt.sign(
-      {
-        id: data.user.id,
-        email: data.user.email,
-        username: data.user.user_metadata?.username || null,
-      },
-      config.jwtSecret,
-      { expiresIn: "7d" }
-    )
+    const username = await usernameOf(user)
+    const token = issueAccessToken(user, sessionId, profile, username)
 
     res.status(200).json({
       success: true,
       message: "Login successful",
       data: {
         user: {
-          id: data.user.id,
-          email: data.user.email,
-          username: data.user.user_metadata?.username || null,
+          id: user.id,
+          email: user.email,
+          username,
+          role: roleOf(profile),
         },
         token: token,
+        refresh_token: refreshToken.token,
+        expires_in: config.auth.accessTokenTtlSeconds,
       },
     })
   } catch (error: any) {
@@ -85,9 +212,84 @@ export const login = async (req: Request, res: Response, next: NextFunction) =>
   }
 }
 
+// An already-rotated token was replayed, so the session may be compromised
+const revokeReusedSession = async (sessionId: string, next: NextFunction) => {
+  logger.warn(`Refresh token reuse detected for session ${sessionId}`)
+  const { error } = await repositories.sessions.update(sessionId, { revoked_at: new Date().toISOString() })
+  if (error) {
+    logger.error("Session revoke error:", error)
+  }
+  return next(new AppError("Invalid refresh token", 401))
+}
+
+export const refresh = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()))
+    }
+
+    const parsed = parseRefreshToken(req.body.refresh_token)
+    if (!parsed) {
+      return next(new AppError("Invalid refresh token", 401))
+    }
+
+    const { data: session } = await repositories.sessions.findById(parsed.sessionId)
+    if (!session || session.revoked_at || new Date(session.expires_at) <= new Date()) {
+      return next(new AppError("Session has expired. Please log in again.", 401))
+    }
+
+    const presentedHash = hashToken(parsed.secret)
+    if (presentedHash !== session.refresh_token_hash) {
+      return revokeReusedSession(session.id, next)
+    }
+
+    const { data: user, error: userError } = await repositories.auth.getUserById(session.user_id)
+    if (userError || !user) {
+      return next(new AppError("User no longer exists", 401))
+    }
+
+    const { data: profile } = await repositories.profiles.findById(user.id)
+    const restriction = getAccountRestriction(profile)
+    if (restriction) {
+      return next(new AppError(restriction, 403))
+    }
+
+    const refreshToken = generateRefreshToken(session.id)
+    const { data: rotated, error: updateError } = await repositories.sessions.rotate(session.id, presentedHash, {
+      refresh_token_hash: refreshToken.hash,
+      last_used_at: new Date().toISOString(),
+      expires_at: refreshTokenExpiry(),
+    })
+
+    if (updateError) {
+      logger.error("Session refresh error:", updateError)
+      return next(new AppError("Failed to refresh session", 500))
+    }
+    // Another request rotated the same token first
+    if (!rotated) {
+      return revokeReusedSession(session.id, next)
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Token refreshed",
+      data: {
+        token: issueAccessToken(user, session.id, profile, await usernameOf(user)),
+        refresh_token: refreshToken.token,
+        expires_in: config.auth.accessTokenTtlSeconds,
+      },
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || "Failed to refresh token", 500))
+  }
+}
+
 export const logout = async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { error } = await supabase.auth.signOut()
+    const { error } = await repositories.sessions.update(req.user.sid, {
+      revoked_at: new Date().toISOString(),
+    })
 
     if (error) {
       return next(new AppError(error.message, 400))
@@ -100,4 +302,167 @@ export const logout = async (req: Request, res: Response, next: NextFunction) =>
   } catch (error: any) {
     next(new AppError(error.message || "Failed to logout", 500))
   }
+}
+
+export const forgotPassword = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()))
+    }
+
+    const { data: user } = await repositories.auth.findUserByEmail(req.body.email)
+
+    if (user?.email) {
+      const token = await issueAuthToken(
+        user.id,
+        "password_reset",
+        config.auth.passwordResetTtlMinutes * 60 * 1000,
+      )
+
+      await sendMail({
+        to: user.email,
+        subject: "Reset your MangaHilaw password",
+        text: `Someone asked to reset your password. If it was you, open this link:\n${config.clientUrl}/reset-password?token=${token}\n\nThe link expires in ${config.auth.passwordResetTtlMinutes} minutes. If you didn't ask for this, you can ignore this email.`,
+      })
+    }
+
+    // Same answer whether or not the account exists, so emails can't be probed
+    res.status(200).json({
+      success: true,
+      message: "If an account exists for that email, a reset link has been sent.",
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || "Failed to request password reset", 500))
+  }
+}
+
+export const resetPassword = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()))
+    }
+
+    const { token, password } = req.body
+    const resetToken = await consumeAuthToken(token, "password_reset")
+    if (!resetToken) {
+      return next(new AppError("Reset link is invalid or has expired", 400))
+    }
+
+    const { error } = await repositories.auth.updatePassword(resetToken.user_id, password)
+    if (error) {
+      logger.error("Password reset error:", error)
+      return next(new AppError(error.message, 400))
+    }
+
+    // Anyone holding the old password may have signed in; end all sessions
+    await repositories.sessions.revokeAllForUser(resetToken.user_id)
+
+    res.status(200).json({
+      success: true,
+      message: "Password has been reset. Please log in with your new password.",
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || "Failed to reset password", 500))
+  }
+}
+
+export const resendVerification = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()))
+    }
+
+    const { data: user } = await repositories.auth.findUserByEmail(req.body.email)
+
+    if (user?.email && !user.email_confirmed_at) {
+      await sendVerificationEmail(user)
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "If that email is awaiting verification, a new link has been sent.",
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || "Failed to resend verification email", 500))
+  }
+}
+
+export const verifyEmail = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()))
+    }
+
+    const verificationToken = await consumeAuthToken(req.body.token, "email_verification")
+    if (!verificationToken) {
+      return next(new AppError("Verification link is invalid or has expired", 400))
+    }
+
+    const { error } = await repositories.auth.confirmEmail(verificationToken.user_id)
+    if (error) {
+      logger.error("Email confirmation error:", error)
+      return next(new AppError("Failed to verify email", 500))
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Email verified successfully",
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || "Failed to verify email", 500))
+  }
+}
+
+export const getSessions = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { data, error } = await repositories.sessions.listActiveByUser(req.user.id)
+
+    if (error) {
+      logger.error("Sessions fetch error:", error)
+      return next(new AppError("Failed to fetch sessions", 500))
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        sessions: (data || []).map((session) => toPublicSession(session, req.user.sid)),
+      },
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || "Failed to fetch sessions", 500))
+  }
+}
+
+export const revokeSession = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()))
+    }
+
+    const { data: session } = await repositories.sessions.findById(req.params.id)
+    if (!session || session.user_id !== req.user.id || session.revoked_at) {
+      return next(new AppError("Session not found", 404))
+    }
+
+    const { error } = await repositories.sessions.update(session.id, {
+      revoked_at: new Date().toISOString(),
+    })
+
+    if (error) {
+      logger.error("Session revoke error:", error)
+      return next(new AppError("Failed to revoke session", 500))
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Session revoked",
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || "Failed to revoke session", 500))
+  }
 }
\ No newline at end of file
@@ -0,0 +1,158 @@
+import type { Request, Response, NextFunction } from "express"
+import { validationResult } from "express-validator"
+import { repositories, NOT_FOUND_CODE, UNIQUE_VIOLATION_CODE } from "../repositories"
+import type { BlockKind } from "../types/social.types"
+import { AppError } from "../utils/appError"
+import logger from "../utils/logger"
+import { publish, userChannel } from "../utils/realtime"
+
+const LABELS: Record<BlockKind, { done: string; undone: string; noun: string }> = {
+  block: { done: "blocked", undone: "unblocked", noun: "blocks" },
+  mute: { done: "muted", undone: "unmuted", noun: "mutes" },
+}
+
+const addBlock = (kind: BlockKind) => async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()))
+    }
+
+    const { id } = req.params
+    const userId = req.user.id
+    if (id === userId) {
+      return next(new AppError(`You cannot ${kind} yourself`, 400))
+    }
+
+    const { error: profileError } = await repositories.profiles.findById(id)
+    if (profileError) {
+      return profileError.code === NOT_FOUND_CODE
+        ? next(new AppError("User not found", 404))
+        : next(new AppError("Error fetching profile", 500))
+    }
+
+    const { data, error } = await repositories.userBlocks.create(userId, id, kind)
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION_CODE) {
+        return next(new AppError(`You have already ${LABELS[kind].done} this user`, 409))
+      }
+      logger.error("Block error:", error)
+      return next(new AppError(`Failed to ${kind} user`, 500))
+    }
+
+    // Blocking ends follows in both directions
+    if (kind === "block") {
+      const results = await Promise.all([
+        repositories.follows.remove(userId, id),
+        repositories.follows.remove(id, userId),
+      ])
+      const failed = results.find((result) => result.error)
+      if (failed) {
+        logger.error("Follow removal after block error:", failed.error)
+      }
+    }
+
+    publish(userChannel(userId), "blocks.changed", { target_id: id, kind, active: true })
+
+    res.status(201).json({
+      success: true,
+      message: `User ${LABELS[kind].done}`,
+      data,
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || `Failed to ${kind} user`, 500))
+  }
+}
+
+const removeBlock = (kind: BlockKind) => async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()))
+    }
+
+    const { data: removed, error } = await repositories.userBlocks.remove(req.user.id, req.params.id, kind)
+
+    if (error) {
+      logger.error("Block removal error:", error)
+      return next(new AppError(`Failed to un${kind} user`, 500))
+    }
+    if (!removed) {
+      return next(new AppError(`You have not ${LABELS[kind].done} this user`, 404))
+    }
+
+    publish(userChannel(req.user.id), "blocks.changed", { target_id: req.params.id, kind, active: false })
+
+    res.status(200).json({
+      success: true,
+      message: `User ${LABELS[kind].undone}`,
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || `Failed to un${kind} user`, 500))
+  }
+}
+
+const listBlocks = (kind: BlockKind) => async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { data, error } = await repositories.userBlocks.listByUser(req.user.id, kind)
+
+    if (error) {
+      logger.error("Block list fetch error:", error)
+      return next(new AppError(`Failed to fetch ${LABELS[kind].noun}`, 500))
+    }
+
+    const rows = data || []
+    const { data: profiles, error: profileError } = await repositories.profiles.findManyByIds(
+      rows.map((row) => row.target_id)
+    )
+
+    if (profileError) {
+      logger.error("Block list profiles fetch error:", profileError)
+      return next(new AppError(`Failed to fetch ${LABELS[kind].noun}`, 500))
+    }
+
+    const profileMap = new Map((profiles || []).map((profile) => [profile.id, profile]))
+    res.status(200).json({
+      success: true,
+      data: rows.map((row) => ({
+        id: row.target_id,
+        username: profileMap.get(row.target_id)?.username ?? null,
+        avatar_url: profileMap.get(row.target_id)?.avatar_url ?? null,
+        since: row.created_at,
+      })),
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || `Failed to fetch ${LABELS[kind].noun}`, 500))
+  }
+}
+
+// @desc    Block a user
+// @route   POST /api/users/:id/block
+// @access  Private
+export const blockUser = addBlock("block")
+
+// @desc    Unblock a user
+// @route   DELETE /api/users/:id/block
+// @access  Private
+export const unblockUser = removeBlock("block")
+
+// @desc    Mute a user
+// @route   POST /api/users/:id/mute
+// @access  Private
+export const muteUser = addBlock("mute")
+
+// @desc    Unmute a user
+// @route   DELETE /api/users/:id/mute
+// @access  Private
+export const unmuteUser = removeBlock("mute")
+
+// @desc    List the users the caller blocked, newest first
+// @route   GET /api/users/me/blocks
+// @access  Private
+export const getBlockedUsers = listBlocks("block")
+
+// @desc    List the users the caller muted, newest first
+// @route   GET /api/users/me/mutes
+// @access  Private
+export const getMutedUsers = listBlocks("mute")
@@ -1,19 +1,67 @@
 import { Request, Response } from "express"
 import { validationResult } from "express-validator"
-import { createClient } from "@supabase/supabase-js"
-import { Bookmark, BookmarkInput, ReadingStatus } from "../types/bookmark.types"
-
-const supabase = createClient(
-  process.env.SUPABASE_URL!,
-  process.env.SUPABASE_SERVICE_ROLE_KEY!
-)
-
-const getUsernameFromAuth = async (userId: string): Promise<string | undefined> => {
-  const { data, error } = await supabase.auth.admin.getUserById(userId)
-  if (error || !data.user) return undefined
-  return data.user.user_metadata?.username || undefined
+import multer from "multer"
+import config from "../config"
+import { repositories, NOT_FOUND_CODE, type BookmarkWrite } from "../repositories"
+import { Bookmark, BookmarkInput, BulkBookmarkOperation, ReadingStatus } from "../types/bookmark.types"
+import {
+  detectImportFormat,
+  ExportFormat,
+  ImportFormat,
+  parseImport,
+  toCsv,
+  toJson,
+  toMalXml
+} from "../utils/bookmarkFormats"
+import { findMangas, MangaMatch } from "../utils/mangaLookup"
+import { recordReading } from "../utils/readingHistory"
+import { autoTransitionFor, manualTransition, PendingTransition, recordTransitions } from "../utils/statusTransitions"
+import { currentUsername } from "../utils/usernames"
+
+// Import files are parsed in memory
+export const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: config.bookmarkImport.maxFileSizeBytes
+  }
+})
+
+type ImportResultStatus = "created" | "updated" | "conflict" | "failed"
+
+interface ImportResult {
+  row: number
+  title: string
+  status: ImportResultStatus
+  manga_id?: string
+  bookmark_id?: string
+  reason?: string
 }
 
+const EXPORTS: Record<ExportFormat, { contentType: string; extension: string; render: (bookmarks: Bookmark[]) => string }> = {
+  csv: { contentType: "text/csv; charset=utf-8", extension: "csv", render: toCsv },
+  json: { contentType: "application/json; charset=utf-8", extension: "json", render: toJson },
+  mal: { contentType: "application/xml; charset=utf-8", extension: "xml", render: toMalXml }
+}
+
+interface BulkResult {
+  index: number
+  id: string
+  action: BulkBookmarkOperation["action"]
+  status: "applied" | "rejected" | "skipped"
+  reason?: string
+  bookmark?: Bookmark
+  transition?: PendingTransition
+}
+
+const bulkChanges = (operation: BulkBookmarkOperation): Partial<Bookmark> =>
+  operation.action === "update_status"
+    ? { reading_status: operation.reading_status }
+    : {
+        last_read_chapter: operation.last_read_chapter,
+        last_read_chapter_hid: operation.last_read_chapter_hid,
+        last_read_at: new Date().toISOString()
+      }
+
 // @desc    Get user's bookmarks
 // @route   GET /api/bookmarks
 // @access  Private
@@ -39,18 +87,13 @@ export const getBookmarks = async (req: Request, res: Response): Promise<void> =
     const limitNum = parseInt(limit as string)
     const offset = (pageNum - 1) * limitNum
 
-    let query = supabase
-      .from('bookmarks')
-      .select('*', { count: 'exact' })
-      .eq('user_id', req.user.id)
-
-    if (reading_status) {
-      query = query.eq('reading_status', reading_status)
-    }
-
-    const { data, error, count } = await query
-      .order(sort as string, { ascending: order === 'asc' })
-      .range(offset, offset + limitNum - 1)
+    const { data, error, count } = await repositories.bookmarks.list(req.user.id, {
+      offset,
+      limit: limitNum,
+      sort: sort as string,
+      ascending: order === 'asc',
+      readingStatus: reading_status as ReadingStatus | undefined
+    })
 
     if (error) {
       res.status(400).json({
@@ -104,7 +147,7 @@ export const addBookmark = async (req: Request, res: Response): Promise<void> =>
       return
     }
 
-    const username = await getUsernameFromAuth(req.user.id)
+    const username = await currentUsername(req.user.id)
 
     const {
       manga_id,
@@ -116,7 +159,8 @@ export const addBookmark = async (req: Request, res: Response): Promise<void> =>
       manga_country = 'jp',
       last_read_chapter,
       last_read_chapter_hid,
-      reading_status = 'plan_to_read'  
+      reading_status = 'plan_to_read',
+      auto_status
     }: BookmarkInput = req.body
 
     const bookmarkData: Partial<Bookmark> = {
@@ -132,18 +176,12 @@ export const addBookmark = async (req: Request, res: Response): Promise<void> =>
       last_read_chapter,
       last_read_chapter_hid,
       reading_status,  
+      auto_status,
       last_read_at: last_read_chapter ? new Date().toISOString() : undefined
     }
 
     // Use upsert to handle duplicate bookmarks
-    const { data, error } = await supabase
-      .from('bookmarks')
-      .upsert(bookmarkData, { 
-        onConflict: 'user_id,manga_id',
-        ignoreDuplicates: false 
-      })
-      .select()
-      .single()
+    const { data, error } = await repositories.bookmarks.upsert(bookmarkData)
 
     if (error) {
       res.status(400).json({
@@ -193,24 +231,38 @@ export const updateBookmark = async (req: Request, res: Response): Promise<void>
     }
 
     const { id } = req.params
-    const { last_read_chapter, last_read_chapter_hid }: { 
+    const { last_read_chapter, last_read_chapter_hid, auto_status }: { 
       last_read_chapter?: string
       last_read_chapter_hid?: string 
+      auto_status?: boolean
     } = req.body
 
+    const { data: current } = await repositories.bookmarks.findById(req.user.id, id)
+    if (!current) {
+      res.status(404).json({
+        success: false,
+        message: "Bookmark not found"
+      })
+      return
+    }
+
+    // Only toggling auto_status leaves reading progress untouched
+    const onlyAutoStatus = auto_status !== undefined && last_read_chapter === undefined && last_read_chapter_hid === undefined
+    const transition = last_read_chapter
+      ? await autoTransitionFor({ ...current, auto_status: auto_status ?? current.auto_status }, last_read_chapter)
+      : null
+
     const updateData: Partial<Bookmark> = {
-      last_read_chapter,
-      last_read_chapter_hid,
-      last_read_at: new Date().toISOString()
+      ...(!onlyAutoStatus && {
+        last_read_chapter,
+        last_read_chapter_hid,
+        last_read_at: new Date().toISOString()
+      }),
+      ...(auto_status !== undefined && { auto_status }),
+      ...(transition && { reading_status: transition.to_status })
     }
 
-    const { data, error } = await supabase
-      .from('bookmarks')
-      .update(updateData)
-      .eq('id', id)
-      .eq('user_id', req.user.id)
-      .select()
-      .single()
+    const { data, error } = await repositories.bookmarks.update(req.user.id, id, updateData)
 
     if (error) {
       res.status(400).json({
@@ -229,10 +281,18 @@ export const updateBookmark = async (req: Request, res: Response): Promise<void>
       return
     }
 
+    if (last_read_chapter) {
+      await recordReading(data)
+    }
+    if (transition) {
+      await recordTransitions(req.user.id, [transition])
+    }
+
     res.status(200).json({
       success: true,
       message: "Bookmark updated successfully",
-      data
+      data,
+      transition
     })
   } catch (error) {
     console.error("Update bookmark error:", error)
@@ -273,19 +333,24 @@ export const updateReadingProgress = async (req: Request, res: Response): Promis
       last_read_chapter_hid: string
     } = req.body
 
+    const { data: current } = await repositories.bookmarks.findById(req.user.id, id)
+    if (!current) {
+      res.status(404).json({
+        success: false,
+        message: "Bookmark not found"
+      })
+      return
+    }
+
+    const transition = await autoTransitionFor(current, last_read_chapter)
     const updateData: Partial<Bookmark> = {
       last_read_chapter,
       last_read_chapter_hid,
-      last_read_at: new Date().toISOString()
+      last_read_at: new Date().toISOString(),
+      ...(transition && { reading_status: transition.to_status })
     }
 
-    const { data, error } = await supabase
-      .from('bookmarks')
-      .update(updateData)
-      .eq('id', id)
-      .eq('user_id', req.user.id)
-      .select()
-      .single()
+    const { data, error } = await repositories.bookmarks.update(req.user.id, id, updateData)
 
     if (error) {
       res.status(400).json({
@@ -304,10 +369,16 @@ export const updateReadingProgress = async (req: Request, res: Response): Promis
       return
     }
 
+    await recordReading(data)
+    if (transition) {
+      await recordTransitions(req.user.id, [transition])
+    }
+
     res.status(200).json({
       success: true,
       message: "Reading progress updated successfully",
-      data
+      data,
+      transition
     })
   } catch (error) {
     console.error("Update reading progress error:", error)
@@ -345,12 +416,7 @@ export const removeBookmark = async (req: Request, res: Response): Promise<void>
     const { id } = req.params
 
     // First check if bookmark exists and belongs to user
-    const { data: existingBookmark, error: fetchError } = await supabase
-      .from('bookmarks')
-      .select('id')
-      .eq('id', id)
-      .eq('user_id', req.user.id)
-      .single()
+    const { data: existingBookmark, error: fetchError } = await repositories.bookmarks.findById(req.user.id, id)
 
     if (fetchError || !existingBookmark) {
       res.status(404).json({
@@ -360,11 +426,7 @@ export const removeBookmark = async (req: Request, res: Response): Promise<void>
       return
     }
 
-    const { error } = await supabase
-      .from('bookmarks')
-      .delete()
-      .eq('id', id)
-      .eq('user_id', req.user.id)
+    const { error } = await repositories.bookmarks.remove(req.user.id, id)
 
     if (error) {
       res.status(400).json({
@@ -414,14 +476,14 @@ export const checkBookmark = async (req: Request, res: Response): Promise<void>
 
     const { manga_id } = req.params
 
-    const { data, error } = await supabase
-      .from('bookmarks')
-      .select('id, last_read_chapter, last_read_at')
-      .eq('user_id', req.user.id)
-      .eq('manga_id', manga_id)
-      .single()
+    const { data: bookmark, error } = await repositories.bookmarks.findByManga(req.user.id, manga_id)
+    const data = bookmark && {
+      id: bookmark.id,
+      last_read_chapter: bookmark.last_read_chapter,
+      last_read_at: bookmark.last_read_at
+    }
 
-    if (error && error.code !== 'PGRST116') { // PGRST116 is "not found"
+    if (error && error.code !== NOT_FOUND_CODE) {
       res.status(400).json({
         success: false,
         message: "Failed to check bookmark status",
@@ -481,17 +543,20 @@ export const updateReadingStatus = async (req: Request, res: Response): Promise<
       return
     }
 
+    const { data: current } = await repositories.bookmarks.findById(req.user.id, id)
+    if (!current) {
+      res.status(404).json({
+        success: false,
+        message: "Bookmark not found"
+      })
+      return
+    }
+
     const updateData: Partial<Bookmark> = {
       reading_status: reading_status as ReadingStatus
     }
 
-    const { data, error } = await supabase
-      .from('bookmarks')
-      .update(updateData)
-      .eq('id', id)
-      .eq('user_id', req.user.id)
-      .select()
-      .single()
+    const { data, error } = await repositories.bookmarks.update(req.user.id, id, updateData)
 
     if (error) {
       res.status(400).json({
@@ -510,10 +575,16 @@ export const updateReadingStatus = async (req: Request, res: Response): Promise<
       return
     }
 
+    const transition = manualTransition(current, reading_status as ReadingStatus)
+    if (transition) {
+      await recordTransitions(req.user.id, [transition])
+    }
+
     res.status(200).json({
       success: true,
       message: "Reading status updated successfully",
-      data
+      data,
+      transition
     })
   } catch (error) {
     console.error("Update reading status error:", error)
@@ -522,4 +593,571 @@ export const updateReadingStatus = async (req: Request, res: Response): Promise<
       message: "Internal server error"
     })
   }
+}
+
+// @desc    Get a bookmark's reading status changes, newest first
+// @route   GET /api/bookmarks/:id/transitions
+// @access  Private
+export const getStatusTransitions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: "User not authenticated"
+      })
+      return
+    }
+
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        message: "Validation failed",
+        errors: errors.array()
+      })
+      return
+    }
+
+    const { data, error } = await repositories.statusTransitions.listByBookmark(req.user.id, req.params.id)
+
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: "Failed to fetch status transitions",
+        error: error.message
+      })
+      return
+    }
+
+    res.status(200).json({
+      success: true,
+      data: data || []
+    })
+  } catch (error) {
+    console.error("Get status transitions error:", error)
+    res.status(500).json({
+      success: false,
+      message: "Internal server error"
+    })
+  }
+}
+
+// @desc    Set score, private notes and public review; null clears a field
+// @route   PUT /api/bookmarks/:id/review
+// @access  Private
+export const updateBookmarkReview = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: "User not authenticated"
+      })
+      return
+    }
+
+    // Check for validation errors
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        message: "Validation failed",
+        errors: errors.array()
+      })
+      return
+    }
+
+    const { id } = req.params
+    const { score, notes, review }: {
+      score?: number | null
+      notes?: string | null
+      review?: string | null
+    } = req.body
+
+    // Only fields present in the body change; blank text counts as clearing it
+    const updateData: Partial<Bookmark> = {}
+    if (score !== undefined) {
+      updateData.score = score === null ? null : Number(score)
+    }
+    if (notes !== undefined) {
+      updateData.notes = notes?.trim() || null
+    }
+    if (review !== undefined) {
+      updateData.review = review?.trim() || null
+      updateData.reviewed_at = updateData.review ? new Date().toISOString() : null
+    }
+
+    const { data, error } = await repositories.bookmarks.update(req.user.id, id, updateData)
+
+    if (error) {
+      res.status(error.code === NOT_FOUND_CODE ? 404 : 400).json({
+        success: false,
+        message: error.code === NOT_FOUND_CODE ? "Bookmark not found" : "Failed to update review",
+        error: error.message
+      })
+      return
+    }
+
+    if (!data) {
+      res.status(404).json({
+        success: false,
+        message: "Bookmark not found"
+      })
+      return
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Review updated successfully",
+      data
+    })
+  } catch (error) {
+    console.error("Update review error:", error)
+    res.status(500).json({
+      success: false,
+      message: "Internal server error"
+    })
+  }
+}
+
+// @desc    Get bookmarks with chapters newer than the last one read, most recent release first
+// @route   GET /api/bookmarks/updates
+// @access  Private
+export const getBookmarkUpdates = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: "User not authenticated"
+      })
+      return
+    }
+
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        message: "Validation failed",
+        errors: errors.array()
+      })
+      return
+    }
+
+    const { page = "1", limit = "20" } = req.query
+    const pageNum = parseInt(page as string)
+    const limitNum = parseInt(limit as string)
+
+    const { data: updates, error, count } = await repositories.chapters.listBookmarkUpdates(req.user.id, {
+      offset: (pageNum - 1) * limitNum,
+      limit: limitNum
+    })
+
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: "Failed to fetch bookmark updates",
+        error: error.message
+      })
+      return
+    }
+
+    res.status(200).json({
+      success: true,
+      data: updates || [],
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total: count || 0,
+        pages: Math.ceil((count || 0) / limitNum)
+      }
+    })
+  } catch (error) {
+    console.error("Get bookmark updates error:", error)
+    res.status(500).json({
+      success: false,
+      message: "Internal server error"
+    })
+  }
+}
+
+// @desc    Export all bookmarks as CSV, JSON or MyAnimeList XML
+// @route   GET /api/bookmarks/export?format=csv|json|mal
+// @access  Private
+export const exportBookmarks = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: "User not authenticated"
+      })
+      return
+    }
+
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        message: "Validation failed",
+        errors: errors.array()
+      })
+      return
+    }
+
+    const format = ((req.query.format as string) || "csv") as ExportFormat
+    const { data: bookmarks, error } = await repositories.bookmarks.listAllByUser(req.user.id)
+
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: "Failed to export bookmarks",
+        error: error.message
+      })
+      return
+    }
+
+    const sorted = (bookmarks || []).sort((a, b) => a.manga_title.localeCompare(b.manga_title))
+    const { contentType, extension, render } = EXPORTS[format]
+    const fileName = `bookmarks-${new Date().toISOString().slice(0, 10)}.${extension}`
+
+    res
+      .status(200)
+      .set({
+        "Content-Type": contentType,
+        "Content-Disposition": `attachment; filename="${fileName}"`
+      })
+      .send(render(sorted))
+  } catch (error) {
+    console.error("Export bookmarks error:", error)
+    res.status(500).json({
+      success: false,
+      message: "Internal server error"
+    })
+  }
+}
+
+// @desc    Import bookmarks from a CSV, JSON, AniList or MyAnimeList export
+// @route   POST /api/bookmarks/import
+// @access  Private
+export const importBookmarks = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: "User not authenticated"
+      })
+      return
+    }
+
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        message: "Validation failed",
+        errors: errors.array()
+      })
+      return
+    }
+
+    // The file comes as a multipart upload, or as text in a JSON body
+    const text = (req.file ? req.file.buffer.toString("utf8") : req.body.content || "").replace(/^\uFEFF/, "")
+    const dryRun = String(req.body.dry_run) === "true"
+    const overwrite = req.body.on_conflict === "overwrite"
+
+    if (!text.trim()) {
+      res.status(400).json({
+        success: false,
+        message: "No import file provided"
+      })
+      return
+    }
+
+    const format: ImportFormat | null = req.body.format || detectImportFormat(text, req.file?.originalname)
+    if (!format) {
+      res.status(400).json({
+        success: false,
+        message: "Could not determine the import format"
+      })
+      return
+    }
+
+    let entries
+    try {
+      entries = parseImport(format, text)
+    } catch (parseError: any) {
+      res.status(400).json({
+        success: false,
+        message: "Could not parse import file",
+        error: parseError.message
+      })
+      return
+    }
+
+    if (entries.length > config.bookmarkImport.maxRows) {
+      res.status(400).json({
+        success: false,
+        message: `Import files are limited to ${config.bookmarkImport.maxRows} entries`
+      })
+      return
+    }
+
+    const { data: existing, error: fetchError } = await repositories.bookmarks.listAllByUser(req.user.id)
+    if (fetchError) {
+      res.status(400).json({
+        success: false,
+        message: "Failed to import bookmarks",
+        error: fetchError.message
+      })
+      return
+    }
+
+    // Entries that don't name their manga are looked up a few at a time up front
+    const unidentified = entries.filter((entry) => !entry.error && !entry.manga)
+    const lookups = await findMangas(
+      unidentified.map((entry) => ({ title: entry.title, mal_id: entry.mal_id, anilist_id: entry.anilist_id }))
+    )
+    const lookupsByEntry = new Map(unidentified.map((entry, index) => [entry, lookups[index]]))
+
+    const username = await currentUsername(req.user.id)
+    const existingByManga = new Map((existing || []).map((bookmark) => [bookmark.manga_id, bookmark]))
+    const seen = new Set<string>()
+    const results: ImportResult[] = []
+
+    for (const entry of entries) {
+      const result: ImportResult = { row: entry.row, title: entry.title, status: "failed" }
+      results.push(result)
+
+      if (entry.error) {
+        result.reason = entry.error
+        continue
+      }
+
+      let manga: MangaMatch | null | undefined = entry.manga
+      if (!manga) {
+        const lookup = lookupsByEntry.get(entry)!
+        if (lookup.status === "rejected") {
+          console.error("Import manga lookup error:", lookup.reason)
+          result.reason = "Manga lookup failed"
+          continue
+        }
+        manga = lookup.value
+      }
+      if (!manga) {
+        result.reason = "No matching manga found"
+        continue
+      }
+      result.manga_id = manga.manga_id
+
+      if (seen.has(manga.manga_id)) {
+        result.status = "conflict"
+        result.reason = "Duplicate entry in this file"
+        continue
+      }
+      seen.add(manga.manga_id)
+
+      // Fields the file doesn't carry stay undefined, so overwriting keeps the bookmark's own
+      const progress: Partial<Bookmark> = {
+        reading_status: entry.reading_status,
+        ...(entry.last_read_chapter && {
+          last_read_chapter: entry.last_read_chapter,
+          last_read_chapter_hid: entry.last_read_chapter_hid
+        }),
+        score: entry.score,
+        notes: entry.notes,
+        review: entry.review,
+        reviewed_at: entry.reviewed_at,
+        auto_status: entry.auto_status
+      }
+
+      const current = existingByManga.get(manga.manga_id)
+      if (current && (!overwrite || Object.values(progress).every((value) => value === undefined))) {
+        result.status = "conflict"
+        result.reason = "Already bookmarked"
+        result.bookmark_id = current.id
+        continue
+      }
+
+      if (!dryRun) {
+        const { data: saved, error } = current
+          ? await repositories.bookmarks.update(req.user.id, current.id, progress)
+          : await repositories.bookmarks.upsert({
+              user_id: req.user.id,
+              username,
+              ...manga,
+              ...progress,
+              reading_status: entry.reading_status || "plan_to_read"
+            })
+
+        if (error || !saved) {
+          result.reason = error?.message || "Failed to save bookmark"
+          continue
+        }
+        result.bookmark_id = saved.id
+      } else if (current) {
+        result.bookmark_id = current.id
+      }
+      result.status = current ? "updated" : "created"
+    }
+
+    const count = (status: ImportResultStatus) => results.filter((result) => result.status === status).length
+
+    res.status(200).json({
+      success: true,
+      message: dryRun ? "Import preview generated" : "Import completed",
+      data: {
+        format,
+        dry_run: dryRun,
+        summary: {
+          total: results.length,
+          created: count("created"),
+          updated: count("updated"),
+          conflicts: count("conflict"),
+          failed: count("failed")
+        },
+        results
+      }
+    })
+  } catch (error) {
+    console.error("Import bookmarks error:", error)
+    res.status(500).json({
+      success: false,
+      message: "Internal server error"
+    })
+  }
+}
+
+// @desc    Apply several status, progress and delete operations at once; either all apply or none do
+// @route   POST /api/bookmarks/bulk
+// @access  Private
+export const bulkUpdateBookmarks = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: "User not authenticated"
+      })
+      return
+    }
+
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        message: "Validation failed",
+        errors: errors.array()
+      })
+      return
+    }
+
+    const userId: string = req.user.id
+    const { operations }: { operations: BulkBookmarkOperation[] } = req.body
+
+    const ids = [...new Set(operations.map((operation) => operation.id))]
+    const { data: bookmarks, error: fetchError } = await repositories.bookmarks.findManyByIds(userId, ids)
+    if (fetchError) {
+      res.status(400).json({
+        success: false,
+        message: "Failed to update bookmarks",
+        error: fetchError.message
+      })
+      return
+    }
+
+    // Check every operation against the user's bookmarks before touching anything
+    const owned = new Map((bookmarks || []).map((bookmark) => [bookmark.id, bookmark]))
+    const deleted = new Set<string>()
+    const results: BulkResult[] = operations.map((operation, index) => {
+      const result: BulkResult = { index, id: operation.id, action: operation.action, status: "applied" }
+
+      if (!owned.has(operation.id)) {
+        return { ...result, status: "rejected", reason: "Bookmark not found" }
+      }
+      if (deleted.has(operation.id)) {
+        return { ...result, status: "rejected", reason: "Bookmark is deleted earlier in this request" }
+      }
+      if (operation.action === "delete") {
+        deleted.add(operation.id)
+      }
+      return result
+    })
+
+    if (results.some((result) => result.status === "rejected")) {
+      res.status(400).json({
+        success: false,
+        message: "No changes were applied because some operations are invalid",
+        data: {
+          results: results.map((result) =>
+            result.status === "rejected" ? result : { ...result, status: "skipped" }
+          )
+        }
+      })
+      return
+    }
+
+    // Every write is worked out first, then applied in one all-or-nothing step.
+    // Status rules see each bookmark as earlier operations in this request leave it.
+    const latest = new Map(owned)
+    const writes: BookmarkWrite[] = []
+    for (const [index, operation] of operations.entries()) {
+      if (operation.action === "delete") {
+        writes.push({ id: operation.id, action: "delete" })
+        continue
+      }
+
+      const bookmark = latest.get(operation.id)!
+      const transition = operation.action === "update_progress"
+        ? await autoTransitionFor(bookmark, operation.last_read_chapter!)
+        : manualTransition(bookmark, operation.reading_status!)
+      const changes = { ...bulkChanges(operation), ...(transition && { reading_status: transition.to_status }) }
+
+      writes.push({ id: operation.id, action: "update", changes })
+      latest.set(operation.id, { ...bookmark, ...changes })
+      if (transition) {
+        results[index].transition = transition
+      }
+    }
+
+    const { data: written, error: writeError } = await repositories.bookmarks.applyWrites(userId, writes)
+    if (writeError || !written) {
+      console.error("Bulk bookmark write error:", writeError)
+      res.status(500).json({
+        success: false,
+        message: "Bulk update failed; no changes were applied",
+        error: writeError?.message,
+        data: {
+          results: results.map(({ transition, ...result }) => ({ ...result, status: "skipped" }))
+        }
+      })
+      return
+    }
+
+    written.forEach((bookmark, index) => {
+      if (bookmark) {
+        results[index].bookmark = bookmark
+      }
+    })
+
+    // History and transitions are only written once the whole request has succeeded
+    for (const result of results) {
+      if (result.action === "update_progress" && result.bookmark) {
+        await recordReading(result.bookmark)
+      }
+    }
+    await recordTransitions(
+      userId,
+      results.flatMap((result) => (result.transition ? [result.transition] : []))
+    )
+
+    res.status(200).json({
+      success: true,
+      message: `${operations.length} bookmark operations applied`,
+      data: {
+        results
+      }
+    })
+  } catch (error) {
+    console.error("Bulk update bookmarks error:", error)
+    res.status(500).json({
+      success: false,
+      message: "Internal server error"
+    })
+  }
 }
\ No newline at end of file
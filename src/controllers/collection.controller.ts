@@ -0,0 +1,387 @@
+import type { Request, Response, NextFunction } from "express"
+import { randomBytes } from "crypto"
+import { validationResult } from "express-validator"
+import { repositories, UNIQUE_VIOLATION_CODE } from "../repositories"
+import { AppError } from "../utils/appError"
+import logger from "../utils/logger"
+import type { Bookmark } from "../types/bookmark.types"
+import type { Collection, CollectionEntry, CollectionItem } from "../types/collection.types"
+
+// Readable prefix from the name plus a random suffix, so names don't need to be unique
+const collectionSlug = (name: string): string => {
+  const base = name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 50)
+  return `${base || "collection"}-${randomBytes(4).toString("hex")}`
+}
+
+const toEntries = (items: CollectionItem[], bookmarks: Bookmark[]): CollectionEntry[] => {
+  const bookmarkMap = new Map(bookmarks.map((bookmark) => [bookmark.id, bookmark]))
+
+  return items.flatMap((item) => {
+    const bookmark = bookmarkMap.get(item.bookmark_id)
+    if (!bookmark) return []
+
+    return [
+      {
+        bookmark_id: item.bookmark_id,
+        position: item.position,
+        added_at: item.added_at,
+        manga_id: bookmark.manga_id,
+        manga_hid: bookmark.manga_hid,
+        manga_title: bookmark.manga_title,
+        manga_slug: bookmark.manga_slug,
+        manga_cover_b2key: bookmark.manga_cover_b2key,
+        manga_status: bookmark.manga_status,
+        manga_country: bookmark.manga_country,
+      },
+    ]
+  })
+}
+
+// Loads a collection's items joined with the bookmarks they point at
+const loadEntries = async (collection: Collection): Promise<CollectionEntry[]> => {
+  const { data: items, error } = await repositories.collectionItems.listByCollection(collection.id)
+  if (error) {
+    throw new AppError("Failed to fetch collection items", 500)
+  }
+
+  const { data: bookmarks, error: bookmarkError } = await repositories.bookmarks.findManyByIds(
+    collection.user_id,
+    (items || []).map((item) => item.bookmark_id),
+  )
+  if (bookmarkError) {
+    throw new AppError("Failed to fetch collection items", 500)
+  }
+
+  return toEntries(items || [], bookmarks || [])
+}
+
+// Bumps updated_at so collections with recent item changes list first
+const touchCollection = async (collection: Collection) => {
+  const { error } = await repositories.collections.update(collection.user_id, collection.id, {})
+  if (error) {
+    logger.error("Collection touch error:", error)
+  }
+}
+
+const findOwnCollection = async (req: Request, next: NextFunction): Promise<Collection | null> => {
+  const { data: collection, error } = await repositories.collections.findById(req.user.id, req.params.id)
+  if (error || !collection) {
+    next(new AppError("Collection not found", 404))
+    return null
+  }
+  return collection
+}
+
+// @desc    Get the user's collections
+// @route   GET /api/collections
+// @access  Private
+export const getCollections = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { data: collections, error } = await repositories.collections.listByUser(req.user.id)
+    if (error) {
+      logger.error("Collections fetch error:", error)
+      return next(new AppError("Failed to fetch collections", 500))
+    }
+
+    const ids = (collections || []).map((collection) => collection.id)
+    const { data: items } = ids.length ? await repositories.collectionItems.listByCollections(ids) : { data: [] }
+    const counts = new Map<string, number>()
+    ;(items || []).forEach((item) => counts.set(item.collection_id, (counts.get(item.collection_id) || 0) + 1))
+
+    res.status(200).json({
+      success: true,
+      data: (collections || []).map((collection) => ({
+        ...collection,
+        item_count: counts.get(collection.id) || 0,
+      })),
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || "Failed to fetch collections", 500))
+  }
+}
+
+// @desc    Create a collection
+// @route   POST /api/collections
+// @access  Private
+export const createCollection = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()))
+    }
+
+    const { name, description, is_public = false }: { name: string; description?: string; is_public?: boolean } =
+      req.body
+
+    const { data: collection, error } = await repositories.collections.create({
+      user_id: req.user.id,
+      name: name.trim(),
+      slug: collectionSlug(name),
+      description: description?.trim() || null,
+      is_public,
+    })
+
+    if (error || !collection) {
+      logger.error("Collection create error:", error)
+      return next(new AppError("Failed to create collection", 500))
+    }
+
+    res.status(201).json({
+      success: true,
+      message: "Collection created",
+      data: { ...collection, items: [] },
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || "Failed to create collection", 500))
+  }
+}
+
+// @desc    Get one of the user's collections with its items
+// @route   GET /api/collections/:id
+// @access  Private
+export const getCollection = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()))
+    }
+
+    const collection = await findOwnCollection(req, next)
+    if (!collection) return
+
+    res.status(200).json({
+      success: true,
+      data: { ...collection, items: await loadEntries(collection) },
+    })
+  } catch (error: any) {
+    next(error instanceof AppError ? error : new AppError(error.message || "Failed to fetch collection", 500))
+  }
+}
+
+// @desc    Update a collection's name, description or visibility
+// @route   PATCH /api/collections/:id
+// @access  Private
+export const updateCollection = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()))
+    }
+
+    const collection = await findOwnCollection(req, next)
+    if (!collection) return
+
+    const { name, description, is_public } = req.body
+    const changes: Partial<Collection> = {
+      ...(name !== undefined && { name: name.trim() }),
+      ...(description !== undefined && { description: description?.trim() || null }),
+      ...(is_public !== undefined && { is_public }),
+    }
+
+    const { data: updated, error } = await repositories.collections.update(req.user.id, collection.id, changes)
+    if (error || !updated) {
+      logger.error("Collection update error:", error)
+      return next(new AppError("Failed to update collection", 500))
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Collection updated",
+      data: updated,
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || "Failed to update collection", 500))
+  }
+}
+
+// @desc    Delete a collection (its bookmarks are kept)
+// @route   DELETE /api/collections/:id
+// @access  Private
+export const deleteCollection = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()))
+    }
+
+    const collection = await findOwnCollection(req, next)
+    if (!collection) return
+
+    const { error } = await repositories.collections.remove(req.user.id, collection.id)
+    if (error) {
+      logger.error("Collection delete error:", error)
+      return next(new AppError("Failed to delete collection", 500))
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Collection deleted",
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || "Failed to delete collection", 500))
+  }
+}
+
+// @desc    Add a bookmarked manga to the end of a collection
+// @route   POST /api/collections/:id/items
+// @access  Private
+export const addCollectionItem = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()))
+    }
+
+    const collection = await findOwnCollection(req, next)
+    if (!collection) return
+
+    const { bookmark_id }: { bookmark_id: string } = req.body
+    const { data: bookmark, error: bookmarkError } = await repositories.bookmarks.findById(req.user.id, bookmark_id)
+    if (bookmarkError || !bookmark) {
+      return next(new AppError("Bookmark not found", 404))
+    }
+
+    const { error } = await repositories.collectionItems.add(collection.id, bookmark_id)
+
+    if (error?.code === UNIQUE_VIOLATION_CODE) {
+      return next(new AppError("This manga is already in the collection", 409))
+    }
+    if (error) {
+      logger.error("Collection item add error:", error)
+      return next(new AppError("Failed to add to collection", 500))
+    }
+
+    await touchCollection(collection)
+
+    res.status(201).json({
+      success: true,
+      message: "Added to collection",
+      data: { ...collection, items: await loadEntries(collection) },
+    })
+  } catch (error: any) {
+    next(error instanceof AppError ? error : new AppError(error.message || "Failed to add to collection", 500))
+  }
+}
+
+// @desc    Remove a manga from a collection
+// @route   DELETE /api/collections/:id/items/:bookmarkId
+// @access  Private
+export const removeCollectionItem = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()))
+    }
+
+    const collection = await findOwnCollection(req, next)
+    if (!collection) return
+
+    const { data: items } = await repositories.collectionItems.listByCollection(collection.id)
+    if (!(items || []).some((item) => item.bookmark_id === req.params.bookmarkId)) {
+      return next(new AppError("Manga is not in this collection", 404))
+    }
+
+    const { error } = await repositories.collectionItems.remove(collection.id, req.params.bookmarkId)
+    if (error) {
+      logger.error("Collection item remove error:", error)
+      return next(new AppError("Failed to remove from collection", 500))
+    }
+
+    await touchCollection(collection)
+
+    res.status(200).json({
+      success: true,
+      message: "Removed from collection",
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || "Failed to remove from collection", 500))
+  }
+}
+
+// @desc    Set the manual order of a collection's items
+// @route   PUT /api/collections/:id/items/order
+// @access  Private
+export const reorderCollectionItems = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()))
+    }
+
+    const collection = await findOwnCollection(req, next)
+    if (!collection) return
+
+    const { bookmark_ids }: { bookmark_ids: string[] } = req.body
+    const { data: items, error: fetchError } = await repositories.collectionItems.listByCollection(collection.id)
+    if (fetchError) {
+      logger.error("Collection items fetch error:", fetchError)
+      return next(new AppError("Failed to reorder collection", 500))
+    }
+
+    // The new order must list every item exactly once
+    const current = new Set((items || []).map((item) => item.bookmark_id))
+    const requested = new Set(bookmark_ids)
+    if (
+      requested.size !== bookmark_ids.length ||
+      requested.size !== current.size ||
+      bookmark_ids.some((id) => !current.has(id))
+    ) {
+      return next(new AppError("bookmark_ids must list every item in the collection exactly once", 400))
+    }
+
+    const { error } = await repositories.collectionItems.reorder(collection.id, bookmark_ids)
+    if (error) {
+      logger.error("Collection reorder error:", error)
+      return next(new AppError("Failed to reorder collection", 500))
+    }
+
+    await touchCollection(collection)
+
+    res.status(200).json({
+      success: true,
+      message: "Collection reordered",
+      data: { ...collection, items: await loadEntries(collection) },
+    })
+  } catch (error: any) {
+    next(error instanceof AppError ? error : new AppError(error.message || "Failed to reorder collection", 500))
+  }
+}
+
+// @desc    View a public collection by its share slug
+// @route   GET /api/collections/shared/:slug
+// @access  Public
+export const getSharedCollection = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { data: collection, error } = await repositories.collections.findBySlug(req.params.slug)
+
+    // Private collections are indistinguishable from missing ones
+    if (error || !collection || !collection.is_public) {
+      return next(new AppError("Collection not found", 404))
+    }
+
+    const { data: owner } = await repositories.profiles.findById(collection.user_id)
+    const { id, name, slug, description, created_at, updated_at } = collection
+
+    res.status(200).json({
+      success: true,
+      data: {
+        id,
+        name,
+        slug,
+        description,
+        created_at,
+        updated_at,
+        owner: owner ? { username: owner.username, avatar_url: owner.avatar_url || null } : null,
+        items: await loadEntries(collection),
+      },
+    })
+  } catch (error: any) {
+    next(error instanceof AppError ? error : new AppError(error.message || "Failed to fetch collection", 500))
+  }
+}
@@ -1,9 +1,209 @@
 import { Request, Response, NextFunction } from "express";
 import { validationResult } from "express-validator";
-import { supabaseAdmin } from "../utils/supabase";
+import { repositories } from "../repositories";
 import { AppError } from "../utils/appError";
 import logger from "../utils/logger";
-import { Comment, CommentInput } from "../types/comment.types";
+import config from "../config";
+import { decodeCursor, encodeCursor } from "../utils/cursor";
+import { commentBlockReason, hiddenAuthorIds } from "../utils/blocks";
+import { softDeleteComment } from "../utils/commentDeletion";
+import { parseCommentMarkup } from "../utils/commentMarkup";
+import { notifyCommentActivity } from "../utils/notifications";
+import { chapterChannel, publish } from "../utils/realtime";
+import {
+  Comment,
+  CommentCursor,
+  CommentInput,
+  CommentNode,
+  CommentReaction,
+  CommentRecord,
+  CommentSort,
+  DELETED_COMMENT_PLACEHOLDER,
+  HIDDEN_COMMENT_PLACEHOLDER,
+  REACTION_TYPES,
+  ReactionCounts,
+  ReactionType,
+} from "../types/comment.types";
+import type { UserProfile } from "../types";
+
+// Tombstones keep their place in the thread but hide the content and author;
+// hidden comments only hide the content
+const commentContent = (comment: CommentRecord): string => {
+  if (comment.deleted_at) return DELETED_COMMENT_PLACEHOLDER;
+  if (comment.hidden_at) return HIDDEN_COMMENT_PLACEHOLDER;
+  return comment.content;
+};
+
+const commentContentParsed = (comment: CommentRecord): CommentNode[] => {
+  if (comment.deleted_at || comment.hidden_at) {
+    return [{ type: "text", text: commentContent(comment) }];
+  }
+  return comment.content_parsed || parseCommentMarkup(comment.content);
+};
+
+const toComment = (
+  comment: CommentRecord,
+  profile?: Pick<UserProfile, "username" | "avatar_url"> | null
+): Comment => ({
+  id: comment.id,
+  user_id: comment.deleted_at ? null : comment.user_id,
+  manga_id: comment.manga_id,
+  chapter_hid: comment.chapter_hid,
+  content: commentContent(comment),
+  content_parsed: commentContentParsed(comment),
+  parent_id: comment.parent_id,
+  created_at: comment.created_at,
+  updated_at: comment.updated_at,
+  depth: comment.depth || 0,
+  is_edited: !!comment.edited_at,
+  edited_at: comment.edited_at || null,
+  is_deleted: !!comment.deleted_at,
+  is_hidden: !comment.deleted_at && !!comment.hidden_at,
+  username: comment.deleted_at
+    ? DELETED_COMMENT_PLACEHOLDER
+    : profile?.username || "Anonymous",
+  avatar_url: comment.deleted_at ? null : profile?.avatar_url || null,
+});
+
+const emptyReactionCounts = (): ReactionCounts =>
+  Object.fromEntries(REACTION_TYPES.map((type) => [type, 0])) as ReactionCounts;
+
+// Loads reaction counts and the viewer's own reactions for the comments, and
+// returns a lookup of each comment's summary. The score is the one the database
+// keeps on the comment, the same value sorting and cursors use.
+const loadReactions = async (commentIds: string[], viewerId?: string) => {
+  const [counts, own] = await Promise.all([
+    repositories.commentReactions.countByComments(commentIds),
+    viewerId
+      ? repositories.commentReactions.listByUser(viewerId, commentIds)
+      : Promise.resolve({ data: [] as CommentReaction[], error: null }),
+  ]);
+
+  const error = counts.error || own.error;
+  if (error) {
+    logger.error("Reactions fetch error:", error);
+    throw new AppError("Failed to fetch comment reactions", 500);
+  }
+
+  const reactionCounts = new Map<string, ReactionCounts>();
+  counts.data?.forEach((row) => {
+    if (!reactionCounts.has(row.comment_id)) {
+      reactionCounts.set(row.comment_id, emptyReactionCounts());
+    }
+    reactionCounts.get(row.comment_id)![row.reaction] = row.count;
+  });
+  const userReactions = new Map<string, ReactionType>(
+    own.data?.map((row) => [row.comment_id, row.reaction])
+  );
+
+  return (comment: CommentRecord) => ({
+    reactions: reactionCounts.get(comment.id) || emptyReactionCounts(),
+    score: comment.score,
+    user_reaction: userReactions.get(comment.id) || null,
+  });
+};
+
+// Joins author profiles and reaction summaries onto raw comment rows
+const hydrateComments = async (
+  records: CommentRecord[],
+  viewerId?: string
+): Promise<Comment[]> => {
+  const userIds = [...new Set(records.map((comment) => comment.user_id))];
+  const { data: profiles, error: profilesError } =
+    await repositories.profiles.findManyByIds(userIds);
+
+  if (profilesError) {
+    logger.error("Profiles fetch error:", profilesError);
+    throw new AppError("Failed to fetch user profiles", 500);
+  }
+
+  const profileMap = new Map<string, UserProfile>();
+  profiles?.forEach((profile) => {
+    profileMap.set(profile.id, profile);
+  });
+
+  const reactionsOf = await loadReactions(
+    records.map((comment) => comment.id),
+    viewerId
+  );
+
+  return records.map((comment) => ({
+    ...toComment(comment, profileMap.get(comment.user_id)),
+    ...reactionsOf(comment),
+  }));
+};
+
+// Nests replies (oldest first) under the given roots, stopping maxDepth levels
+// below each root. Counts cover every reply, including ones cut off by the limit.
+const buildThreads = (
+  comments: Comment[],
+  rootIds: string[],
+  maxDepth: number
+): Comment[] => {
+  const byId = new Map(comments.map((comment) => [comment.id, comment]));
+  const children = new Map<string, Comment[]>();
+
+  comments.forEach((comment) => {
+    if (!comment.parent_id) return;
+    if (!children.has(comment.parent_id)) {
+      children.set(comment.parent_id, []);
+    }
+    children.get(comment.parent_id)?.push(comment);
+  });
+
+  const attach = (comment: Comment, level: number): number => {
+    const direct = (children.get(comment.id) || []).sort(
+      (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+    );
+    const descendants = direct.reduce(
+      (total, child) => total + attach(child, level + 1),
+      direct.length
+    );
+
+    comment.reply_count = direct.length;
+    comment.descendant_count = descendants;
+    comment.has_more_replies = level >= maxDepth && direct.length > 0;
+    comment.replies = level < maxDepth ? direct : [];
+    return descendants;
+  };
+
+  return rootIds
+    .map((id) => byId.get(id))
+    .filter((comment): comment is Comment => !!comment)
+    .map((root) => {
+      attach(root, 0);
+      return root;
+    });
+};
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const TIMESTAMP_PATTERN =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+// Date.parse rolls impossible dates like Feb 30 over, so the date part is
+// checked against its own round trip
+const isIsoTimestamp = (value: string) => {
+  if (!TIMESTAMP_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+    return false;
+  }
+  const day = value.slice(0, 10);
+  return new Date(`${day}T00:00:00Z`).toISOString().startsWith(day);
+};
+
+// Cursor values are written into the keyset filter sent to the database, so
+// only the exact shape the API hands out is accepted
+const isCommentCursor = (value: unknown): value is CommentCursor => {
+  const cursor = value as Partial<CommentCursor> | null;
+  return (
+    typeof cursor?.score === "number" &&
+    Number.isFinite(cursor.score) &&
+    typeof cursor.created_at === "string" &&
+    isIsoTimestamp(cursor.created_at) &&
+    typeof cursor.id === "string" &&
+    UUID_PATTERN.test(cursor.id)
+  );
+};
 
 // @desc    Get comments for a manga chapter
 // @route   GET /api/comments/manga/:manga_id/chapter/:chapter_hid
@@ -19,93 +219,135 @@ export const getComments = async (
       return next(new AppError("Validation error", 400, errors.array()));
     }
     const { manga_id, chapter_hid } = req.params;
-    const { data: comments, error } = await supabaseAdmin
-      .from("comments")
-      .select(`
-        id,
-        user_id,
-        manga_id,
-        chapter_hid,
-        content,
-        parent_id,
-        created_at,
-        updated_at
-      `)
-      .eq("manga_id", manga_id)
-      .eq("chapter_hid", chapter_hid)
-      .order("created_at", { ascending: false });
+    const sort = ((req.query.sort as string) || "new") as CommentSort;
+    const limit = Math.min(
+      parseInt(req.query.limit as string) || config.comments.pageSize,
+      config.comments.maxPageSize
+    );
+
+    let after: CommentCursor | undefined;
+    if (req.query.cursor) {
+      const cursor = decodeCursor<unknown>(req.query.cursor as string);
+      if (!isCommentCursor(cursor)) {
+        return next(new AppError("Invalid cursor", 400));
+      }
+      after = cursor;
+    }
+
+    // Comments by authors the viewer blocked or muted are left out entirely
+    const hiddenAuthors = await hiddenAuthorIds(req.user?.id);
+
+    // One extra row tells us whether another page exists
+    const { data: topLevel, error } = await repositories.comments.listTopLevel(
+      manga_id,
+      chapter_hid,
+      { sort, limit: limit + 1, after, excludeUserIds: hiddenAuthors }
+    );
 
     if (error) {
       logger.error("Comments fetch error:", error);
       return next(new AppError("Failed to fetch comments", 500));
     }
-    if (!comments || comments.length === 0) {
+
+    const page = (topLevel || []).slice(0, limit);
+    const hasMore = (topLevel || []).length > limit;
+    if (page.length === 0) {
       res.status(200).json({
         success: true,
         data: [],
+        pagination: { limit, has_more: false, next_cursor: null },
       });
       return;
     }
-    const userIds = [...new Set(comments.map(comment => comment.user_id))];
-    const { data: profiles, error: profilesError } = await supabaseAdmin
-      .from("profiles")
-      .select("id, username, avatar_url")
-      .in("id", userIds);
 
-    if (profilesError) {
-      logger.error("Profiles fetch error:", profilesError);
-      return next(new AppError("Failed to fetch user profiles", 500));
+    const { data: replies, error: repliesError } =
+      await repositories.comments.listByRoots(page.map((comment) => comment.id));
+
+    if (repliesError) {
+      logger.error("Replies fetch error:", repliesError);
+      return next(new AppError("Failed to fetch comments", 500));
     }
 
-    const profileMap = new Map();
-    profiles?.forEach(profile => {
-      profileMap.set(profile.id, profile);
-    });
+    // Dropping a hidden author's reply also drops the replies below it
+    const comments = await hydrateComments(
+      [...page, ...(replies || []).filter((reply) => !hiddenAuthors.includes(reply.user_id))],
+      req.user?.id
+    );
+    const threads = buildThreads(
+      comments,
+      page.map((comment) => comment.id),
+      config.comments.maxDepth
+    );
 
-    const transformedComments = comments.map((comment: any) => {
-      const profile = profileMap.get(comment.user_id);
-      return {
-        id: comment.id,
-        user_id: comment.user_id,
-        manga_id: comment.manga_id,
-        chapter_hid: comment.chapter_hid,
-        content: comment.content,
-        parent_id: comment.parent_id,
-        created_at: comment.created_at,
-        updated_at: comment.updated_at,
-        username: profile?.username || "Anonymous",
-        avatar_url: profile?.avatar_url || null,
-      };
+    const last = page[page.length - 1];
+    res.status(200).json({
+      success: true,
+      data: threads,
+      pagination: {
+        limit,
+        has_more: hasMore,
+        next_cursor: hasMore
+          ? encodeCursor({ score: last.score || 0, created_at: last.created_at, id: last.id })
+          : null,
+      },
     });
+  } catch (error: any) {
+    logger.error("Get comments error:", error);
+    next(new AppError(error.message || "Failed to fetch comments", 500));
+  }
+};
 
-    const topLevelComments: Comment[] = [];
-    const repliesMap = new Map<string, Comment[]>();
+// @desc    Get the replies below a comment, for threads cut off at max depth
+// @route   GET /api/comments/:id/replies
+// @access  Public
+export const getReplies = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()));
+    }
+    const { id } = req.params;
 
-    transformedComments.forEach((comment: Comment) => {
-      if (comment.parent_id) {
-        if (!repliesMap.has(comment.parent_id)) {
-          repliesMap.set(comment.parent_id, []);
-        }
-        repliesMap.get(comment.parent_id)?.push(comment);
-      } else {
-        topLevelComments.push(comment);
-      }
-    });
+    const { data: comment, error: fetchError } =
+      await repositories.comments.findById(id);
 
-    topLevelComments.forEach((comment) => {
-      comment.replies = repliesMap.get(comment.id) || [];
-      comment.replies.sort(
-        (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
-      );
-    });
+    if (fetchError || !comment) {
+      return next(new AppError("Comment not found", 404));
+    }
+
+    const { data: threadReplies, error: repliesError } =
+      await repositories.comments.listByRoots([comment.root_id || comment.id]);
+
+    if (repliesError) {
+      logger.error("Replies fetch error:", repliesError);
+      return next(new AppError("Failed to fetch replies", 500));
+    }
+
+    const hiddenAuthors = await hiddenAuthorIds(req.user?.id);
+    const comments = await hydrateComments(
+      [
+        comment,
+        ...(threadReplies || []).filter(
+          (reply) => reply.id !== comment.id && !hiddenAuthors.includes(reply.user_id)
+        ),
+      ],
+      req.user?.id
+    );
+    const [thread] = buildThreads(comments, [comment.id], config.comments.maxDepth);
 
     res.status(200).json({
       success: true,
-      data: topLevelComments,
+      data: thread.replies || [],
+      reply_count: thread.reply_count || 0,
+      descendant_count: thread.descendant_count || 0,
     });
   } catch (error: any) {
-    logger.error("Get comments error:", error);
-    next(new AppError(error.message || "Failed to fetch comments", 500));
+    logger.error("Get replies error:", error);
+    next(new AppError(error.message || "Failed to fetch replies", 500));
   }
 };
 
@@ -125,64 +367,66 @@ export const addComment = async (
     const userId = req.user.id;
     const { manga_id, chapter_hid, content, parent_id }: CommentInput = req.body;
 
+    let parentComment: CommentRecord | null = null;
     if (parent_id) {
-      const { data: parentComment, error: parentError } = await supabaseAdmin
-        .from("comments")
-        .select("id")
-        .eq("id", parent_id)
-        .single();
+      const { data, error: parentError } =
+        await repositories.comments.findById(parent_id);
 
-      if (parentError || !parentComment) {
+      if (parentError || !data) {
         return next(new AppError("Parent comment not found", 404));
       }
+      if (data.deleted_at) {
+        return next(new AppError("Cannot reply to a deleted comment", 400));
+      }
+      if (data.manga_id !== manga_id || data.chapter_hid !== chapter_hid) {
+        return next(new AppError("Parent comment belongs to a different chapter", 400));
+      }
+      parentComment = data;
+    }
+
+    const contentParsed = parseCommentMarkup(content.trim());
+    const blockReason = await commentBlockReason(userId, contentParsed, parentComment);
+    if (blockReason) {
+      return next(new AppError(blockReason, 403));
     }
-    const { data: newComment, error: insertError } = await supabaseAdmin
-      .from("comments")
-      .insert({
+
+    const { data: newComment, error: insertError } =
+      await repositories.comments.create({
         user_id: userId,
         manga_id,
         chapter_hid,
         content: content.trim(),
+        content_parsed: contentParsed,
         parent_id,
-      })
-      .select(`
-        id,
-        user_id,
-        manga_id,
-        chapter_hid,
-        content,
-        parent_id,
-        created_at,
-        updated_at
-      `)
-      .single();
+        root_id: parentComment ? parentComment.root_id || parentComment.id : null,
+        depth: parentComment ? (parentComment.depth || 0) + 1 : 0,
+      });
 
-    if (insertError) {
+    if (insertError || !newComment) {
       logger.error("Comment insert error:", insertError);
       return next(new AppError("Failed to add comment", 500));
     }
-    const { data: userProfile, error: profileError } = await supabaseAdmin
-      .from("profiles")
-      .select("username, avatar_url")
-      .eq("id", userId)
-      .single();
+    const { data: userProfile, error: profileError } =
+      await repositories.profiles.findById(userId);
 
     if (profileError) {
       logger.error("User profile fetch error:", profileError);
     }
+    await notifyCommentActivity(
+      newComment,
+      userProfile?.username || "Someone",
+      parentComment
+    );
+
     const transformedComment: Comment = {
-      id: newComment.id,
-      user_id: newComment.user_id,
-      manga_id: newComment.manga_id,
-      chapter_hid: newComment.chapter_hid,
-      content: newComment.content,
-      parent_id: newComment.parent_id,
-      created_at: newComment.created_at,
-      updated_at: newComment.updated_at,
-      username: userProfile?.username || "Anonymous",
-      avatar_url: userProfile?.avatar_url || null,
+      ...toComment(newComment, userProfile),
       replies: [],
     };
+    publish(
+      chapterChannel(manga_id, chapter_hid),
+      "comment.created",
+      transformedComment
+    );
 
     res.status(201).json({
       success: true,
@@ -195,6 +439,274 @@ export const addComment = async (
   }
 };
 
+// @desc    Edit a comment
+// @route   PATCH /api/comments/:id
+// @access  Private
+export const editComment = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()));
+    }
+    const { id } = req.params;
+    const userId = req.user.id;
+    const content: string = req.body.content.trim();
+
+    const { data: comment, error: fetchError } =
+      await repositories.comments.findById(id);
+
+    if (fetchError || !comment) {
+      return next(new AppError("Comment not found", 404));
+    }
+
+    if (comment.user_id !== userId) {
+      return next(new AppError("Not authorized to edit this comment", 403));
+    }
+
+    if (comment.deleted_at) {
+      return next(new AppError("Cannot edit a deleted comment", 400));
+    }
+
+    if (comment.hidden_at) {
+      return next(new AppError("Comment is hidden pending moderation", 400));
+    }
+
+    let updatedComment = comment;
+    if (content !== comment.content) {
+      const contentParsed = parseCommentMarkup(content);
+      const blockReason = await commentBlockReason(userId, contentParsed);
+      if (blockReason) {
+        return next(new AppError(blockReason, 403));
+      }
+
+      // Keep the text being replaced so moderators can review the history
+      const { error: revisionError } =
+        await repositories.commentRevisions.create({
+          comment_id: comment.id,
+          content: comment.content,
+          edited_by: userId,
+        });
+
+      if (revisionError) {
+        logger.error("Comment revision insert error:", revisionError);
+        return next(new AppError("Failed to edit comment", 500));
+      }
+
+      const { data, error: updateError } = await repositories.comments.update(
+        id,
+        {
+          content,
+          content_parsed: contentParsed,
+          edited_at: new Date().toISOString(),
+        }
+      );
+
+      if (updateError || !data) {
+        logger.error("Comment update error:", updateError);
+        return next(new AppError("Failed to edit comment", 500));
+      }
+      updatedComment = data;
+    }
+
+    const { data: userProfile } = await repositories.profiles.findById(userId);
+
+    if (updatedComment !== comment) {
+      await notifyCommentActivity(
+        updatedComment,
+        userProfile?.username || "Someone",
+        null,
+        comment.content
+      );
+    }
+
+    const editedComment = toComment(updatedComment, userProfile);
+    if (updatedComment !== comment) {
+      publish(
+        chapterChannel(comment.manga_id, comment.chapter_hid),
+        "comment.updated",
+        editedComment
+      );
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Comment updated successfully",
+      comment: editedComment,
+    });
+  } catch (error: any) {
+    logger.error("Edit comment error:", error);
+    next(new AppError(error.message || "Failed to edit comment", 500));
+  }
+};
+
+// @desc    Get the edit history of a comment
+// @route   GET /api/comments/:id/revisions
+// @access  Moderator
+export const getCommentRevisions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()));
+    }
+    const { id } = req.params;
+
+    const { data: comment, error: fetchError } =
+      await repositories.comments.findById(id);
+
+    if (fetchError || !comment) {
+      return next(new AppError("Comment not found", 404));
+    }
+
+    const { data: revisions, error } =
+      await repositories.commentRevisions.listByComment(id);
+
+    if (error) {
+      logger.error("Comment revisions fetch error:", error);
+      return next(new AppError("Failed to fetch comment history", 500));
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        current: comment,
+        revisions: revisions || [],
+      },
+    });
+  } catch (error: any) {
+    logger.error("Get comment revisions error:", error);
+    next(new AppError(error.message || "Failed to fetch comment history", 500));
+  }
+};
+
+// @desc    React to a comment, replacing any earlier reaction
+// @route   POST /api/comments/:id/reactions
+// @access  Private
+export const addReaction = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()));
+    }
+    const { id } = req.params;
+    const userId = req.user.id;
+    const reaction: ReactionType = req.body.reaction;
+
+    const { data: comment, error: fetchError } =
+      await repositories.comments.findById(id);
+
+    if (fetchError || !comment) {
+      return next(new AppError("Comment not found", 404));
+    }
+
+    if (comment.deleted_at) {
+      return next(new AppError("Cannot react to a deleted comment", 400));
+    }
+
+    const { error: upsertError } = await repositories.commentReactions.upsert({
+      comment_id: id,
+      user_id: userId,
+      reaction,
+    });
+
+    if (upsertError) {
+      logger.error("Reaction upsert error:", upsertError);
+      return next(new AppError("Failed to add reaction", 500));
+    }
+
+    // The database moved the comment's score along with the reaction
+    const { data: updated, error: refetchError } =
+      await repositories.comments.findById(id);
+
+    if (refetchError || !updated) {
+      logger.error("Reacted comment fetch error:", refetchError);
+      return next(new AppError("Failed to add reaction", 500));
+    }
+
+    const reactionsOf = await loadReactions([id], userId);
+
+    res.status(200).json({
+      success: true,
+      message: "Reaction saved",
+      data: {
+        comment_id: id,
+        ...reactionsOf(updated),
+      },
+    });
+  } catch (error: any) {
+    logger.error("Add reaction error:", error);
+    next(new AppError(error.message || "Failed to add reaction", 500));
+  }
+};
+
+// @desc    Remove the caller's reaction from a comment
+// @route   DELETE /api/comments/:id/reactions
+// @access  Private
+export const removeReaction = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()));
+    }
+    const { id } = req.params;
+    const userId = req.user.id;
+
+    const { data: comment, error: fetchError } =
+      await repositories.comments.findById(id);
+
+    if (fetchError || !comment) {
+      return next(new AppError("Comment not found", 404));
+    }
+
+    const { error: deleteError } = await repositories.commentReactions.remove(
+      id,
+      userId
+    );
+
+    if (deleteError) {
+      logger.error("Reaction delete error:", deleteError);
+      return next(new AppError("Failed to remove reaction", 500));
+    }
+
+    const { data: updated, error: refetchError } =
+      await repositories.comments.findById(id);
+
+    if (refetchError || !updated) {
+      logger.error("Reacted comment fetch error:", refetchError);
+      return next(new AppError("Failed to remove reaction", 500));
+    }
+
+    const reactionsOf = await loadReactions([id], userId);
+
+    res.status(200).json({
+      success: true,
+      message: "Reaction removed",
+      data: {
+        comment_id: id,
+        ...reactionsOf(updated),
+      },
+    });
+  } catch (error: any) {
+    logger.error("Remove reaction error:", error);
+    next(new AppError(error.message || "Failed to remove reaction", 500));
+  }
+};
+
 // @desc    Delete a comment
 // @route   DELETE /api/comments/:id
 // @access  Private
@@ -210,11 +722,8 @@ export const deleteComment = async (
     }
     const { id } = req.params;
     const userId = req.user.id;
-    const { data: comment, error: fetchError } = await supabaseAdmin
-      .from("comments")
-      .select("user_id")
-      .eq("id", id)
-      .single();
+    const { data: comment, error: fetchError } =
+      await repositories.comments.findById(id);
 
     if (fetchError || !comment) {
       return next(new AppError("Comment not found", 404));
@@ -223,22 +732,83 @@ export const deleteComment = async (
     if (comment.user_id !== userId) {
       return next(new AppError("Not authorized to delete this comment", 403));
     }
-    const { error: deleteError } = await supabaseAdmin
-      .from("comments")
-      .delete()
-      .eq("id", id);
 
-    if (deleteError) {
-      logger.error("Comment delete error:", deleteError);
-      return next(new AppError("Failed to delete comment", 500));
+    if (comment.deleted_at) {
+      return next(new AppError("Comment not found", 404));
     }
 
+    const result = await softDeleteComment(comment, userId);
+
     res.status(200).json({
       success: true,
       message: "Comment deleted successfully",
+      data: {
+        tombstoned: result === "tombstoned",
+      },
     });
   } catch (error: any) {
     logger.error("Delete comment error:", error);
     next(new AppError(error.message || "Failed to delete comment", 500));
   }
 };
+
+// @desc    Restore a deleted comment that was kept as a tombstone
+// @route   POST /api/comments/:id/restore
+// @access  Moderator
+export const restoreComment = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()));
+    }
+    const { id } = req.params;
+
+    const { data: comment, error: fetchError } =
+      await repositories.comments.findById(id);
+
+    if (fetchError || !comment) {
+      return next(new AppError("Comment not found", 404));
+    }
+
+    if (!comment.deleted_at) {
+      return next(new AppError("Comment is not deleted", 400));
+    }
+
+    const { data: restored, error: updateError } =
+      await repositories.comments.update(id, {
+        deleted_at: null,
+        deleted_by: null,
+      });
+
+    if (updateError || !restored) {
+      logger.error("Comment restore error:", updateError);
+      return next(new AppError("Failed to restore comment", 500));
+    }
+
+    logger.info(`Comment ${id} restored by moderator ${req.user.id}`);
+
+    const { data: authorProfile } = await repositories.profiles.findById(
+      restored.user_id
+    );
+
+    const restoredComment = toComment(restored, authorProfile);
+    publish(
+      chapterChannel(restored.manga_id, restored.chapter_hid),
+      "comment.updated",
+      restoredComment
+    );
+
+    res.status(200).json({
+      success: true,
+      message: "Comment restored successfully",
+      comment: restoredComment,
+    });
+  } catch (error: any) {
+    logger.error("Restore comment error:", error);
+    next(new AppError(error.message || "Failed to restore comment", 500));
+  }
+};
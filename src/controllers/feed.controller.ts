@@ -0,0 +1,171 @@
+import type { Request, Response, NextFunction } from "express"
+import { validationResult } from "express-validator"
+import { repositories, type DataResult } from "../repositories"
+import type { UserProfile } from "../types"
+import type { Bookmark, StatusTransition } from "../types/bookmark.types"
+import type { CommentRecord } from "../types/comment.types"
+import type { Activity } from "../types/social.types"
+import { AppError } from "../utils/appError"
+import { hiddenAuthorIds } from "../utils/blocks"
+import { decodeCursor, encodeCursor } from "../utils/cursor"
+import logger from "../utils/logger"
+import { libraryVisibilityOf } from "../utils/privacy"
+
+// Position in the feed: items at or before `before`, minus the ones already
+// returned that share that exact timestamp
+interface FeedCursor {
+  before: string
+  seen: string[]
+}
+
+const NO_ROWS = Promise.resolve({ data: [], error: null })
+
+const actorOf = (profiles: Map<string, UserProfile>, userId: string): Activity["actor"] => {
+  const profile = profiles.get(userId)
+  return { id: userId, username: profile?.username ?? null, avatar_url: profile?.avatar_url ?? null }
+}
+
+const mangaOf = (source: Pick<Bookmark, "manga_id" | "manga_title" | "manga_slug">): Activity["manga"] => ({
+  manga_id: source.manga_id,
+  manga_title: source.manga_title ?? null,
+  manga_slug: source.manga_slug ?? null,
+})
+
+const toActivities = (
+  profiles: Map<string, UserProfile>,
+  added: Bookmark[],
+  transitions: StatusTransition[],
+  reviewed: Bookmark[],
+  comments: CommentRecord[]
+): Activity[] => [
+  ...added.map((bookmark): Activity => ({
+    id: `bookmark_added:${bookmark.id}`,
+    type: "bookmark_added",
+    actor: actorOf(profiles, bookmark.user_id),
+    manga: mangaOf(bookmark),
+    created_at: bookmark.created_at,
+  })),
+  ...transitions.map((transition): Activity => ({
+    id: `${transition.to_status === "completed" ? "completed" : "status_changed"}:${transition.id}`,
+    type: transition.to_status === "completed" ? "completed" : "status_changed",
+    actor: actorOf(profiles, transition.user_id),
+    manga: mangaOf(transition),
+    created_at: transition.created_at,
+    from_status: transition.from_status,
+    to_status: transition.to_status,
+  })),
+  ...reviewed.map((bookmark): Activity => ({
+    id: `reviewed:${bookmark.id}`,
+    type: "reviewed",
+    actor: actorOf(profiles, bookmark.user_id),
+    manga: mangaOf(bookmark),
+    created_at: bookmark.reviewed_at as string,
+    score: bookmark.score ?? null,
+    review: bookmark.review as string,
+  })),
+  ...comments.map((comment): Activity => ({
+    id: `commented:${comment.id}`,
+    type: "commented",
+    actor: actorOf(profiles, comment.user_id),
+    manga: { manga_id: comment.manga_id, manga_title: null, manga_slug: null },
+    created_at: comment.created_at,
+    comment: { id: comment.id, chapter_hid: comment.chapter_hid, content: comment.content },
+  })),
+]
+
+// @desc    Recent activity of the users the caller follows, newest first
+// @route   GET /api/feed
+// @access  Private
+export const getFeed = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()))
+    }
+
+    const limit = parseInt((req.query.limit as string) || "20")
+    const cursor = req.query.cursor ? decodeCursor<FeedCursor>(req.query.cursor as string) : null
+    if (req.query.cursor && (!cursor?.before || !Array.isArray(cursor.seen))) {
+      return next(new AppError("Invalid cursor", 400))
+    }
+
+    const { data: followed, error: followError } = await repositories.follows.listFollowingIds(req.user.id)
+    if (followError) {
+      logger.error("Feed follows fetch error:", followError)
+      return next(new AppError("Failed to fetch feed", 500))
+    }
+
+    // Muted users stay followed but drop out of the feed
+    const hidden = await hiddenAuthorIds(req.user.id)
+    const followingIds = (followed || []).filter((id) => !hidden.includes(id))
+
+    if (followingIds.length === 0) {
+      res.status(200).json({
+        success: true,
+        data: [],
+        pagination: { limit, has_more: false, next_cursor: null },
+      })
+      return
+    }
+
+    const { data: profiles, error: profileError } = await repositories.profiles.findManyByIds(followingIds)
+    if (profileError) {
+      logger.error("Feed profiles fetch error:", profileError)
+      return next(new AppError("Failed to fetch feed", 500))
+    }
+
+    // The caller follows everyone here, so only private libraries are left out
+    const profileMap = new Map((profiles || []).map((profile) => [profile.id, profile]))
+    const libraryIds = followingIds.filter((id) => {
+      const profile = profileMap.get(id)
+      return profile && libraryVisibilityOf(profile) !== "private"
+    })
+
+    // Every source returns enough rows to fill a page after skipping those already
+    // seen, plus one extra row to tell whether another page exists
+    const window = { before: cursor?.before, limit: limit + 1 + (cursor?.seen.length || 0) }
+    const results: DataResult<any[]>[] = await Promise.all([
+      libraryIds.length ? repositories.bookmarks.listAddedByUsers(libraryIds, window) : NO_ROWS,
+      libraryIds.length ? repositories.statusTransitions.listByUsers(libraryIds, window) : NO_ROWS,
+      repositories.bookmarks.listReviewedByUsers(followingIds, window),
+      repositories.comments.listRecentByUsers(followingIds, window),
+    ])
+
+    const failed = results.find((result) => result.error)
+    if (failed) {
+      logger.error("Feed fetch error:", failed.error)
+      return next(new AppError("Failed to fetch feed", 500))
+    }
+
+    const [added, transitions, reviewed, comments] = results.map((result) => result.data || [])
+    const seen = new Set(cursor?.seen || [])
+    const activities = toActivities(profileMap, added, transitions, reviewed, comments)
+      .filter((activity) => !seen.has(activity.id))
+      .sort((a, b) => b.created_at.localeCompare(a.created_at) || a.id.localeCompare(b.id))
+    const page = activities.slice(0, limit)
+    const hasMore = activities.length > limit
+
+    const last = page[page.length - 1]
+    const nextCursor = hasMore
+      ? encodeCursor({
+          before: last.created_at,
+          seen: [
+            ...(last.created_at === cursor?.before ? cursor.seen : []),
+            ...page.filter((activity) => activity.created_at === last.created_at).map((activity) => activity.id),
+          ],
+        })
+      : null
+
+    res.status(200).json({
+      success: true,
+      data: page,
+      pagination: {
+        limit,
+        has_more: hasMore,
+        next_cursor: nextCursor,
+      },
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || "Failed to fetch feed", 500))
+  }
+}
@@ -0,0 +1,175 @@
+import type { Request, Response, NextFunction } from "express"
+import { validationResult } from "express-validator"
+import { repositories, NOT_FOUND_CODE, UNIQUE_VIOLATION_CODE } from "../repositories"
+import type { Follow, FollowEntry } from "../types/social.types"
+import { AppError } from "../utils/appError"
+import { usersShunning } from "../utils/blocks"
+import logger from "../utils/logger"
+
+// Joins follow rows with the profiles on the other side of each follow
+const toEntries = async (follows: Follow[], side: "follower_id" | "following_id"): Promise<FollowEntry[] | null> => {
+  const { data: profiles, error } = await repositories.profiles.findManyByIds(follows.map((follow) => follow[side]))
+  if (error) {
+    logger.error("Follow profiles fetch error:", error)
+    return null
+  }
+
+  const profileMap = new Map((profiles || []).map((profile) => [profile.id, profile]))
+  return follows.map((follow) => {
+    const profile = profileMap.get(follow[side])
+    return {
+      id: follow[side],
+      username: profile?.username ?? null,
+      avatar_url: profile?.avatar_url ?? null,
+      followed_at: follow.created_at,
+    }
+  })
+}
+
+const listFollows = (direction: "followers" | "following") => async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()))
+    }
+
+    const { id } = req.params
+    const { page = "1", limit = "20" } = req.query as Record<string, string | undefined>
+    const pageNum = parseInt(page as string)
+    const limitNum = parseInt(limit as string)
+
+    const { error: profileError } = await repositories.profiles.findById(id)
+    if (profileError) {
+      return profileError.code === NOT_FOUND_CODE
+        ? next(new AppError("User not found", 404))
+        : next(new AppError("Error fetching profile", 500))
+    }
+
+    const options = { offset: (pageNum - 1) * limitNum, limit: limitNum }
+    const { data, error, count } =
+      direction === "followers"
+        ? await repositories.follows.listFollowers(id, options)
+        : await repositories.follows.listFollowing(id, options)
+
+    if (error) {
+      logger.error("Follows fetch error:", error)
+      return next(new AppError(`Failed to fetch ${direction}`, 500))
+    }
+
+    const entries = await toEntries(data || [], direction === "followers" ? "follower_id" : "following_id")
+    if (!entries) {
+      return next(new AppError(`Failed to fetch ${direction}`, 500))
+    }
+
+    res.status(200).json({
+      success: true,
+      data: entries,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total: count || 0,
+        pages: Math.ceil((count || 0) / limitNum),
+      },
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || `Failed to fetch ${direction}`, 500))
+  }
+}
+
+// @desc    Follow a user
+// @route   POST /api/users/:id/follow
+// @access  Private
+export const followUser = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()))
+    }
+
+    const { id } = req.params
+    if (id === req.user.id) {
+      return next(new AppError("You cannot follow yourself", 400))
+    }
+
+    const { error: profileError } = await repositories.profiles.findById(id)
+    if (profileError) {
+      return profileError.code === NOT_FOUND_CODE
+        ? next(new AppError("User not found", 404))
+        : next(new AppError("Error fetching profile", 500))
+    }
+
+    // A block by either side rules out following
+    const [blockedByTarget, blockedTarget] = await Promise.all([
+      usersShunning(req.user.id, [id]),
+      usersShunning(id, [req.user.id]),
+    ])
+    if (blockedByTarget.size > 0 || blockedTarget.size > 0) {
+      return next(new AppError("You cannot follow this user", 403))
+    }
+
+    const { data, error } = await repositories.follows.create(req.user.id, id)
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION_CODE) {
+        return next(new AppError("You already follow this user", 409))
+      }
+      logger.error("Follow error:", error)
+      return next(new AppError("Failed to follow user", 500))
+    }
+
+    res.status(201).json({
+      success: true,
+      message: "User followed",
+      data,
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || "Failed to follow user", 500))
+  }
+}
+
+// @desc    Unfollow a user
+// @route   DELETE /api/users/:id/follow
+// @access  Private
+export const unfollowUser = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()))
+    }
+
+    const { id } = req.params
+    const { data: following, error: lookupError } = await repositories.follows.exists(req.user.id, id)
+
+    if (lookupError) {
+      logger.error("Follow lookup error:", lookupError)
+      return next(new AppError("Failed to unfollow user", 500))
+    }
+    if (!following) {
+      return next(new AppError("You do not follow this user", 404))
+    }
+
+    const { error } = await repositories.follows.remove(req.user.id, id)
+
+    if (error) {
+      logger.error("Unfollow error:", error)
+      return next(new AppError("Failed to unfollow user", 500))
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "User unfollowed",
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || "Failed to unfollow user", 500))
+  }
+}
+
+// @desc    List a user's followers, newest first
+// @route   GET /api/users/:id/followers
+// @access  Public
+export const getFollowers = listFollows("followers")
+
+// @desc    List the users a user follows, newest first
+// @route   GET /api/users/:id/following
+// @access  Public
+export const getFollowing = listFollows("following")
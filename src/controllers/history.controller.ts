@@ -0,0 +1,112 @@
+import type { Request, Response, NextFunction } from "express"
+import { validationResult } from "express-validator"
+import { repositories } from "../repositories"
+import { AppError } from "../utils/appError"
+import logger from "../utils/logger"
+
+// A date-only upper bound (YYYY-MM-DD) includes the whole day
+const endOfRange = (to: string): string =>
+  /^\d{4}-\d{2}-\d{2}$/.test(to) ? `${to}T23:59:59.999Z` : new Date(to).toISOString()
+
+// @desc    Get the user's reading history, newest first
+// @route   GET /api/history
+// @route   GET /api/history/manga/:manga_id
+// @access  Private
+export const getHistory = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()))
+    }
+
+    const { page = "1", limit = "20", from, to } = req.query as Record<string, string | undefined>
+    const pageNum = parseInt(page as string)
+    const limitNum = parseInt(limit as string)
+
+    const { data, error, count } = await repositories.readingHistory.list(req.user.id, {
+      offset: (pageNum - 1) * limitNum,
+      limit: limitNum,
+      mangaId: req.params.manga_id,
+      from: from && new Date(from).toISOString(),
+      to: to && endOfRange(to),
+    })
+
+    if (error) {
+      logger.error("Reading history fetch error:", error)
+      return next(new AppError("Failed to fetch reading history", 500))
+    }
+
+    res.status(200).json({
+      success: true,
+      data: data || [],
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total: count || 0,
+        pages: Math.ceil((count || 0) / limitNum),
+      },
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || "Failed to fetch reading history", 500))
+  }
+}
+
+// @desc    Delete a single history entry
+// @route   DELETE /api/history/:id
+// @access  Private
+export const deleteHistoryEntry = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()))
+    }
+
+    const { data: entry, error: fetchError } = await repositories.readingHistory.findById(req.user.id, req.params.id)
+    if (fetchError || !entry) {
+      return next(new AppError("History entry not found", 404))
+    }
+
+    const { error } = await repositories.readingHistory.remove(req.user.id, entry.id)
+    if (error) {
+      logger.error("Reading history delete error:", error)
+      return next(new AppError("Failed to delete history entry", 500))
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "History entry deleted",
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || "Failed to delete history entry", 500))
+  }
+}
+
+// @desc    Clear the user's reading history, or one manga's with ?manga_id=
+// @route   DELETE /api/history
+// @access  Private
+export const clearHistory = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()))
+    }
+
+    const mangaId = req.query.manga_id as string | undefined
+    const { data: removed, error } = await repositories.readingHistory.clear(req.user.id, mangaId)
+
+    if (error) {
+      logger.error("Reading history clear error:", error)
+      return next(new AppError("Failed to clear reading history", 500))
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Reading history cleared",
+      data: {
+        removed: removed || 0,
+      },
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || "Failed to clear reading history", 500))
+  }
+}
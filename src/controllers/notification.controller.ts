@@ -0,0 +1,156 @@
+import type { Request, Response, NextFunction } from "express"
+import { validationResult } from "express-validator"
+import { repositories } from "../repositories"
+import { AppError } from "../utils/appError"
+import logger from "../utils/logger"
+import { notificationPreferencesOf } from "../utils/notifications"
+import { CONFIGURABLE_NOTIFICATION_TYPES, type NotificationPreferences } from "../types/notification.types"
+
+// @desc    Get the user's notifications, newest first
+// @route   GET /api/notifications
+// @access  Private
+export const getNotifications = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()))
+    }
+
+    const { page = "1", limit = "20", unread } = req.query
+    const pageNum = parseInt(page as string)
+    const limitNum = parseInt(limit as string)
+
+    const [{ data, error, count }, { data: unreadCount, error: unreadError }] = await Promise.all([
+      repositories.notifications.list(req.user.id, {
+        offset: (pageNum - 1) * limitNum,
+        limit: limitNum,
+        unreadOnly: unread === "true",
+      }),
+      repositories.notifications.countUnread(req.user.id),
+    ])
+
+    if (error || unreadError) {
+      logger.error("Notifications fetch error:", error || unreadError)
+      return next(new AppError("Failed to fetch notifications", 500))
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        notifications: data || [],
+        unread_count: unreadCount || 0,
+      },
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total: count || 0,
+        pages: Math.ceil((count || 0) / limitNum),
+      },
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || "Failed to fetch notifications", 500))
+  }
+}
+
+// @desc    Mark a notification as read
+// @route   POST /api/notifications/:id/read
+// @access  Private
+export const markNotificationRead = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()))
+    }
+
+    const { data, error } = await repositories.notifications.markRead(req.user.id, req.params.id)
+    if (error || !data) {
+      return next(new AppError("Notification not found", 404))
+    }
+
+    res.status(200).json({
+      success: true,
+      data,
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || "Failed to update notification", 500))
+  }
+}
+
+// @desc    Mark all of the user's notifications as read
+// @route   POST /api/notifications/read-all
+// @access  Private
+export const markAllNotificationsRead = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { error } = await repositories.notifications.markAllRead(req.user.id)
+    if (error) {
+      logger.error("Mark all notifications read error:", error)
+      return next(new AppError("Failed to update notifications", 500))
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "All notifications marked as read",
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || "Failed to update notifications", 500))
+  }
+}
+
+// @desc    Get the user's notification preferences
+// @route   GET /api/notifications/preferences
+// @access  Private
+export const getNotificationPreferences = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { data: profile } = await repositories.profiles.findById(req.user.id)
+
+    res.status(200).json({
+      success: true,
+      data: notificationPreferencesOf(profile),
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || "Failed to fetch notification preferences", 500))
+  }
+}
+
+// @desc    Update the user's notification preferences
+// @route   PUT /api/notifications/preferences
+// @access  Private
+export const updateNotificationPreferences = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()))
+    }
+
+    const { data: profile, error: fetchError } = await repositories.profiles.findById(req.user.id)
+    if (fetchError || !profile) {
+      return next(new AppError("Profile not found", 404))
+    }
+
+    const changes: Partial<NotificationPreferences> = {}
+    CONFIGURABLE_NOTIFICATION_TYPES.forEach((type) => {
+      if (typeof req.body[type] === "boolean") {
+        changes[type] = req.body[type]
+      }
+    })
+
+    const preferences = { ...notificationPreferencesOf(profile), ...changes }
+    const { error } = await repositories.profiles.update(req.user.id, {
+      notification_preferences: preferences,
+      updated_at: new Date().toISOString(),
+    })
+
+    if (error) {
+      logger.error("Notification preferences update error:", error)
+      return next(new AppError("Failed to update notification preferences", 500))
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Notification preferences updated",
+      data: preferences,
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || "Failed to update notification preferences", 500))
+  }
+}
@@ -1,26 +1,37 @@
 import type { Request, Response, NextFunction } from "express";
 import { validationResult } from "express-validator";
 import multer from "multer";
-import { supabase, supabaseAdmin } from "../utils/supabase";
+import config from "../config";
+import { repositories, NOT_FOUND_CODE } from "../repositories";
+import type { AvatarUrls, UserProfile } from "../types";
 import { AppError } from "../utils/appError";
+import { detectImageFormat, renderAvatars, type AvatarRendition } from "../utils/avatars";
 import logger from "../utils/logger";
+import { claimUsername } from "../utils/usernames";
 
 // Configure multer for memory storage
 const upload = multer({
   storage: multer.memoryStorage(),
   limits: {
-    fileSize: 5 * 1024 * 1024, // 5MB limit
+    fileSize: config.avatars.maxFileSizeBytes,
   },
   fileFilter: (req, file, cb) => {
-    // Accept only image files
+    // A first pass on the client's mimetype; the bytes are checked after upload
     if (file.mimetype.startsWith("image/")) {
       cb(null, true);
     } else {
-      cb(new Error("Only image files are allowed"));
+      cb(new AppError("Only image files are allowed", 400));
     }
   },
 });
 
+// Storage paths of the avatar files a profile points to
+const avatarPaths = (userId: string, profile: UserProfile): string[] => {
+  const urls = [profile.avatar_url, ...Object.values(profile.avatar_urls || {})];
+  const fileNames = urls.filter((url): url is string => !!url).map((url) => url.split("/").pop());
+  return [...new Set(fileNames)].map((fileName) => `${userId}/${fileName}`);
+};
+
 export const uploadProfileImage = async (
   req: Request,
   res: Response,
@@ -34,52 +45,63 @@ export const uploadProfileImage = async (
       return next(new AppError("No file uploaded", 400));
     }
 
-    // Generate unique filename
-    const fileExtension = file.originalname.split(".").pop();
-    const fileName = `${userId}/profile-${Date.now()}.${fileExtension}`;
+    if (!detectImageFormat(file.buffer)) {
+      return next(new AppError("Only JPEG, PNG, GIF and WebP images are allowed", 400));
+    }
 
-    // Upload to Supabase Storage
-    const { data: uploadData, error: uploadError } = await supabaseAdmin.storage
-      .from("profile-images")
-      .upload(fileName, file.buffer, {
-        contentType: file.mimetype,
-        upsert: true,
-      });
+    // Re-encoding drops whatever else the file carried, EXIF included
+    let renditions: AvatarRendition[];
+    try {
+      renditions = await renderAvatars(file.buffer);
+    } catch (processError) {
+      logger.error("Avatar processing error:", processError);
+      return next(new AppError("Image could not be processed", 400));
+    }
+
+    // New file names on every upload, so cached copies of the old avatar aren't served
+    const stamp = Date.now();
+    const fileNames = renditions.map(({ size }) => `${userId}/avatar-${stamp}-${size}.webp`);
+
+    const uploads = await Promise.all(
+      renditions.map(({ body }, i) =>
+        repositories.storage.upload("profile-images", fileNames[i], body, "image/webp")
+      )
+    );
 
-    if (uploadError) {
-      logger.error("Storage upload error:", uploadError);
+    const failedUpload = uploads.find((upload) => upload.error);
+    if (failedUpload) {
+      logger.error("Storage upload error:", failedUpload.error);
+      await repositories.storage.remove("profile-images", fileNames);
       return next(new AppError("Failed to upload image", 500));
     }
 
-    // Get public URL
-    const { data: urlData } = supabaseAdmin.storage
-      .from("profile-images")
-      .getPublicUrl(fileName);
+    const avatarUrls: AvatarUrls = Object.fromEntries(
+      renditions.map(({ size }, i) => [
+        String(size),
+        repositories.storage.getPublicUrl("profile-images", fileNames[i]),
+      ])
+    );
+    const publicUrl = avatarUrls[String(Math.max(...config.avatars.sizes))];
 
-    // Check if profile exists first using admin client
-    const { data: existingProfile, error: checkError } = await supabaseAdmin
-      .from("profiles")
-      .select("id")
-      .eq("id", userId)
-      .single();
+    // Check if profile exists first
+    const { data: existingProfile, error: checkError } =
+      await repositories.profiles.findById(userId);
 
     let profileData;
     let profileError;
 
-    if (checkError && checkError.code === "PGRST116") {
-      // Profile doesn't exist, create it with the image using admin client
+    if (checkError && checkError.code === NOT_FOUND_CODE) {
+      // Profile doesn't exist, create it with the image
       logger.info(`Creating new profile for user ${userId} with image`);
       
-      const { data: newProfile, error: createError } = await supabaseAdmin
-        .from("profiles")
-        .insert({
+      const { data: newProfile, error: createError } =
+        await repositories.profiles.create({
           id: userId,
           username: req.user.username || req.user.email,
           email: req.user.email,
-          avatar_url: urlData.publicUrl,
-        })
-        .select()
-        .single();
+          avatar_url: publicUrl,
+          avatar_urls: avatarUrls,
+        });
 
       if (createError) {
         logger.error("Profile creation error:", createError);
@@ -91,16 +113,13 @@ export const uploadProfileImage = async (
       logger.error("Profile check error:", checkError);
       return next(new AppError("Failed to check profile", 500));
     } else {
-      // Profile exists, update it with the new image using admin client
-      const { data: updatedProfile, error: updateError } = await supabaseAdmin
-        .from("profiles")
-        .update({
-          avatar_url: urlData.publicUrl,
-          updated_at: new Date(),
-        })
-        .eq("id", userId)
-        .select()
-        .single();
+      // Profile exists, update it with the new image
+      const { data: updatedProfile, error: updateError } =
+        await repositories.profiles.update(userId, {
+          avatar_url: publicUrl,
+          avatar_urls: avatarUrls,
+          updated_at: new Date().toISOString(),
+        });
 
       if (updateError) {
         logger.error("Profile update error:", updateError);
@@ -108,13 +127,28 @@ export const uploadProfileImage = async (
       }
 
       profileData = updatedProfile;
+
+      // The previous avatar is no longer referenced
+      const stalePaths = avatarPaths(userId, existingProfile!).filter(
+        (path) => !fileNames.includes(path)
+      );
+      if (stalePaths.length > 0) {
+        const { error: removeError } = await repositories.storage.remove(
+          "profile-images",
+          stalePaths
+        );
+        if (removeError) {
+          logger.error("Old avatar removal error:", removeError);
+        }
+      }
     }
 
     res.status(200).json({
       success: true,
       message: "Profile image uploaded successfully",
       data: {
-        avatar_url: urlData.publicUrl,
+        avatar_url: publicUrl,
+        avatar_urls: avatarUrls,
         profile: profileData,
       },
     });
@@ -135,32 +169,32 @@ export const updateProfile = async (
     }
 
     const userId = req.user.id;
-    const { username, bio } = req.body;
+    const { username, bio, library_visibility } = req.body;
+
+    const { error: claimError } = await claimUsername(userId, username);
+    if (claimError) {
+      return next(claimError);
+    }
 
-    // First check if profile exists using admin client
-    const { data: existingProfile, error: checkError } = await supabaseAdmin
-      .from("profiles")
-      .select("id")
-      .eq("id", userId)
-      .single();
+    // First check if profile exists
+    const { data: existingProfile, error: checkError } =
+      await repositories.profiles.findById(userId);
 
     let data;
     let error;
 
-    if (checkError && checkError.code === "PGRST116") {
-      // Profile doesn't exist, create it using admin client
+    if (checkError && checkError.code === NOT_FOUND_CODE) {
+      // Profile doesn't exist, create it
       logger.info(`Creating new profile for user ${userId}`);
       
-      const { data: newProfile, error: createError } = await supabaseAdmin
-        .from("profiles")
-        .insert({
+      const { data: newProfile, error: createError } =
+        await repositories.profiles.create({
           id: userId,
           username,
           email: req.user.email,
           bio,
-        })
-        .select()
-        .single();
+          library_visibility,
+        });
 
       if (createError) {
         logger.error("Profile creation error:", createError);
@@ -172,17 +206,14 @@ export const updateProfile = async (
       logger.error("Profile check error:", checkError);
       return next(new AppError("Error checking profile", 500));
     } else {
-      // Profile exists, update it using admin client
-      const { data: updatedProfile, error: updateError } = await supabaseAdmin
-        .from("profiles")
-        .update({
+      // Profile exists, update it
+      const { data: updatedProfile, error: updateError } =
+        await repositories.profiles.update(userId, {
           username,
           bio,
-          updated_at: new Date(),
-        })
-        .eq("id", userId)
-        .select()
-        .single();
+          library_visibility,
+          updated_at: new Date().toISOString(),
+        });
 
       if (updateError) {
         logger.error("Profile update error:", updateError);
@@ -212,15 +243,11 @@ export const getProfile = async (
   try {
     const userId = req.user.id;
 
-    // Try to get existing profile using admin client
-    const { data, error } = await supabaseAdmin
-      .from("profiles")
-      .select("*")
-      .eq("id", userId)
-      .single();
+    // Try to get existing profile
+    const { data, error } = await repositories.profiles.findById(userId);
 
     // If profile doesn't exist, return basic user info without profile
-    if (error && error.code === "PGRST116") {
+    if (error && error.code === NOT_FOUND_CODE) {
       logger.info(`No profile found for user ${userId}, returning basic info`);
       
       const basicProfile = {
@@ -229,6 +256,7 @@ export const getProfile = async (
         email: req.user.email,
         bio: null,
         avatar_url: null,
+        avatar_urls: null,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       };
@@ -264,14 +292,11 @@ export const deleteProfileImage = async (
   try {
     const userId = req.user.id;
 
-    // Get current profile to find the image path using admin client
-    const { data: profile, error: profileError } = await supabaseAdmin
-      .from("profiles")
-      .select("avatar_url")
-      .eq("id", userId)
-      .single();
+    // Get current profile to find the image path
+    const { data: profile, error: profileError } =
+      await repositories.profiles.findById(userId);
 
-    if (profileError) {
+    if (profileError || !profile) {
       logger.error("Profile fetch error:", profileError);
       return next(new AppError("Error fetching profile", 500));
     }
@@ -280,31 +305,24 @@ export const deleteProfileImage = async (
       return next(new AppError("No profile image to delete", 400));
     }
 
-    // Extract filename from URL
-    const urlParts = profile.avatar_url.split("/");
-    const fileName = urlParts[urlParts.length - 1];
-    const fullPath = `${userId}/${fileName}`;
-
-    // Delete from storage
-    const { error: deleteError } = await supabaseAdmin.storage
-      .from("profile-images")
-      .remove([fullPath]);
+    // Delete every rendition from storage
+    const { error: deleteError } = await repositories.storage.remove(
+      "profile-images",
+      avatarPaths(userId, profile)
+    );
 
     if (deleteError) {
       logger.error("Storage delete error:", deleteError);
       return next(new AppError("Failed to delete image", 500));
     }
 
-    // Update profile to remove avatar URL using admin client
-    const { data: updatedProfile, error: updateError } = await supabaseAdmin
-      .from("profiles")
-      .update({
+    // Update profile to remove avatar URL
+    const { data: updatedProfile, error: updateError } =
+      await repositories.profiles.update(userId, {
         avatar_url: null,
-        updated_at: new Date(),
-      })
-      .eq("id", userId)
-      .select()
-      .single();
+        avatar_urls: null,
+        updated_at: new Date().toISOString(),
+      });
 
     if (updateError) {
       logger.error("Profile update error:", updateError);
@@ -0,0 +1,269 @@
+import type { Request, Response, NextFunction } from "express"
+import { validationResult } from "express-validator"
+import { repositories, NOT_FOUND_CODE, UNIQUE_VIOLATION_CODE, type DataResult } from "../repositories"
+import { AppError } from "../utils/appError"
+import logger from "../utils/logger"
+import config from "../config"
+import { softDeleteComment, type CommentDeletionResult } from "../utils/commentDeletion"
+import { notifyModeration } from "../utils/notifications"
+import type { CommentReport, ModerationAction, ReportReason } from "../types/comment.types"
+import type { UserProfile } from "../types"
+
+const MODERATION_MESSAGES: Partial<Record<ModerationAction, string>> = {
+  hide: "A moderator hid one of your comments after it was reported",
+  delete: "A moderator removed one of your comments after it was reported",
+  warn: "You received a warning from a moderator for one of your comments",
+}
+
+// @desc    Report a comment
+// @route   POST /api/comments/:id/report
+// @access  Private
+export const reportComment = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()))
+    }
+
+    const { id } = req.params
+    const { reason, details }: { reason: ReportReason; details?: string } = req.body
+
+    const { data: comment, error: fetchError } = await repositories.comments.findById(id)
+    if (fetchError || !comment || comment.deleted_at) {
+      return next(new AppError("Comment not found", 404))
+    }
+
+    if (comment.user_id === req.user.id) {
+      return next(new AppError("You cannot report your own comment", 400))
+    }
+
+    const { data: report, error: reportError } = await repositories.commentReports.create({
+      comment_id: id,
+      reporter_id: req.user.id,
+      reason,
+      details: details?.trim() || null,
+    })
+
+    if (reportError?.code === UNIQUE_VIOLATION_CODE) {
+      return next(new AppError("You have already reported this comment", 409))
+    }
+    if (reportError || !report) {
+      logger.error("Comment report error:", reportError)
+      return next(new AppError("Failed to report comment", 500))
+    }
+
+    if (!comment.hidden_at) {
+      const { data: openReports, error: countError } = await repositories.commentReports.countOpenByComment(id)
+      if (countError) {
+        logger.error("Open report count error:", countError)
+        return next(new AppError("Failed to report comment", 500))
+      }
+
+      if ((openReports || 0) >= config.moderation.reportThreshold) {
+        const { error: hideError } = await repositories.comments.update(id, {
+          hidden_at: new Date().toISOString(),
+          hidden_by: null,
+        })
+        if (hideError) {
+          logger.error("Reported comment hide error:", hideError)
+          return next(new AppError("Failed to hide reported comment", 500))
+        }
+        logger.info(`Comment ${id} hidden after ${openReports} reports`)
+      }
+    }
+
+    res.status(201).json({
+      success: true,
+      message: "Comment reported. Thank you for helping keep discussions clean.",
+      data: {
+        report_id: report.id,
+      },
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || "Failed to report comment", 500))
+  }
+}
+
+// @desc    List reported comments awaiting review, most reported first
+// @route   GET /api/admin/reports
+// @access  Moderator
+export const getReportQueue = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()))
+    }
+
+    const { page = "1", limit = "20" } = req.query
+    const pageNum = parseInt(page as string)
+    const limitNum = parseInt(limit as string)
+
+    const { data: queue, error, count } = await repositories.commentReports.listQueue({
+      offset: (pageNum - 1) * limitNum,
+      limit: limitNum,
+    })
+    if (error) {
+      logger.error("Report queue fetch error:", error)
+      return next(new AppError("Failed to fetch reports", 500))
+    }
+
+    const commentIds = (queue || []).map((entry) => entry.comment_id)
+    const { data: reports, error: reportsError } = commentIds.length
+      ? await repositories.commentReports.listOpenByComments(commentIds)
+      : { data: [], error: null }
+    if (reportsError) {
+      logger.error("Report queue fetch error:", reportsError)
+      return next(new AppError("Failed to fetch reports", 500))
+    }
+
+    const byComment = new Map<string, CommentReport[]>()
+    ;(reports || []).forEach((report) => {
+      if (!byComment.has(report.comment_id)) {
+        byComment.set(report.comment_id, [])
+      }
+      byComment.get(report.comment_id)?.push(report)
+    })
+
+    const { data: comments } = commentIds.length
+      ? await repositories.comments.findManyByIds(commentIds)
+      : { data: [] }
+    const commentMap = new Map((comments || []).map((comment) => [comment.id, comment]))
+
+    const authorIds = [...new Set((comments || []).map((comment) => comment.user_id))]
+    const { data: authors } = authorIds.length
+      ? await repositories.profiles.findManyByIds(authorIds)
+      : { data: [] as UserProfile[] }
+    const authorMap = new Map((authors || []).map((author) => [author.id, author]))
+
+    const items = (queue || []).map((entry) => {
+      const commentReports = byComment.get(entry.comment_id) || []
+      const comment = commentMap.get(entry.comment_id) || null
+      const author = comment ? authorMap.get(comment.user_id) : undefined
+
+      return {
+        comment,
+        author: author ? { id: author.id, username: author.username, warning_count: author.warning_count || 0 } : null,
+        report_count: entry.report_count,
+        reasons: commentReports.reduce<Record<string, number>>((counts, report) => {
+          counts[report.reason] = (counts[report.reason] || 0) + 1
+          return counts
+        }, {}),
+        first_reported_at: entry.first_reported_at,
+        reports: commentReports.map(({ id, reporter_id, reason, details, created_at }) => ({
+          id,
+          reporter_id,
+          reason,
+          details,
+          created_at,
+        })),
+      }
+    })
+
+    res.status(200).json({
+      success: true,
+      data: {
+        items,
+      },
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total: count || 0,
+        pages: Math.ceil((count || 0) / limitNum),
+      },
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || "Failed to fetch reports", 500))
+  }
+}
+
+// @desc    Resolve every open report on a comment with a moderation action
+// @route   POST /api/admin/reports/:commentId/resolve
+// @access  Moderator
+export const resolveReports = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()))
+    }
+
+    const { commentId } = req.params
+    const { action, note }: { action: ModerationAction; note?: string } = req.body
+
+    const { data: comment, error: fetchError } = await repositories.comments.findById(commentId)
+    if (fetchError || !comment) {
+      return next(new AppError("Comment not found", 404))
+    }
+
+    const { data: openReports } = await repositories.commentReports.countOpenByComment(commentId)
+    if (!openReports) {
+      return next(new AppError("No open reports for this comment", 404))
+    }
+
+    // softDeleteComment throws on failure; the other actions report their error here
+    let outcome: DataResult<unknown> = { data: null, error: null }
+    let deletion: CommentDeletionResult | null = null
+    switch (action) {
+      case "dismiss":
+        if (comment.hidden_at) {
+          outcome = await repositories.comments.update(commentId, { hidden_at: null, hidden_by: null })
+        }
+        break
+      case "hide":
+        outcome = await repositories.comments.update(commentId, {
+          hidden_at: new Date().toISOString(),
+          hidden_by: req.user.id,
+        })
+        break
+      case "delete":
+        deletion = await softDeleteComment(comment, req.user.id)
+        break
+      case "warn": {
+        // Authors without a profile yet have no warning count to raise
+        const found = await repositories.profiles.findById(comment.user_id)
+        if (found.data) {
+          outcome = await repositories.profiles.update(found.data.id, {
+            warning_count: (found.data.warning_count || 0) + 1,
+          })
+        } else if (found.error?.code !== NOT_FOUND_CODE) {
+          outcome = found
+        }
+        break
+      }
+    }
+
+    if (outcome.error) {
+      logger.error("Moderation action error:", outcome.error)
+      return next(new AppError("Failed to apply moderation action", 500))
+    }
+
+    // The author only hears about an action that actually happened
+    const message = MODERATION_MESSAGES[action]
+    if (message) {
+      await notifyModeration(comment, message, req.user.id, deletion === "removed")
+    }
+
+    const { data: resolved, error: resolveError } = await repositories.commentReports.resolveOpenByComment(commentId, {
+      action,
+      resolved_by: req.user.id,
+      resolution_note: note?.trim() || null,
+    })
+
+    if (resolveError) {
+      logger.error("Report resolve error:", resolveError)
+      return next(new AppError("Failed to resolve reports", 500))
+    }
+
+    logger.info(`Reports on comment ${commentId} resolved with "${action}" by ${req.user.id}`)
+
+    res.status(200).json({
+      success: true,
+      message: "Reports resolved",
+      data: {
+        action,
+        resolved_count: resolved?.length || 0,
+      },
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || "Failed to resolve reports", 500))
+  }
+}
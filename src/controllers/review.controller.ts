@@ -0,0 +1,78 @@
+import type { Request, Response, NextFunction } from "express"
+import { validationResult } from "express-validator"
+import { repositories } from "../repositories"
+import type { MangaReview } from "../types/review.types"
+import { AppError } from "../utils/appError"
+import logger from "../utils/logger"
+
+// @desc    Get a manga's public reviews and average score
+// @route   GET /api/manga/:manga_id/reviews
+// @access  Public
+export const getMangaReviews = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()))
+    }
+
+    const { manga_id } = req.params
+    const { page = "1", limit = "20" } = req.query as Record<string, string | undefined>
+    const pageNum = parseInt(page as string)
+    const limitNum = parseInt(limit as string)
+
+    const [reviews, summary] = await Promise.all([
+      repositories.bookmarks.listReviews(manga_id, { offset: (pageNum - 1) * limitNum, limit: limitNum }),
+      repositories.bookmarks.scoreSummary(manga_id),
+    ])
+
+    if (reviews.error || summary.error) {
+      logger.error("Reviews fetch error:", reviews.error || summary.error)
+      return next(new AppError("Failed to fetch reviews", 500))
+    }
+
+    const bookmarks = reviews.data || []
+    const { data: profiles, error: profileError } = await repositories.profiles.findManyByIds([
+      ...new Set(bookmarks.map((bookmark) => bookmark.user_id)),
+    ])
+
+    if (profileError) {
+      logger.error("Review authors fetch error:", profileError)
+      return next(new AppError("Failed to fetch reviews", 500))
+    }
+
+    const profileMap = new Map((profiles || []).map((profile) => [profile.id, profile]))
+    const data: MangaReview[] = bookmarks.map((bookmark) => {
+      const author = profileMap.get(bookmark.user_id)
+      return {
+        bookmark_id: bookmark.id,
+        score: bookmark.score ?? null,
+        review: bookmark.review as string,
+        reviewed_at: bookmark.reviewed_at as string,
+        author: {
+          id: bookmark.user_id,
+          username: author?.username ?? null,
+          avatar_url: author?.avatar_url ?? null,
+        },
+      }
+    })
+
+    const total = reviews.count || 0
+
+    res.status(200).json({
+      success: true,
+      data: {
+        average_score: summary.data!.average === null ? null : Math.round(summary.data!.average * 100) / 100,
+        score_count: summary.data!.count,
+        reviews: data,
+      },
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        pages: Math.ceil(total / limitNum),
+      },
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || "Failed to fetch reviews", 500))
+  }
+}
@@ -0,0 +1,109 @@
+import type { Request, Response, NextFunction } from "express"
+import { validationResult } from "express-validator"
+import config from "../config"
+import logger from "../utils/logger"
+import { AppError } from "../utils/appError"
+import { verifySession } from "../middleware/auth.middleware"
+import { hiddenAuthorIds } from "../utils/blocks"
+import { chapterChannel, subscribe, userChannel, type RealtimeEventType } from "../utils/realtime"
+import { issueStreamTicket } from "../utils/streamTickets"
+import type { Comment } from "../types/comment.types"
+
+const openStreams = new Set<Response>()
+
+const writeEvent = (res: Response, type: string, payload: unknown) => {
+  res.write(`event: ${type}\ndata: ${JSON.stringify(payload)}\n\n`)
+}
+
+// Ends every open stream; called on shutdown before server.close(), which would
+// otherwise wait for them forever
+export const closeAllStreams = (): void => {
+  openStreams.forEach((res) => res.end())
+  openStreams.clear()
+}
+
+// @desc    Issue a single-use ticket for opening a stream with EventSource,
+//          which can't send an Authorization header
+// @route   POST /api/stream/ticket
+// @access  Private
+export const createStreamTicket = (req: Request, res: Response) => {
+  res.status(201).json({
+    success: true,
+    data: issueStreamTicket(req.user),
+  })
+}
+
+// @desc    Live stream (Server-Sent Events) of the user's notifications and,
+//          when a chapter is given, its new, edited and deleted comments
+// @route   GET /api/stream?manga_id=&chapter_hid=
+// @access  Private
+export const openStream = async (req: Request, res: Response, next: NextFunction) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    return next(new AppError("Validation error", 400, errors.array()))
+  }
+
+  const { manga_id, chapter_hid } = req.query as { manga_id?: string; chapter_hid?: string }
+  const user = req.user
+  const userId: string = user.id
+
+  // Comments by authors the user blocked or muted are left out, as in the
+  // comment listings
+  let hiddenAuthors = new Set(await hiddenAuthorIds(userId))
+  const refreshHiddenAuthors = async () => {
+    hiddenAuthors = new Set(await hiddenAuthorIds(userId))
+  }
+
+  res.status(200).set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    // Stops nginx from buffering the stream
+    "X-Accel-Buffering": "no",
+  })
+  res.flushHeaders()
+  openStreams.add(res)
+
+  const forward = <T extends RealtimeEventType>(type: T, payload: unknown) => {
+    if (type === "blocks.changed") {
+      refreshHiddenAuthors().catch((error) => logger.error("Stream block list refresh error:", error))
+    }
+    if (type === "comment.created" || type === "comment.updated") {
+      const authorId = (payload as Comment).user_id
+      if (authorId && hiddenAuthors.has(authorId)) return
+    }
+    writeEvent(res, type, payload)
+  }
+  const unsubscribers = [subscribe(userChannel(userId), forward)]
+  if (manga_id && chapter_hid) {
+    unsubscribers.push(subscribe(chapterChannel(manga_id, chapter_hid), forward))
+  }
+
+  writeEvent(res, "ready", {
+    user_id: userId,
+    chapter: manga_id && chapter_hid ? { manga_id, chapter_hid } : null,
+  })
+
+  // The session is re-checked on every beat so logout, session revocation and
+  // suspensions close the stream instead of lasting until the client disconnects.
+  // The access token's own expiry doesn't end the stream.
+  const heartbeat = setInterval(async () => {
+    try {
+      const { error } = await verifySession(user)
+      if (error) {
+        writeEvent(res, "error", { message: error.message })
+        res.end()
+        return
+      }
+      res.write(": ping\n\n")
+    } catch (error) {
+      logger.error("Stream heartbeat error:", error)
+    }
+  }, config.realtime.heartbeatSeconds * 1000)
+
+  res.on("close", () => {
+    clearInterval(heartbeat)
+    unsubscribers.forEach((unsubscribe) => unsubscribe())
+    openStreams.delete(res)
+  })
+}
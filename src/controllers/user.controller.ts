@@ -1,9 +1,26 @@
 //user.controller.ts - backend controller for user-related operations
 import type { Request, Response, NextFunction } from "express"
 import { validationResult } from "express-validator"
-import { supabase } from "../utils/supabase"
+import { repositories } from "../repositories"
 import { AppError } from "../utils/appError"
 import logger from "../utils/logger"
+import { canViewLibrary, libraryVisibilityOf } from "../utils/privacy"
+import { summarizeActivity, summarizeCompletion, toCountMap } from "../utils/readingStats"
+import { checkUsername, claimUsername, resolveUsername } from "../utils/usernames"
+import type { Bookmark, PublicBookmark, ReadingStatus } from "../types/bookmark.types"
+
+// The score is private until the owner writes a review to go with it
+const toPublicBookmark = ({ user_id, username, notes, auto_status, ...bookmark }: Bookmark): PublicBookmark => {
+  if (bookmark.review) return bookmark
+
+  const { score, reviewed_at, ...unreviewed } = bookmark
+  return unreviewed
+}
+
+// Sends a request for a user's old name on to the same path under their current
+// one. The redirect is temporary because the old name can later be claimed again.
+const redirectToUsername = (req: Request, res: Response, username: string) =>
+  res.redirect(302, `${req.baseUrl}${req.url.replace(`/${req.params.username}`, `/${username}`)}`)
 
 export const updateProfile = async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -13,19 +30,24 @@ export const updateProfile = async (req: Request, res: Response, next: NextFunct
     }
 
     const userId = req.user.id
-    const { username, bio, avatar_url } = req.body
+    const { username, bio, avatar_url, library_visibility } = req.body
 
-    const { data, error } = await supabase
-      .from("profiles")
-      .update({
-        username,
-        bio,
-        avatar_url,
-        updated_at: new Date(),
-      })
-      .eq("id", userId)
-      .select()
-      .single()
+    if (username !== undefined) {
+      const { error: claimError } = await claimUsername(userId, username)
+      if (claimError) {
+        return next(claimError)
+      }
+    }
+
+    const { data, error } = await repositories.profiles.update(userId, {
+      username,
+      bio,
+      avatar_url,
+      // Renditions of an uploaded avatar no longer apply once a URL is set directly
+      avatar_urls: avatar_url !== undefined ? null : undefined,
+      library_visibility,
+      updated_at: new Date().toISOString(),
+    })
 
     if (error) {
       logger.error("Profile update error:", error)
@@ -48,7 +70,7 @@ export const getProfile = async (req: Request, res: Response, next: NextFunction
   try {
     const userId = req.user.id
 
-    const { data, error } = await supabase.from("profiles").select("*").eq("id", userId).single()
+    const { data, error } = await repositories.profiles.findById(userId)
 
     if (error) {
       logger.error("Profile fetch error:", error)
@@ -72,16 +94,24 @@ export const changePassword = async (req: Request, res: Response, next: NextFunc
     if (!errors.isEmpty()) {
       return next(new AppError("Validation error", 400, errors.array()))
     }
-    const { password } = req.body
-    const { error } = await supabase.auth.updateUser({
-      password,
-    })
+    const { current_password, password } = req.body
+
+    // Re-authenticate as the requesting user before touching their credentials
+    const { error: verifyError } = await repositories.auth.signInWithPassword(req.user.email, current_password)
+    if (verifyError) {
+      return next(new AppError("Current password is incorrect", 400))
+    }
+
+    const { error } = await repositories.auth.updatePassword(req.user.id, password)
 
     if (error) {
       logger.error("Password change error:", error)
       return next(new AppError(error.message, 400))
     }
 
+    // Keep this device signed in but end every other session
+    await repositories.sessions.revokeAllForUser(req.user.id, req.user.sid)
+
     res.status(200).json({
       success: true,
       message: "Password changed successfully",
@@ -90,3 +120,199 @@ export const changePassword = async (req: Request, res: Response, next: NextFunc
     next(new AppError(error.message || "Password change failed", 500))
   }
 }
+
+export const getMyStats = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user.id
+
+    // Grouping happens in the database; only per-group counts come back
+    const [byStatus, byCountry, byMangaStatus, activity, spans] = await Promise.all([
+      repositories.bookmarks.countByField(userId, "reading_status"),
+      repositories.bookmarks.countByField(userId, "manga_country"),
+      repositories.bookmarks.countByField(userId, "manga_status"),
+      repositories.readingHistory.countByDay(userId),
+      repositories.readingHistory.spanByCompletedManga(userId),
+    ])
+
+    const failed = [byStatus, byCountry, byMangaStatus, activity, spans].find((result) => result.error)
+    if (failed) {
+      logger.error("Stats fetch error:", failed.error)
+      return next(new AppError("Error fetching reading stats", 500))
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        stats: {
+          library: {
+            total: byStatus.data!.reduce((sum, group) => sum + group.count, 0),
+            by_status: toCountMap(byStatus.data!, "plan_to_read"),
+            by_country: toCountMap(byCountry.data!),
+            by_manga_status: toCountMap(byMangaStatus.data!),
+          },
+          reading: summarizeActivity(activity.data!),
+          completion: summarizeCompletion(spans.data!),
+        },
+      },
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || "Failed to get reading stats", 500))
+  }
+}
+
+export const getUsernameAvailability = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()))
+    }
+
+    const username = req.query.username as string
+    // A signed-in caller's own names, current or recently released, count as available
+    const { data, error } = await checkUsername(username, req.user?.id)
+
+    if (error) {
+      logger.error("Username availability error:", error)
+      return next(new AppError("Error checking username", 500))
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        username,
+        ...data,
+      },
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || "Failed to check username", 500))
+  }
+}
+
+export const getUsernameHistory = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { data, error } = await repositories.usernames.listByUser(req.user.id)
+
+    if (error) {
+      logger.error("Username history fetch error:", error)
+      return next(new AppError("Error fetching username history", 500))
+    }
+
+    res.status(200).json({
+      success: true,
+      data: (data || []).map((claim) => ({
+        username: claim.username,
+        claimed_at: claim.claimed_at,
+        released_at: claim.released_at,
+      })),
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || "Failed to get username history", 500))
+  }
+}
+
+export const getPublicProfile = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()))
+    }
+
+    const { profile, movedTo, error: lookupError } = await resolveUsername(req.params.username)
+    if (movedTo) {
+      return redirectToUsername(req, res, movedTo)
+    }
+    if (!profile) {
+      return next(lookupError)
+    }
+
+    const libraryVisible = await canViewLibrary(profile, req.user?.id)
+    const [comments, byStatus] = await Promise.all([
+      repositories.comments.countVisibleByUser(profile.id),
+      libraryVisible ? repositories.bookmarks.countByField(profile.id, "reading_status") : Promise.resolve(null),
+    ])
+
+    if (comments.error || byStatus?.error) {
+      logger.error("Public profile fetch error:", comments.error || byStatus?.error)
+      return next(new AppError("Error fetching profile", 500))
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        profile: {
+          id: profile.id,
+          username: profile.username,
+          bio: profile.bio ?? null,
+          avatar_url: profile.avatar_url ?? null,
+          avatar_urls: profile.avatar_urls ?? null,
+          joined_at: profile.created_at,
+          library_visibility: libraryVisibilityOf(profile),
+          comment_count: comments.data,
+          // Null when the viewer may not see the library
+          library: byStatus
+            ? {
+                total: byStatus.data!.reduce((sum, group) => sum + group.count, 0),
+                by_status: toCountMap(byStatus.data!, "plan_to_read"),
+              }
+            : null,
+        },
+      },
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || "Failed to get profile", 500))
+  }
+}
+
+export const getPublicBookmarks = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      return next(new AppError("Validation error", 400, errors.array()))
+    }
+
+    const { profile, movedTo, error: lookupError } = await resolveUsername(req.params.username)
+    if (movedTo) {
+      return redirectToUsername(req, res, movedTo)
+    }
+    if (!profile) {
+      return next(lookupError)
+    }
+
+    if (!(await canViewLibrary(profile, req.user?.id))) {
+      return next(new AppError("You do not have access to this library", 403))
+    }
+
+    const { page = "1", limit = "20", sort = "updated_at", order = "desc", reading_status } = req.query as Record<
+      string,
+      string | undefined
+    >
+    const pageNum = parseInt(page as string)
+    const limitNum = parseInt(limit as string)
+
+    const { data, error, count } = await repositories.bookmarks.list(profile.id, {
+      offset: (pageNum - 1) * limitNum,
+      limit: limitNum,
+      sort: sort as string,
+      ascending: order === "asc",
+      readingStatus: reading_status as ReadingStatus | undefined,
+    })
+
+    if (error) {
+      logger.error("Public bookmarks fetch error:", error)
+      return next(new AppError("Error fetching bookmarks", 500))
+    }
+
+    res.status(200).json({
+      success: true,
+      data: (data || []).map(toPublicBookmark),
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total: count || 0,
+        pages: Math.ceil((count || 0) / limitNum),
+      },
+    })
+  } catch (error: any) {
+    next(new AppError(error.message || "Failed to get bookmarks", 500))
+  }
+}
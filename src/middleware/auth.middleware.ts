@@ -2,6 +2,10 @@ import type { Request, Response, NextFunction } from "express"
 import { AppError } from "../utils/appError"
 import jwt from "jsonwebtoken"
 import config from "../config"
+import { repositories } from "../repositories"
+import { getAccountRestriction, roleOf } from "../utils/accountStatus"
+import { redeemStreamTicket } from "../utils/streamTickets"
+import type { AccessTokenClaims } from "../types/auth.types"
 
 declare global {
   namespace Express {
@@ -11,24 +15,115 @@ declare global {
   }
 }
 
+const getBearerToken = (req: Request): string | undefined => {
+  if (req.headers.authorization && req.headers.authorization.startsWith("Bearer")) {
+    return req.headers.authorization.split(" ")[1]
+  }
+  return undefined
+}
+
+// Resolves a bearer token to the request user, or the error explaining why it was refused
+export const authenticate = async (token: string): Promise<{ user?: AccessTokenClaims; error?: AppError }> => {
+  let decoded: AccessTokenClaims
+  try {
+    decoded = jwt.verify(token, config.jwtSecret) as AccessTokenClaims
+  } catch (err) {
+    return { error: new AppError("Invalid or expired token.", 401) }
+  }
+
+  return verifySession(decoded)
+}
+
+// Checks that the claims' session is still live and the account unrestricted.
+// Access tokens stay valid only while their session is live, so logout,
+// session revocation and session expiry take effect before the token itself expires.
+export const verifySession = async (
+  decoded: AccessTokenClaims,
+): Promise<{ user?: AccessTokenClaims; error?: AppError }> => {
+  const { data: session } = decoded.sid
+    ? await repositories.sessions.findById(decoded.sid)
+    : { data: null }
+
+  if (
+    !session ||
+    session.user_id !== decoded.id ||
+    session.revoked_at ||
+    new Date(session.expires_at) <= new Date()
+  ) {
+    return { error: new AppError("Your session has ended. Please log in again.", 401) }
+  }
+
+  // Role and account status are read fresh so moderation applies immediately
+  const { data: profile } = await repositories.profiles.findById(decoded.id)
+  const restriction = getAccountRestriction(profile)
+  if (restriction) {
+    return { error: new AppError(restriction, 403) }
+  }
+
+  return { user: { ...decoded, role: roleOf(profile) } }
+}
+
 export const protect = async (req: Request, res: Response, next: NextFunction) => {
   try {
-    let token: string | undefined
-    if (req.headers.authorization && req.headers.authorization.startsWith("Bearer")) {
-      token = req.headers.authorization.split(" ")[1]
-    }
+    const token = getBearerToken(req)
 
     if (!token) {
       return next(new AppError("You are not logged in! Please log in to get access.", 401))
     }
 
-    try {
-      const decoded = jwt.verify(token, config.jwtSecret)
-      req.user = decoded
-      next()
-    } catch (err) {
-      return next(new AppError("Invalid or expired token.", 401))
+    const { user, error } = await authenticate(token)
+    if (error) {
+      return next(error)
     }
+
+    req.user = user
+    next()
+  } catch (error) {
+    next(new AppError("Authentication failed", 401))
+  }
+}
+
+// For public routes that personalize their response: attaches req.user when a
+// valid token is sent and otherwise carries on anonymously
+export const optionalAuth = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const token = getBearerToken(req)
+    if (token) {
+      const { user } = await authenticate(token)
+      req.user = user
+    }
+  } catch (error) {
+    req.user = undefined
+  }
+  next()
+}
+
+// Like protect, but also accepts a stream ticket as a ticket query parameter,
+// since browser EventSource connections can't send an Authorization header.
+// Tickets are single-use and short-lived, so URLs that end up in logs can't be replayed.
+export const protectStream = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const token = getBearerToken(req)
+    const ticket = typeof req.query.ticket === "string" ? req.query.ticket : undefined
+
+    if (!token && !ticket) {
+      return next(new AppError("You are not logged in! Please log in to get access.", 401))
+    }
+
+    let result: { user?: AccessTokenClaims; error?: AppError }
+    if (token) {
+      result = await authenticate(token)
+    } else {
+      const claims = redeemStreamTicket(ticket!)
+      result = claims ? await verifySession(claims) : { error: new AppError("Invalid or expired stream ticket.", 401) }
+    }
+
+    if (result.error) {
+      return next(result.error)
+    }
+
+    req.user = result.user
+    next()
   } catch (error) {
     next(new AppError("Authentication failed", 401))
   }
@@ -0,0 +1,24 @@
+import config from "../config"
+import { createMemoryRepositories } from "./memory"
+import type { Repositories } from "./types"
+
+const createRepositories = (): Repositories => {
+  if (config.dataStore === "memory") {
+    return createMemoryRepositories()
+  }
+
+  // Required lazily so the memory store runs without Supabase credentials
+  const { createSupabaseRepositories } = require("./supabase") as typeof import("./supabase")
+  return createSupabaseRepositories()
+}
+
+// Controllers hold on to this object, so swapping backends (e.g. a fresh
+// memory store per test) replaces its members rather than the reference.
+export const repositories: Repositories = createRepositories()
+
+export const useRepositories = (next: Repositories): void => {
+  Object.assign(repositories, next)
+}
+
+export * from "./types"
+export { createMemoryRepositories, createMemoryStore } from "./memory"
@@ -0,0 +1,33 @@
+import { beforeEach, describe, expect, it } from "@jest/globals"
+import { createMemoryAuthTokenRepository } from "../authToken.repository"
+import { createMemoryStore } from "../store"
+import type { AuthTokenRepository } from "../../types"
+
+const future = () => new Date(Date.now() + 60 * 60 * 1000).toISOString()
+const past = () => new Date(Date.now() - 60 * 1000).toISOString()
+
+describe("memory auth token repository", () => {
+  let tokens: AuthTokenRepository
+
+  beforeEach(() => {
+    tokens = createMemoryAuthTokenRepository(createMemoryStore())
+  })
+
+  it("consumes a token only once", async () => {
+    await tokens.create({ user_id: "u1", purpose: "password_reset", token_hash: "h1", expires_at: future() })
+
+    const first = await tokens.consume("password_reset", "h1")
+    const second = await tokens.consume("password_reset", "h1")
+
+    expect(first.data?.used_at).toBeTruthy()
+    expect(second.data).toBeNull()
+  })
+
+  it("won't consume an expired token or one issued for another purpose", async () => {
+    await tokens.create({ user_id: "u1", purpose: "password_reset", token_hash: "h1", expires_at: past() })
+    await tokens.create({ user_id: "u1", purpose: "email_verification", token_hash: "h2", expires_at: future() })
+
+    expect((await tokens.consume("password_reset", "h1")).data).toBeNull()
+    expect((await tokens.consume("password_reset", "h2")).data).toBeNull()
+  })
+})
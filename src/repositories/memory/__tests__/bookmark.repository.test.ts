@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it } from "@jest/globals"
+import { createMemoryBookmarkRepository } from "../bookmark.repository"
+import { createMemoryStore, type MemoryStore } from "../store"
+import type { BookmarkRepository } from "../../types"
+
+describe("memory bookmark repository", () => {
+  let store: MemoryStore
+  let bookmarks: BookmarkRepository
+
+  beforeEach(() => {
+    store = createMemoryStore()
+    bookmarks = createMemoryBookmarkRepository(store)
+  })
+
+  it("upserts by user and manga, keeping the id", async () => {
+    const { data: created } = await bookmarks.upsert({ user_id: "u1", manga_id: "m1", manga_title: "One" })
+    const { data: updated } = await bookmarks.upsert({ user_id: "u1", manga_id: "m1", manga_title: "Two" })
+
+    expect(updated?.id).toBe(created?.id)
+    expect(updated?.manga_title).toBe("Two")
+    expect(store.bookmarks).toHaveLength(1)
+  })
+
+  it("leaves stored fields alone when an upsert or update passes undefined", async () => {
+    await bookmarks.upsert({ user_id: "u1", manga_id: "m1", last_read_at: "2024-01-01T00:00:00.000Z" })
+    const { data: upserted } = await bookmarks.upsert({ user_id: "u1", manga_id: "m1", last_read_at: undefined })
+    expect(upserted?.last_read_at).toBe("2024-01-01T00:00:00.000Z")
+
+    const { data: updated } = await bookmarks.update("u1", upserted!.id, { last_read_at: undefined, notes: "n" })
+    expect(updated?.last_read_at).toBe("2024-01-01T00:00:00.000Z")
+    expect(updated?.notes).toBe("n")
+  })
+
+  it("returns copies that can't change the store", async () => {
+    const { data } = await bookmarks.upsert({ user_id: "u1", manga_id: "m1", manga_title: "One" })
+    data!.manga_title = "Changed"
+
+    expect(store.bookmarks[0].manga_title).toBe("One")
+  })
+
+  it("only finds the user's own bookmarks", async () => {
+    const { data } = await bookmarks.upsert({ user_id: "u1", manga_id: "m1" })
+
+    expect((await bookmarks.findById("u1", data!.id)).data?.id).toBe(data!.id)
+    expect((await bookmarks.findById("u2", data!.id)).error?.code).toBe("PGRST116")
+    expect((await bookmarks.update("u2", data!.id, { notes: "x" })).error?.code).toBe("PGRST116")
+  })
+
+  it("pages, sorts and counts the user's bookmarks", async () => {
+    await bookmarks.upsert({ user_id: "u1", manga_id: "m1", manga_title: "B", reading_status: "reading" })
+    await bookmarks.upsert({ user_id: "u1", manga_id: "m2", manga_title: "A", reading_status: "reading" })
+    await bookmarks.upsert({ user_id: "u1", manga_id: "m3", manga_title: "C", reading_status: "completed" })
+    await bookmarks.upsert({ user_id: "u2", manga_id: "m4", manga_title: "D" })
+
+    const { data, count } = await bookmarks.list("u1", { offset: 0, limit: 2, sort: "manga_title", ascending: true })
+    expect(count).toBe(3)
+    expect(data?.map((bookmark) => bookmark.manga_title)).toEqual(["A", "B"])
+
+    const filtered = await bookmarks.list("u1", {
+      offset: 0,
+      limit: 10,
+      sort: "manga_title",
+      ascending: false,
+      readingStatus: "reading",
+    })
+    expect(filtered.data?.map((bookmark) => bookmark.manga_title)).toEqual(["B", "A"])
+
+    const { data: groups } = await bookmarks.countByField("u1", "reading_status")
+    expect(groups).toEqual(expect.arrayContaining([
+      { value: "reading", count: 2 },
+      { value: "completed", count: 1 },
+    ]))
+  })
+
+  it("drops collection items with a removed bookmark", async () => {
+    const { data } = await bookmarks.upsert({ user_id: "u1", manga_id: "m1" })
+    store.collectionItems.push({ collection_id: "c1", bookmark_id: data!.id, position: 0, added_at: "2024-01-01" })
+
+    await bookmarks.remove("u1", data!.id)
+
+    expect(store.bookmarks).toHaveLength(0)
+    expect(store.collectionItems).toHaveLength(0)
+  })
+
+  it("applies writes in order and returns the rows, null for deletes", async () => {
+    const { data: first } = await bookmarks.upsert({ user_id: "u1", manga_id: "m1" })
+    const { data: second } = await bookmarks.upsert({ user_id: "u1", manga_id: "m2" })
+    store.collectionItems.push({ collection_id: "c1", bookmark_id: second!.id, position: 0, added_at: "2024-01-01" })
+
+    const { data } = await bookmarks.applyWrites("u1", [
+      { id: first!.id, action: "update", changes: { reading_status: "reading" } },
+      { id: second!.id, action: "delete" },
+    ])
+
+    expect(data?.map((row) => row?.reading_status ?? null)).toEqual(["reading", null])
+    expect(store.bookmarks.map((row) => row.id)).toEqual([first!.id])
+    expect(store.collectionItems).toHaveLength(0)
+  })
+
+  it("applies none of the writes when one targets another user's bookmark", async () => {
+    const { data: own } = await bookmarks.upsert({ user_id: "u1", manga_id: "m1", reading_status: "plan_to_read" })
+    const { data: other } = await bookmarks.upsert({ user_id: "u2", manga_id: "m2" })
+
+    const { error } = await bookmarks.applyWrites("u1", [
+      { id: own!.id, action: "update", changes: { reading_status: "reading" } },
+      { id: other!.id, action: "delete" },
+    ])
+
+    expect(error?.code).toBe("PGRST116")
+    expect(store.bookmarks).toHaveLength(2)
+    expect(store.bookmarks[0].reading_status).toBe("plan_to_read")
+  })
+})
@@ -0,0 +1,32 @@
+import { beforeEach, describe, expect, it } from "@jest/globals"
+import { createMemoryCollectionItemRepository } from "../collectionItem.repository"
+import { createMemoryStore } from "../store"
+import { UNIQUE_VIOLATION_CODE, type CollectionItemRepository } from "../../types"
+
+describe("memory collection item repository", () => {
+  let items: CollectionItemRepository
+
+  beforeEach(() => {
+    items = createMemoryCollectionItemRepository(createMemoryStore())
+  })
+
+  it("appends each item after the last position in its collection", async () => {
+    await Promise.all([items.add("c1", "b1"), items.add("c1", "b2"), items.add("c2", "b3")])
+    await items.reorder("c1", ["b2", "b1"])
+    await items.remove("c1", "b2")
+    await items.add("c1", "b4")
+
+    const { data } = await items.listByCollection("c1")
+    expect(data?.map((item) => [item.bookmark_id, item.position])).toEqual([
+      ["b1", 1],
+      ["b4", 2],
+    ])
+  })
+
+  it("rejects a bookmark that is already in the collection", async () => {
+    await items.add("c1", "b1")
+
+    const { error } = await items.add("c1", "b1")
+    expect(error?.code).toBe(UNIQUE_VIOLATION_CODE)
+  })
+})
@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it } from "@jest/globals"
+import { createMemoryCommentRepository } from "../comment.repository"
+import { createMemoryCommentReactionRepository } from "../commentReaction.repository"
+import { createMemoryStore, type MemoryStore } from "../store"
+import type { CommentReactionRepository } from "../../types"
+
+describe("memory comment reaction repository", () => {
+  let store: MemoryStore
+  let reactions: CommentReactionRepository
+  let commentId: string
+
+  beforeEach(async () => {
+    store = createMemoryStore()
+    reactions = createMemoryCommentReactionRepository(store)
+    const { data } = await createMemoryCommentRepository(store).create({
+      user_id: "u1",
+      manga_id: "m1",
+      chapter_hid: "c1",
+      content: "hi",
+      content_parsed: [{ type: "text", text: "hi" }],
+      depth: 0,
+    })
+    commentId = data!.id
+  })
+
+  const score = () => store.comments.find((comment) => comment.id === commentId)?.score
+
+  it("moves the comment's score with each reaction", async () => {
+    await reactions.upsert({ comment_id: commentId, user_id: "u1", reaction: "like" })
+    await reactions.upsert({ comment_id: commentId, user_id: "u2", reaction: "like" })
+    await reactions.upsert({ comment_id: commentId, user_id: "u3", reaction: "love" })
+    expect(score()).toBe(2)
+
+    await reactions.upsert({ comment_id: commentId, user_id: "u2", reaction: "dislike" })
+    expect(score()).toBe(0)
+
+    await reactions.remove(commentId, "u2")
+    expect(score()).toBe(1)
+  })
+
+  it("leaves the score alone when there is no reaction to remove", async () => {
+    await reactions.upsert({ comment_id: commentId, user_id: "u1", reaction: "like" })
+    await reactions.remove(commentId, "u2")
+
+    expect(score()).toBe(1)
+  })
+
+  it("counts reactions by kind and lists only the user's own", async () => {
+    await reactions.upsert({ comment_id: commentId, user_id: "u1", reaction: "like" })
+    await reactions.upsert({ comment_id: commentId, user_id: "u2", reaction: "like" })
+    await reactions.upsert({ comment_id: commentId, user_id: "u3", reaction: "wow" })
+
+    const { data: counts } = await reactions.countByComments([commentId])
+    expect(counts).toEqual(expect.arrayContaining([
+      { comment_id: commentId, reaction: "like", count: 2 },
+      { comment_id: commentId, reaction: "wow", count: 1 },
+    ]))
+    expect(counts).toHaveLength(2)
+
+    const { data: own } = await reactions.listByUser("u3", [commentId])
+    expect(own?.map((row) => row.reaction)).toEqual(["wow"])
+  })
+})
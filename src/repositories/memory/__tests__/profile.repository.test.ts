@@ -0,0 +1,52 @@
+import { beforeEach, describe, expect, it } from "@jest/globals"
+import { createMemoryProfileRepository } from "../profile.repository"
+import { createMemoryStore } from "../store"
+import { UNIQUE_VIOLATION_CODE, type ProfileRepository } from "../../types"
+
+describe("memory profile repository", () => {
+  let profiles: ProfileRepository
+
+  beforeEach(() => {
+    profiles = createMemoryProfileRepository(createMemoryStore())
+  })
+
+  it("fills in role and status defaults on create", async () => {
+    const { data } = await profiles.create({ id: "u1", username: "alice", email: "alice@example.com" })
+
+    expect(data).toMatchObject({ role: "user", status: "active" })
+  })
+
+  it("rejects a second profile with the same id", async () => {
+    await profiles.create({ id: "u1", username: "alice" })
+    const { error } = await profiles.create({ id: "u1", username: "bob" })
+
+    expect(error?.code).toBe(UNIQUE_VIOLATION_CODE)
+  })
+
+  it("keeps fields an update passes as undefined", async () => {
+    await profiles.create({ id: "u1", username: "alice", bio: "hi" })
+    const { data } = await profiles.update("u1", { username: undefined, bio: "hello" })
+
+    expect(data).toMatchObject({ username: "alice", bio: "hello" })
+  })
+
+  it("matches usernames regardless of case", async () => {
+    await profiles.create({ id: "u1", username: "Alice" })
+    await profiles.create({ id: "u2", username: "bob" })
+
+    const { data } = await profiles.findManyByUsernames(["alice", "BOB", "carol"])
+    expect(data?.map((profile) => profile.id).sort()).toEqual(["u1", "u2"])
+  })
+
+  it("searches usernames and emails and filters by role", async () => {
+    await profiles.create({ id: "u1", username: "alice", email: "a@example.com", role: "moderator" })
+    await profiles.create({ id: "u2", username: "bob", email: "bob@example.com" })
+
+    const byEmail = await profiles.search({ offset: 0, limit: 10, search: "BOB@" })
+    expect(byEmail.data?.map((profile) => profile.id)).toEqual(["u2"])
+
+    const byRole = await profiles.search({ offset: 0, limit: 10, role: "moderator" })
+    expect(byRole.count).toBe(1)
+    expect(byRole.data?.[0].id).toBe("u1")
+  })
+})
@@ -0,0 +1,55 @@
+import { beforeEach, describe, expect, it } from "@jest/globals"
+import { createMemorySessionRepository } from "../session.repository"
+import { createMemoryStore } from "../store"
+import type { SessionRepository } from "../../types"
+
+const future = () => new Date(Date.now() + 60 * 60 * 1000).toISOString()
+const past = () => new Date(Date.now() - 60 * 1000).toISOString()
+
+describe("memory session repository", () => {
+  let sessions: SessionRepository
+
+  beforeEach(() => {
+    sessions = createMemorySessionRepository(createMemoryStore())
+  })
+
+  it("lists only sessions that are neither revoked nor expired", async () => {
+    await sessions.create({ id: "s1", user_id: "u1", refresh_token_hash: "h1", expires_at: future() })
+    await sessions.create({ id: "s2", user_id: "u1", refresh_token_hash: "h2", expires_at: past() })
+    await sessions.create({ id: "s3", user_id: "u1", refresh_token_hash: "h3", expires_at: future() })
+    await sessions.update("s3", { revoked_at: new Date().toISOString() })
+
+    const { data } = await sessions.listActiveByUser("u1")
+    expect(data?.map((session) => session.id)).toEqual(["s1"])
+  })
+
+  it("revokes every other session of the user", async () => {
+    await sessions.create({ id: "s1", user_id: "u1", refresh_token_hash: "h1", expires_at: future() })
+    await sessions.create({ id: "s2", user_id: "u1", refresh_token_hash: "h2", expires_at: future() })
+    await sessions.create({ id: "s3", user_id: "u2", refresh_token_hash: "h3", expires_at: future() })
+
+    await sessions.revokeAllForUser("u1", "s1")
+
+    expect((await sessions.findById("s1")).data?.revoked_at).toBeNull()
+    expect((await sessions.findById("s2")).data?.revoked_at).toBeTruthy()
+    expect((await sessions.findById("s3")).data?.revoked_at).toBeNull()
+  })
+
+  it("rotates only a session that still holds the presented hash", async () => {
+    await sessions.create({ id: "s1", user_id: "u1", refresh_token_hash: "h1", expires_at: future() })
+
+    const first = await sessions.rotate("s1", "h1", { refresh_token_hash: "h2" })
+    const second = await sessions.rotate("s1", "h1", { refresh_token_hash: "h3" })
+
+    expect(first.data?.refresh_token_hash).toBe("h2")
+    expect(second.data).toBeNull()
+    expect((await sessions.findById("s1")).data?.refresh_token_hash).toBe("h2")
+  })
+
+  it("keeps fields an update passes as undefined", async () => {
+    await sessions.create({ id: "s1", user_id: "u1", refresh_token_hash: "h1", expires_at: future() })
+    const { data } = await sessions.update("s1", { refresh_token_hash: undefined, last_used_at: "2030-01-01" })
+
+    expect(data).toMatchObject({ refresh_token_hash: "h1", last_used_at: "2030-01-01" })
+  })
+})
@@ -0,0 +1,44 @@
+import { beforeEach, describe, expect, it } from "@jest/globals"
+import { createMemoryProfileRepository } from "../profile.repository"
+import { createMemoryStore, type MemoryStore } from "../store"
+import { createMemoryUsernameRepository } from "../username.repository"
+import { UNIQUE_VIOLATION_CODE, type UsernameRepository } from "../../types"
+
+describe("memory username repository", () => {
+  let store: MemoryStore
+  let usernames: UsernameRepository
+
+  beforeEach(async () => {
+    store = createMemoryStore()
+    usernames = createMemoryUsernameRepository(store)
+    await createMemoryProfileRepository(store).create({ id: "u1", username: "alice" })
+  })
+
+  it("releases the previous name and copies the new one to the profile", async () => {
+    await usernames.claim("u1", "alice")
+    const { data } = await usernames.claim("u1", "alicia")
+
+    expect(data).toMatchObject({ username: "alicia", username_key: "alicia", released_at: null })
+    expect(store.profiles[0].username).toBe("alicia")
+
+    const { data: history } = await usernames.listByUser("u1")
+    expect(history?.filter((claim) => !claim.released_at).map((claim) => claim.username)).toEqual(["alicia"])
+  })
+
+  it("rejects a name another user holds in any case and changes nothing", async () => {
+    await usernames.claim("u1", "alice")
+    const { error } = await usernames.claim("u2", "ALICE")
+
+    expect(error?.code).toBe(UNIQUE_VIOLATION_CODE)
+    expect(store.usernames.filter((claim) => claim.user_id === "u2")).toEqual([])
+    expect(store.profiles[0].username).toBe("alice")
+  })
+
+  it("lets the holder change the case of their own name", async () => {
+    await usernames.claim("u1", "alice")
+    const { error } = await usernames.claim("u1", "Alice")
+
+    expect(error).toBeNull()
+    expect(store.profiles[0].username).toBe("Alice")
+  })
+})
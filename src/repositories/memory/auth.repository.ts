@@ -0,0 +1,89 @@
+import { randomBytes, scryptSync, timingSafeEqual } from "crypto"
+import type { AuthRepository, AuthUser } from "../types"
+import { failure, newId, notFound, now, ok, type MemoryUser, type MemoryStore } from "./store"
+
+const hashPassword = (password: string): string => {
+  const salt = randomBytes(16).toString("hex")
+  return `${salt}:${scryptSync(password, salt, 64).toString("hex")}`
+}
+
+const verifyPassword = (password: string, stored: string): boolean => {
+  const [salt, hash] = stored.split(":")
+  return timingSafeEqual(Buffer.from(hash, "hex"), scryptSync(password, salt, 64))
+}
+
+const toAuthUser = ({ id, email, user_metadata, email_confirmed_at }: MemoryUser): AuthUser => ({
+  id,
+  email,
+  user_metadata,
+  email_confirmed_at,
+})
+
+export const createMemoryAuthRepository = (store: MemoryStore): AuthRepository => ({
+  async signUp(email, password, metadata) {
+    const normalizedEmail = email.toLowerCase()
+    if (store.users.some((user) => user.email === normalizedEmail)) {
+      return failure("User already registered", "user_already_exists")
+    }
+
+    const user: MemoryUser = {
+      id: newId(),
+      email: normalizedEmail,
+      password_hash: hashPassword(password),
+      user_metadata: { ...metadata },
+      email_confirmed_at: null,
+      created_at: now(),
+    }
+    store.users.push(user)
+    return ok(toAuthUser(user))
+  },
+
+  async signInWithPassword(email, password) {
+    const user = store.users.find((row) => row.email === email.toLowerCase())
+    if (!user || !verifyPassword(password, user.password_hash)) {
+      return failure("Invalid login credentials", "invalid_credentials")
+    }
+
+    if (!user.email_confirmed_at) {
+      return failure("Email not confirmed", "email_not_confirmed")
+    }
+
+    return ok(toAuthUser(user))
+  },
+
+  async getUserById(id) {
+    const user = store.users.find((row) => row.id === id)
+    return user ? ok(toAuthUser(user)) : notFound()
+  },
+
+  async findUserByEmail(email) {
+    const user = store.users.find((row) => row.email === email.toLowerCase())
+    return user ? ok(toAuthUser(user)) : notFound()
+  },
+
+  async updatePassword(id, password) {
+    const user = store.users.find((row) => row.id === id)
+    if (!user) return notFound()
+
+    user.password_hash = hashPassword(password)
+    return ok(toAuthUser(user))
+  },
+
+  async confirmEmail(id) {
+    const user = store.users.find((row) => row.id === id)
+    if (!user) return notFound()
+
+    user.email_confirmed_at = user.email_confirmed_at || now()
+    return ok(toAuthUser(user))
+  },
+
+  async deleteUser(id) {
+    if (!store.users.some((row) => row.id === id)) return notFound()
+
+    // Mirrors the on delete cascade from auth.users
+    store.users = store.users.filter((row) => row.id !== id)
+    store.profiles = store.profiles.filter((row) => row.id !== id)
+    store.usernames = store.usernames.filter((row) => row.user_id !== id)
+    return ok(null)
+  },
+})
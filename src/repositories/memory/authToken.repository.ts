@@ -0,0 +1,39 @@
+import type { AuthToken } from "../../types/auth.types"
+import type { AuthTokenRepository } from "../types"
+import { copy, newId, now, ok, type MemoryStore } from "./store"
+
+export const createMemoryAuthTokenRepository = (store: MemoryStore): AuthTokenRepository => ({
+  async create(token) {
+    const created: AuthToken = {
+      ...copy(token),
+      id: newId(),
+      used_at: null,
+      created_at: now(),
+    }
+    store.authTokens.push(created)
+    return ok(created)
+  },
+
+  async consume(purpose, tokenHash) {
+    const timestamp = now()
+    const token = store.authTokens.find(
+      (row) =>
+        row.purpose === purpose && row.token_hash === tokenHash && !row.used_at && row.expires_at > timestamp,
+    )
+    if (!token) return ok(null)
+
+    token.used_at = timestamp
+    return ok(token)
+  },
+
+  async invalidateForUser(userId, purpose) {
+    const timestamp = now()
+    store.authTokens
+      .filter((row) => row.user_id === userId && row.purpose === purpose && !row.used_at)
+      .forEach((row) => {
+        row.used_at = timestamp
+      })
+
+    return ok(null)
+  },
+})
@@ -0,0 +1,151 @@
+import type { Bookmark } from "../../types/bookmark.types"
+import type { BookmarkRepository } from "../types"
+import { compareBy, copy, definedFields, newId, notFound, now, ok, type MemoryStore } from "./store"
+
+export const createMemoryBookmarkRepository = (store: MemoryStore): BookmarkRepository => ({
+  async list(userId, { offset, limit, sort, ascending, readingStatus }) {
+    const rows = store.bookmarks
+      .filter((bookmark) => bookmark.user_id === userId)
+      .filter((bookmark) => !readingStatus || bookmark.reading_status === readingStatus)
+      .sort(compareBy(sort, ascending))
+
+    return { ...ok(rows.slice(offset, offset + limit)), count: rows.length }
+  },
+
+  async listAllByUser(userId) {
+    return ok(store.bookmarks.filter((bookmark) => bookmark.user_id === userId))
+  },
+
+  async listTrackedMangaHids() {
+    return ok([...new Set(store.bookmarks.map((bookmark) => bookmark.manga_hid).filter(Boolean))])
+  },
+
+  async findById(userId, id) {
+    const bookmark = store.bookmarks.find((row) => row.id === id && row.user_id === userId)
+    return bookmark ? ok(bookmark) : notFound()
+  },
+
+  async findManyByIds(userId, ids) {
+    return ok(store.bookmarks.filter((row) => row.user_id === userId && ids.includes(row.id)))
+  },
+
+  async findByManga(userId, mangaId) {
+    const bookmark = store.bookmarks.find((row) => row.user_id === userId && row.manga_id === mangaId)
+    return bookmark ? ok(bookmark) : notFound()
+  },
+
+  async upsert(bookmark) {
+    const timestamp = now()
+    const existing = store.bookmarks.find(
+      (row) => row.user_id === bookmark.user_id && row.manga_id === bookmark.manga_id,
+    )
+
+    if (existing) {
+      Object.assign(existing, copy(definedFields(bookmark)), { id: existing.id, updated_at: timestamp })
+      return ok(existing)
+    }
+
+    const created = {
+      ...copy(definedFields(bookmark)),
+      id: newId(),
+      created_at: timestamp,
+      updated_at: timestamp,
+    } as Bookmark
+    store.bookmarks.push(created)
+    return ok(created)
+  },
+
+  async update(userId, id, changes) {
+    const bookmark = store.bookmarks.find((row) => row.id === id && row.user_id === userId)
+    if (!bookmark) return notFound()
+
+    Object.assign(bookmark, copy(definedFields(changes)), { updated_at: now() })
+    return ok(bookmark)
+  },
+
+  async remove(userId, id) {
+    const removed = store.bookmarks.some((row) => row.id === id && row.user_id === userId)
+    store.bookmarks = store.bookmarks.filter((row) => !(row.id === id && row.user_id === userId))
+    if (removed) {
+      store.collectionItems = store.collectionItems.filter((row) => row.bookmark_id !== id)
+    }
+    return ok(null)
+  },
+
+  async applyWrites(userId, writes) {
+    // Works on copies and swaps them in only once every write has succeeded
+    const rows = new Map(
+      store.bookmarks.filter((row) => row.user_id === userId).map((row) => [row.id, copy(row)]),
+    )
+    const results: (Bookmark | null)[] = []
+
+    for (const write of writes) {
+      const row = rows.get(write.id)
+      if (!row) return notFound()
+
+      if (write.action === "delete") {
+        rows.delete(write.id)
+        results.push(null)
+      } else {
+        Object.assign(row, copy(definedFields(write.changes)), { updated_at: now() })
+        results.push(copy(row))
+      }
+    }
+
+    const deleted = new Set(writes.filter((write) => !rows.has(write.id)).map((write) => write.id))
+    store.bookmarks = store.bookmarks
+      .filter((row) => !deleted.has(row.id))
+      .map((row) => rows.get(row.id) || row)
+    store.collectionItems = store.collectionItems.filter((row) => !deleted.has(row.bookmark_id))
+    return ok(results)
+  },
+
+  async countByField(userId, field) {
+    const counts = new Map<string | number | null, number>()
+    store.bookmarks
+      .filter((bookmark) => bookmark.user_id === userId)
+      .forEach((bookmark) => {
+        const value = bookmark[field] ?? null
+        counts.set(value, (counts.get(value) || 0) + 1)
+      })
+    return ok([...counts].map(([value, count]) => ({ value, count })))
+  },
+
+  async listReviews(mangaId, { offset, limit }) {
+    const rows = store.bookmarks
+      .filter((bookmark) => bookmark.manga_id === mangaId && bookmark.review)
+      .sort(compareBy("reviewed_at", false))
+
+    return { ...ok(rows.slice(offset, offset + limit)), count: rows.length }
+  },
+
+  async scoreSummary(mangaId) {
+    const scores = store.bookmarks
+      .filter((bookmark) => bookmark.manga_id === mangaId && typeof bookmark.score === "number")
+      .map((bookmark) => bookmark.score as number)
+
+    return ok({
+      average: scores.length ? scores.reduce((sum, score) => sum + score, 0) / scores.length : null,
+      count: scores.length,
+    })
+  },
+
+  async listAddedByUsers(userIds, { before, limit }) {
+    return ok(
+      store.bookmarks
+        .filter((bookmark) => userIds.includes(bookmark.user_id) && (!before || bookmark.created_at <= before))
+        .sort(compareBy("created_at", false))
+        .slice(0, limit),
+    )
+  },
+
+  async listReviewedByUsers(userIds, { before, limit }) {
+    return ok(
+      store.bookmarks
+        .filter((bookmark) => userIds.includes(bookmark.user_id) && bookmark.review)
+        .filter((bookmark) => !before || (bookmark.reviewed_at as string) <= before)
+        .sort(compareBy("reviewed_at", false))
+        .slice(0, limit),
+    )
+  },
+})
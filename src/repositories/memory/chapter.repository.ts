@@ -0,0 +1,81 @@
+import type { Bookmark } from "../../types/bookmark.types"
+import type { BookmarkUpdate, ChapterRecord } from "../../types/chapter.types"
+import type { ChapterRepository } from "../types"
+import { chapterNumber } from "../../utils/chapterNumbers"
+import { copy, newId, now, ok, type MemoryStore } from "./store"
+
+// Unread chapters are the distinct chapter numbers above the last one read;
+// several scanlation groups often publish the same chapter
+const toBookmarkUpdate = (bookmark: Bookmark, chapters: ChapterRecord[]): BookmarkUpdate | null => {
+  const lastRead = chapterNumber(bookmark.last_read_chapter)
+  const unread = chapters.filter((chapter) => {
+    const number = chapterNumber(chapter.chapter)
+    return number !== null && (lastRead === null || number > lastRead)
+  })
+  if (unread.length === 0) return null
+
+  const latest = unread.reduce((newest, chapter) => (chapter.published_at > newest.published_at ? chapter : newest))
+
+  return {
+    bookmark,
+    unread_count: new Set(unread.map((chapter) => chapterNumber(chapter.chapter))).size,
+    latest_chapter: {
+      chapter: latest.chapter,
+      chapter_hid: latest.chapter_hid,
+      title: latest.title || null,
+      published_at: latest.published_at,
+    },
+  }
+}
+
+export const createMemoryChapterRepository = (store: MemoryStore): ChapterRepository => ({
+  async insertNew(chapters) {
+    const timestamp = now()
+    const inserted: ChapterRecord[] = []
+
+    chapters.forEach((chapter) => {
+      const exists = [...store.chapters, ...inserted].some(
+        (row) => row.manga_hid === chapter.manga_hid && row.chapter_hid === chapter.chapter_hid,
+      )
+      if (!exists) {
+        inserted.push({ ...copy(chapter), id: newId(), created_at: timestamp })
+      }
+    })
+
+    store.chapters.push(...inserted)
+    return ok(inserted)
+  },
+
+  async latestChapterNumber(mangaHid) {
+    const numbers = store.chapters
+      .filter((row) => row.manga_hid === mangaHid)
+      .map((row) => chapterNumber(row.chapter))
+      .filter((number): number is number => number !== null)
+    return ok(numbers.length ? Math.max(...numbers) : null)
+  },
+
+  async listBookmarkUpdates(userId, { offset, limit }) {
+    const rows = store.bookmarks
+      .filter(
+        (bookmark) =>
+          bookmark.user_id === userId &&
+          bookmark.manga_hid &&
+          bookmark.reading_status !== "dropped" &&
+          bookmark.reading_status !== "completed",
+      )
+      .map((bookmark) =>
+        toBookmarkUpdate(
+          bookmark,
+          store.chapters.filter((chapter) => chapter.manga_hid === bookmark.manga_hid),
+        ),
+      )
+      .filter((update): update is BookmarkUpdate => update !== null)
+      .sort(
+        (a, b) =>
+          b.latest_chapter.published_at.localeCompare(a.latest_chapter.published_at) ||
+          a.bookmark.id.localeCompare(b.bookmark.id),
+      )
+
+    return { ...ok(rows.slice(offset, offset + limit)), count: rows.length }
+  },
+})
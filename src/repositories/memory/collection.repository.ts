@@ -0,0 +1,47 @@
+import type { Collection } from "../../types/collection.types"
+import { UNIQUE_VIOLATION_CODE, type CollectionRepository } from "../types"
+import { compareBy, copy, definedFields, failure, newId, notFound, now, ok, type MemoryStore } from "./store"
+
+export const createMemoryCollectionRepository = (store: MemoryStore): CollectionRepository => ({
+  async listByUser(userId) {
+    return ok(store.collections.filter((row) => row.user_id === userId).sort(compareBy("updated_at", false)))
+  },
+
+  async findById(userId, id) {
+    const collection = store.collections.find((row) => row.id === id && row.user_id === userId)
+    return collection ? ok(collection) : notFound()
+  },
+
+  async findBySlug(slug) {
+    const collection = store.collections.find((row) => row.slug === slug)
+    return collection ? ok(collection) : notFound()
+  },
+
+  async create(collection) {
+    if (store.collections.some((row) => row.slug === collection.slug)) {
+      return failure('duplicate key value violates unique constraint "collections_slug_key"', UNIQUE_VIOLATION_CODE)
+    }
+
+    const timestamp = now()
+    const created: Collection = { ...copy(collection), id: newId(), created_at: timestamp, updated_at: timestamp }
+    store.collections.push(created)
+    return ok(created)
+  },
+
+  async update(userId, id, changes) {
+    const collection = store.collections.find((row) => row.id === id && row.user_id === userId)
+    if (!collection) return notFound()
+
+    Object.assign(collection, copy(definedFields(changes)), { updated_at: now() })
+    return ok(collection)
+  },
+
+  async remove(userId, id) {
+    const removed = store.collections.some((row) => row.id === id && row.user_id === userId)
+    store.collections = store.collections.filter((row) => !(row.id === id && row.user_id === userId))
+    if (removed) {
+      store.collectionItems = store.collectionItems.filter((row) => row.collection_id !== id)
+    }
+    return ok(null)
+  },
+})
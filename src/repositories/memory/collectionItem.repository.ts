@@ -0,0 +1,45 @@
+import type { CollectionItem } from "../../types/collection.types"
+import { UNIQUE_VIOLATION_CODE, type CollectionItemRepository } from "../types"
+import { compareBy, failure, now, ok, type MemoryStore } from "./store"
+
+export const createMemoryCollectionItemRepository = (store: MemoryStore): CollectionItemRepository => ({
+  async listByCollection(collectionId) {
+    return ok(store.collectionItems.filter((row) => row.collection_id === collectionId).sort(compareBy("position", true)))
+  },
+
+  async listByCollections(collectionIds) {
+    return ok(store.collectionItems.filter((row) => collectionIds.includes(row.collection_id)))
+  },
+
+  async add(collectionId, bookmarkId) {
+    const items = store.collectionItems.filter((row) => row.collection_id === collectionId)
+    if (items.some((row) => row.bookmark_id === bookmarkId)) {
+      return failure('duplicate key value violates unique constraint "collection_items_pkey"', UNIQUE_VIOLATION_CODE)
+    }
+
+    // Mirrors public.add_collection_item
+    const position = items.reduce((last, row) => Math.max(last, row.position + 1), 0)
+    const created: CollectionItem = { collection_id: collectionId, bookmark_id: bookmarkId, position, added_at: now() }
+    store.collectionItems.push(created)
+    return ok(created)
+  },
+
+  async remove(collectionId, bookmarkId) {
+    store.collectionItems = store.collectionItems.filter(
+      (row) => !(row.collection_id === collectionId && row.bookmark_id === bookmarkId),
+    )
+    return ok(null)
+  },
+
+  async reorder(collectionId, bookmarkIds) {
+    store.collectionItems
+      .filter((row) => row.collection_id === collectionId)
+      .forEach((row) => {
+        const position = bookmarkIds.indexOf(row.bookmark_id)
+        if (position !== -1) {
+          row.position = position
+        }
+      })
+    return ok(null)
+  },
+})
@@ -0,0 +1,94 @@
+import type { CommentRecord, CommentSort } from "../../types/comment.types"
+import type { CommentRepository } from "../types"
+import { compareBy, copy, definedFields, newId, notFound, now, ok, type MemoryStore } from "./store"
+
+// Same ordering the Supabase repository asks Postgres for
+const compareForSort = (sort: CommentSort) => {
+  const ascending = sort === "old"
+  const byCreated = compareBy<CommentRecord>("created_at", ascending)
+  const byId = compareBy<CommentRecord>("id", ascending)
+  const byScore = compareBy<CommentRecord>("score", false)
+
+  return (a: CommentRecord, b: CommentRecord) =>
+    (sort === "top" ? byScore(a, b) : 0) || byCreated(a, b) || byId(a, b)
+}
+
+export const createMemoryCommentRepository = (store: MemoryStore): CommentRepository => ({
+  async listTopLevel(mangaId, chapterHid, { sort, limit, after, excludeUserIds = [] }) {
+    const compare = compareForSort(sort)
+    const rows = store.comments
+      .filter((comment) => comment.manga_id === mangaId && comment.chapter_hid === chapterHid)
+      .filter((comment) => !comment.parent_id)
+      .filter((comment) => !excludeUserIds.includes(comment.user_id))
+      .filter((comment) => !after || compare(comment, after as CommentRecord) > 0)
+      .sort(compare)
+
+    return ok(rows.slice(0, limit))
+  },
+
+  async listByRoots(rootIds) {
+    const rows = store.comments
+      .filter((comment) => !!comment.root_id && rootIds.includes(comment.root_id))
+      .sort(compareBy("created_at", true))
+
+    return ok(rows)
+  },
+
+  async findById(id) {
+    const comment = store.comments.find((row) => row.id === id)
+    return comment ? ok(comment) : notFound()
+  },
+
+  async findManyByIds(ids) {
+    return ok(store.comments.filter((row) => ids.includes(row.id)))
+  },
+
+  async countReplies(parentId) {
+    return ok(store.comments.filter((row) => row.parent_id === parentId).length)
+  },
+
+  async countVisibleByUser(userId) {
+    return ok(store.comments.filter((row) => row.user_id === userId && !row.deleted_at && !row.hidden_at).length)
+  },
+
+  async listRecentByUsers(userIds, { before, limit }) {
+    return ok(
+      store.comments
+        .filter((row) => userIds.includes(row.user_id) && !row.deleted_at && !row.hidden_at)
+        .filter((row) => !before || row.created_at <= before)
+        .sort(compareBy("created_at", false))
+        .slice(0, limit),
+    )
+  },
+
+  async create(comment) {
+    const timestamp = now()
+    const created: CommentRecord = {
+      ...copy(comment),
+      id: newId(),
+      score: 0,
+      edited_at: null,
+      deleted_at: null,
+      deleted_by: null,
+      hidden_at: null,
+      hidden_by: null,
+      created_at: timestamp,
+      updated_at: timestamp,
+    }
+    store.comments.push(created)
+    return ok(created)
+  },
+
+  async update(id, changes) {
+    const comment = store.comments.find((row) => row.id === id)
+    if (!comment) return notFound()
+
+    Object.assign(comment, copy(definedFields(changes)), { updated_at: now() })
+    return ok(comment)
+  },
+
+  async remove(id) {
+    store.comments = store.comments.filter((row) => row.id !== id)
+    return ok(null)
+  },
+})
@@ -0,0 +1,59 @@
+import type { ReactionCount, ReactionType } from "../../types/comment.types"
+import type { CommentReactionRepository } from "../types"
+import { now, ok, type MemoryStore } from "./store"
+
+const scoreOf = (reaction: ReactionType) => (reaction === "like" ? 1 : reaction === "dislike" ? -1 : 0)
+
+// Mirrors the comment_reactions_score trigger
+const adjustScore = (store: MemoryStore, commentId: string, delta: number) => {
+  const comment = store.comments.find((row) => row.id === commentId)
+  if (comment) comment.score += delta
+}
+
+export const createMemoryCommentReactionRepository = (store: MemoryStore): CommentReactionRepository => ({
+  async upsert(reaction) {
+    const existing = store.commentReactions.find(
+      (row) => row.comment_id === reaction.comment_id && row.user_id === reaction.user_id,
+    )
+
+    if (existing) {
+      adjustScore(store, existing.comment_id, scoreOf(reaction.reaction) - scoreOf(existing.reaction))
+      existing.reaction = reaction.reaction
+      return ok(existing)
+    }
+
+    const created = { ...reaction, created_at: now() }
+    store.commentReactions.push(created)
+    adjustScore(store, created.comment_id, scoreOf(created.reaction))
+    return ok(created)
+  },
+
+  async remove(commentId, userId) {
+    const existing = store.commentReactions.find((row) => row.comment_id === commentId && row.user_id === userId)
+    if (existing) {
+      adjustScore(store, commentId, -scoreOf(existing.reaction))
+    }
+
+    store.commentReactions = store.commentReactions.filter(
+      (row) => !(row.comment_id === commentId && row.user_id === userId),
+    )
+    return ok(null)
+  },
+
+  async countByComments(commentIds) {
+    // Mirrors the comment_reaction_counts view
+    const counts: ReactionCount[] = []
+    store.commentReactions
+      .filter((row) => commentIds.includes(row.comment_id))
+      .forEach((row) => {
+        const count = counts.find((entry) => entry.comment_id === row.comment_id && entry.reaction === row.reaction)
+        if (count) count.count += 1
+        else counts.push({ comment_id: row.comment_id, reaction: row.reaction, count: 1 })
+      })
+    return ok(counts)
+  },
+
+  async listByUser(userId, commentIds) {
+    return ok(store.commentReactions.filter((row) => row.user_id === userId && commentIds.includes(row.comment_id)))
+  },
+})
@@ -0,0 +1,64 @@
+import type { CommentReport, ReportQueueEntry } from "../../types/comment.types"
+import { UNIQUE_VIOLATION_CODE, type CommentReportRepository } from "../types"
+import { compareBy, copy, definedFields, failure, newId, now, ok, type MemoryStore } from "./store"
+
+export const createMemoryCommentReportRepository = (store: MemoryStore): CommentReportRepository => ({
+  async create(report) {
+    const duplicate = store.commentReports.some(
+      (row) => row.comment_id === report.comment_id && row.reporter_id === report.reporter_id,
+    )
+    if (duplicate) {
+      return failure('duplicate key value violates unique constraint "comment_reports_comment_id_reporter_id_key"', UNIQUE_VIOLATION_CODE)
+    }
+
+    const created: CommentReport = {
+      ...copy(report),
+      id: newId(),
+      status: "open",
+      created_at: now(),
+    }
+    store.commentReports.push(created)
+    return ok(created)
+  },
+
+  async countOpenByComment(commentId) {
+    return ok(store.commentReports.filter((row) => row.comment_id === commentId && row.status === "open").length)
+  },
+
+  async listQueue({ offset, limit }) {
+    const entries = new Map<string, ReportQueueEntry>()
+    store.commentReports
+      .filter((row) => row.status === "open")
+      .sort(compareBy("created_at", true))
+      .forEach((row) => {
+        const entry = entries.get(row.comment_id)
+        if (entry) {
+          entry.report_count += 1
+        } else {
+          entries.set(row.comment_id, { comment_id: row.comment_id, report_count: 1, first_reported_at: row.created_at })
+        }
+      })
+
+    // Entries were added oldest first, so ties keep the longest-waiting comment ahead
+    const rows = [...entries.values()].sort((a, b) => b.report_count - a.report_count)
+    return { ...ok(rows.slice(offset, offset + limit)), count: rows.length }
+  },
+
+  async listOpenByComments(commentIds) {
+    const rows = store.commentReports
+      .filter((row) => commentIds.includes(row.comment_id) && row.status === "open")
+      .sort(compareBy("created_at", true))
+
+    return ok(rows)
+  },
+
+  async resolveOpenByComment(commentId, resolution) {
+    const timestamp = now()
+    const resolved = store.commentReports.filter((row) => row.comment_id === commentId && row.status === "open")
+    resolved.forEach((row) => {
+      Object.assign(row, copy(definedFields(resolution)), { status: "resolved", resolved_at: timestamp })
+    })
+
+    return ok(resolved)
+  },
+})
@@ -0,0 +1,23 @@
+import type { CommentRevision } from "../../types/comment.types"
+import type { CommentRevisionRepository } from "../types"
+import { compareBy, copy, newId, now, ok, type MemoryStore } from "./store"
+
+export const createMemoryCommentRevisionRepository = (store: MemoryStore): CommentRevisionRepository => ({
+  async create(revision) {
+    const created: CommentRevision = {
+      ...copy(revision),
+      id: newId(),
+      created_at: now(),
+    }
+    store.commentRevisions.push(created)
+    return ok(created)
+  },
+
+  async listByComment(commentId) {
+    const rows = store.commentRevisions
+      .filter((row) => row.comment_id === commentId)
+      .sort(compareBy("created_at", true))
+
+    return ok(rows)
+  },
+})
@@ -0,0 +1,41 @@
+import type { Follow } from "../../types/social.types"
+import { UNIQUE_VIOLATION_CODE, type FollowRepository } from "../types"
+import { compareBy, failure, now, ok, type MemoryStore } from "./store"
+
+const matches = (followerId: string, followingId: string) => (row: Follow) =>
+  row.follower_id === followerId && row.following_id === followingId
+
+export const createMemoryFollowRepository = (store: MemoryStore): FollowRepository => ({
+  async create(followerId, followingId) {
+    if (store.follows.some(matches(followerId, followingId))) {
+      return failure('duplicate key value violates unique constraint "follows_pkey"', UNIQUE_VIOLATION_CODE)
+    }
+
+    const created: Follow = { follower_id: followerId, following_id: followingId, created_at: now() }
+    store.follows.push(created)
+    return ok(created)
+  },
+
+  async remove(followerId, followingId) {
+    store.follows = store.follows.filter((row) => !matches(followerId, followingId)(row))
+    return ok(null)
+  },
+
+  async exists(followerId, followingId) {
+    return ok(store.follows.some(matches(followerId, followingId)))
+  },
+
+  async listFollowers(userId, { offset, limit }) {
+    const rows = store.follows.filter((row) => row.following_id === userId).sort(compareBy("created_at", false))
+    return { ...ok(rows.slice(offset, offset + limit)), count: rows.length }
+  },
+
+  async listFollowing(userId, { offset, limit }) {
+    const rows = store.follows.filter((row) => row.follower_id === userId).sort(compareBy("created_at", false))
+    return { ...ok(rows.slice(offset, offset + limit)), count: rows.length }
+  },
+
+  async listFollowingIds(userId) {
+    return ok(store.follows.filter((row) => row.follower_id === userId).map((row) => row.following_id))
+  },
+})
@@ -0,0 +1,45 @@
+import type { Repositories } from "../types"
+import { createMemoryAuthRepository } from "./auth.repository"
+import { createMemoryAuthTokenRepository } from "./authToken.repository"
+import { createMemoryBookmarkRepository } from "./bookmark.repository"
+import { createMemoryChapterRepository } from "./chapter.repository"
+import { createMemoryCollectionRepository } from "./collection.repository"
+import { createMemoryCollectionItemRepository } from "./collectionItem.repository"
+import { createMemoryCommentRepository } from "./comment.repository"
+import { createMemoryCommentReactionRepository } from "./commentReaction.repository"
+import { createMemoryCommentReportRepository } from "./commentReport.repository"
+import { createMemoryCommentRevisionRepository } from "./commentRevision.repository"
+import { createMemoryFollowRepository } from "./follow.repository"
+import { createMemoryNotificationRepository } from "./notification.repository"
+import { createMemoryProfileRepository } from "./profile.repository"
+import { createMemoryReadingHistoryRepository } from "./readingHistory.repository"
+import { createMemorySessionRepository } from "./session.repository"
+import { createMemoryStatusTransitionRepository } from "./statusTransition.repository"
+import { createMemoryStorageRepository } from "./storage.repository"
+import { createMemoryUserBlockRepository } from "./userBlock.repository"
+import { createMemoryUsernameRepository } from "./username.repository"
+import { createMemoryStore, type MemoryStore } from "./store"
+
+export { createMemoryStore, type MemoryStore }
+
+export const createMemoryRepositories = (store: MemoryStore = createMemoryStore()): Repositories => ({
+  auth: createMemoryAuthRepository(store),
+  authTokens: createMemoryAuthTokenRepository(store),
+  bookmarks: createMemoryBookmarkRepository(store),
+  chapters: createMemoryChapterRepository(store),
+  collections: createMemoryCollectionRepository(store),
+  collectionItems: createMemoryCollectionItemRepository(store),
+  comments: createMemoryCommentRepository(store),
+  commentReactions: createMemoryCommentReactionRepository(store),
+  commentReports: createMemoryCommentReportRepository(store),
+  commentRevisions: createMemoryCommentRevisionRepository(store),
+  follows: createMemoryFollowRepository(store),
+  notifications: createMemoryNotificationRepository(store),
+  profiles: createMemoryProfileRepository(store),
+  readingHistory: createMemoryReadingHistoryRepository(store),
+  sessions: createMemorySessionRepository(store),
+  statusTransitions: createMemoryStatusTransitionRepository(store),
+  storage: createMemoryStorageRepository(store),
+  userBlocks: createMemoryUserBlockRepository(store),
+  usernames: createMemoryUsernameRepository(store),
+})
@@ -0,0 +1,49 @@
+import type { Notification } from "../../types/notification.types"
+import type { NotificationRepository } from "../types"
+import { compareBy, copy, newId, notFound, now, ok, type MemoryStore } from "./store"
+
+export const createMemoryNotificationRepository = (store: MemoryStore): NotificationRepository => ({
+  async createMany(notifications) {
+    const timestamp = now()
+    const created: Notification[] = notifications.map((notification) => ({
+      ...copy(notification),
+      id: newId(),
+      read_at: null,
+      created_at: timestamp,
+    }))
+    store.notifications.push(...created)
+    return ok(created)
+  },
+
+  async list(userId, { offset, limit, unreadOnly }) {
+    const rows = store.notifications
+      .filter((row) => row.user_id === userId)
+      .filter((row) => !unreadOnly || !row.read_at)
+      .sort(compareBy("created_at", false))
+
+    return { ...ok(rows.slice(offset, offset + limit)), count: rows.length }
+  },
+
+  async countUnread(userId) {
+    return ok(store.notifications.filter((row) => row.user_id === userId && !row.read_at).length)
+  },
+
+  async markRead(userId, id) {
+    const notification = store.notifications.find((row) => row.id === id && row.user_id === userId)
+    if (!notification) return notFound()
+
+    notification.read_at = notification.read_at || now()
+    return ok(notification)
+  },
+
+  async markAllRead(userId) {
+    const timestamp = now()
+    store.notifications
+      .filter((row) => row.user_id === userId && !row.read_at)
+      .forEach((row) => {
+        row.read_at = timestamp
+      })
+
+    return ok(null)
+  },
+})
@@ -0,0 +1,58 @@
+import type { UserProfile } from "../../types"
+import { UNIQUE_VIOLATION_CODE, type ProfileRepository } from "../types"
+import { compareBy, copy, definedFields, failure, notFound, now, ok, type MemoryStore } from "./store"
+
+export const createMemoryProfileRepository = (store: MemoryStore): ProfileRepository => ({
+  async findById(id) {
+    const profile = store.profiles.find((row) => row.id === id)
+    return profile ? ok(profile) : notFound()
+  },
+
+  async search({ offset, limit, search, role, status }) {
+    const term = search?.toLowerCase()
+    const rows = store.profiles
+      .filter(
+        (row) =>
+          !term || row.username?.toLowerCase().includes(term) || row.email?.toLowerCase().includes(term),
+      )
+      .filter((row) => !role || (row.role || "user") === role)
+      .filter((row) => !status || (row.status || "active") === status)
+      .sort(compareBy("created_at", false))
+
+    return { ...ok(rows.slice(offset, offset + limit)), count: rows.length }
+  },
+
+  async findManyByIds(ids) {
+    return ok(store.profiles.filter((row) => ids.includes(row.id)))
+  },
+
+  async findManyByUsernames(usernames) {
+    const wanted = usernames.map((username) => username.toLowerCase())
+    return ok(store.profiles.filter((row) => row.username && wanted.includes(row.username.toLowerCase())))
+  },
+
+  async create(profile) {
+    if (store.profiles.some((row) => row.id === profile.id)) {
+      return failure('duplicate key value violates unique constraint "profiles_pkey"', UNIQUE_VIOLATION_CODE)
+    }
+
+    const timestamp = now()
+    const created = {
+      role: "user",
+      status: "active",
+      created_at: timestamp,
+      updated_at: timestamp,
+      ...copy(profile),
+    } as UserProfile
+    store.profiles.push(created)
+    return ok(created)
+  },
+
+  async update(id, changes) {
+    const profile = store.profiles.find((row) => row.id === id)
+    if (!profile) return notFound()
+
+    Object.assign(profile, copy(definedFields(changes)))
+    return ok(profile)
+  },
+})
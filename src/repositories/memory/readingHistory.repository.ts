@@ -0,0 +1,70 @@
+import type { ReadingHistoryEntry } from "../../types/history.types"
+import type { MangaReadingSpan } from "../../types/stats.types"
+import type { ReadingHistoryRepository } from "../types"
+import { compareBy, copy, newId, notFound, now, ok, type MemoryStore } from "./store"
+
+export const createMemoryReadingHistoryRepository = (store: MemoryStore): ReadingHistoryRepository => ({
+  async create(entry) {
+    const readAt = now()
+    const created: ReadingHistoryEntry = { ...copy(entry), id: newId(), read_at: readAt, read_on: readAt.slice(0, 10) }
+    store.readingHistory.push(created)
+    return ok(created)
+  },
+
+  async list(userId, { offset, limit, mangaId, from, to }) {
+    const rows = store.readingHistory
+      .filter((row) => row.user_id === userId)
+      .filter((row) => !mangaId || row.manga_id === mangaId)
+      .filter((row) => !from || row.read_at >= from)
+      .filter((row) => !to || row.read_at <= to)
+      .sort(compareBy("read_at", false))
+
+    return { ...ok(rows.slice(offset, offset + limit)), count: rows.length }
+  },
+
+  async findById(userId, id) {
+    const entry = store.readingHistory.find((row) => row.id === id && row.user_id === userId)
+    return entry ? ok(entry) : notFound()
+  },
+
+  async remove(userId, id) {
+    store.readingHistory = store.readingHistory.filter((row) => !(row.id === id && row.user_id === userId))
+    return ok(null)
+  },
+
+  async clear(userId, mangaId) {
+    const matches = (row: ReadingHistoryEntry) => row.user_id === userId && (!mangaId || row.manga_id === mangaId)
+    const removed = store.readingHistory.filter(matches).length
+    store.readingHistory = store.readingHistory.filter((row) => !matches(row))
+    return ok(removed)
+  },
+
+  async countByDay(userId) {
+    const counts = new Map<string, number>()
+    store.readingHistory
+      .filter((row) => row.user_id === userId)
+      .forEach((row) => counts.set(row.read_on, (counts.get(row.read_on) || 0) + 1))
+    return ok([...counts].map(([day, count]) => ({ day, count })).sort(compareBy("day", true)))
+  },
+
+  async spanByCompletedManga(userId) {
+    const completed = new Set(
+      store.bookmarks
+        .filter((bookmark) => bookmark.user_id === userId && bookmark.reading_status === "completed")
+        .map((bookmark) => bookmark.manga_id),
+    )
+    const spans = new Map<string, MangaReadingSpan>()
+    store.readingHistory
+      .filter((row) => row.user_id === userId && completed.has(row.manga_id))
+      .forEach((row) => {
+        const span = spans.get(row.manga_id)
+        if (!span) {
+          spans.set(row.manga_id, { manga_id: row.manga_id, first_read_at: row.read_at, last_read_at: row.read_at })
+        } else {
+          if (row.read_at < span.first_read_at) span.first_read_at = row.read_at
+          if (row.read_at > span.last_read_at) span.last_read_at = row.read_at
+        }
+      })
+    return ok([...spans.values()])
+  },
+})
@@ -0,0 +1,60 @@
+import type { Session } from "../../types/auth.types"
+import type { SessionRepository } from "../types"
+import { compareBy, copy, definedFields, notFound, now, ok, type MemoryStore } from "./store"
+
+export const createMemorySessionRepository = (store: MemoryStore): SessionRepository => ({
+  async create(session) {
+    const timestamp = now()
+    const created: Session = {
+      ...copy(session),
+      created_at: timestamp,
+      last_used_at: timestamp,
+      revoked_at: null,
+    }
+    store.sessions.push(created)
+    return ok(created)
+  },
+
+  async findById(id) {
+    const session = store.sessions.find((row) => row.id === id)
+    return session ? ok(session) : notFound()
+  },
+
+  async listActiveByUser(userId) {
+    const timestamp = now()
+    const rows = store.sessions
+      .filter((row) => row.user_id === userId && !row.revoked_at && row.expires_at > timestamp)
+      .sort(compareBy("last_used_at", false))
+
+    return ok(rows)
+  },
+
+  async update(id, changes) {
+    const session = store.sessions.find((row) => row.id === id)
+    if (!session) return notFound()
+
+    Object.assign(session, copy(definedFields(changes)))
+    return ok(session)
+  },
+
+  async rotate(id, refreshTokenHash, changes) {
+    const session = store.sessions.find(
+      (row) => row.id === id && row.refresh_token_hash === refreshTokenHash && !row.revoked_at,
+    )
+    if (!session) return ok(null)
+
+    Object.assign(session, copy(definedFields(changes)))
+    return ok(session)
+  },
+
+  async revokeAllForUser(userId, exceptSessionId) {
+    const timestamp = now()
+    store.sessions
+      .filter((row) => row.user_id === userId && row.id !== exceptSessionId && !row.revoked_at)
+      .forEach((row) => {
+        row.revoked_at = timestamp
+      })
+
+    return ok(null)
+  },
+})
@@ -0,0 +1,33 @@
+import type { StatusTransition } from "../../types/bookmark.types"
+import type { StatusTransitionRepository } from "../types"
+import { compareBy, copy, newId, now, ok, type MemoryStore } from "./store"
+
+export const createMemoryStatusTransitionRepository = (store: MemoryStore): StatusTransitionRepository => ({
+  async createMany(transitions) {
+    const timestamp = now()
+    const created: StatusTransition[] = transitions.map((transition) => ({
+      ...copy(transition),
+      id: newId(),
+      created_at: timestamp,
+    }))
+    store.statusTransitions.push(...created)
+    return ok(created)
+  },
+
+  async listByBookmark(userId, bookmarkId) {
+    return ok(
+      store.statusTransitions
+        .filter((row) => row.user_id === userId && row.bookmark_id === bookmarkId)
+        .sort(compareBy("created_at", false)),
+    )
+  },
+
+  async listByUsers(userIds, { before, limit }) {
+    return ok(
+      store.statusTransitions
+        .filter((row) => userIds.includes(row.user_id) && (!before || row.created_at <= before))
+        .sort(compareBy("created_at", false))
+        .slice(0, limit),
+    )
+  },
+})
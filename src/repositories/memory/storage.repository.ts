@@ -0,0 +1,20 @@
+import type { StorageRepository } from "../types"
+import { ok, type MemoryStore } from "./store"
+
+const fileKey = (bucket: string, path: string) => `${bucket}/${path}`
+
+export const createMemoryStorageRepository = (store: MemoryStore): StorageRepository => ({
+  async upload(bucket, path, body, contentType) {
+    store.files.set(fileKey(bucket, path), { body: Buffer.from(body), contentType })
+    return ok({ path })
+  },
+
+  getPublicUrl(bucket, path) {
+    return `memory://${fileKey(bucket, path)}`
+  },
+
+  async remove(bucket, paths) {
+    paths.forEach((path) => store.files.delete(fileKey(bucket, path)))
+    return ok(null)
+  },
+})
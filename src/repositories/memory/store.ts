@@ -0,0 +1,103 @@
+import { randomUUID } from "crypto"
+import type { Bookmark, StatusTransition } from "../../types/bookmark.types"
+import type { ChapterRecord } from "../../types/chapter.types"
+import type { Collection, CollectionItem } from "../../types/collection.types"
+import type { ReadingHistoryEntry } from "../../types/history.types"
+import type { CommentReaction, CommentRecord, CommentReport, CommentRevision } from "../../types/comment.types"
+import type { UserProfile } from "../../types"
+import type { Notification } from "../../types/notification.types"
+import type { Follow, UserBlock } from "../../types/social.types"
+import type { UsernameClaim } from "../../types/username.types"
+import type { AuthToken, Session } from "../../types/auth.types"
+import { NOT_FOUND_CODE, type AuthUser, type DataResult } from "../types"
+
+export interface MemoryUser extends AuthUser {
+  email: string
+  password_hash: string
+  created_at: string
+}
+
+export interface StoredFile {
+  body: Buffer
+  contentType: string
+}
+
+// Plain arrays standing in for the Supabase tables; one store is shared by
+// every memory repository so cross-table lookups see the same data.
+export interface MemoryStore {
+  users: MemoryUser[]
+  bookmarks: Bookmark[]
+  chapters: ChapterRecord[]
+  collections: Collection[]
+  collectionItems: CollectionItem[]
+  comments: CommentRecord[]
+  commentReactions: CommentReaction[]
+  commentReports: CommentReport[]
+  commentRevisions: CommentRevision[]
+  follows: Follow[]
+  notifications: Notification[]
+  profiles: UserProfile[]
+  readingHistory: ReadingHistoryEntry[]
+  sessions: Session[]
+  statusTransitions: StatusTransition[]
+  userBlocks: UserBlock[]
+  usernames: UsernameClaim[]
+  authTokens: AuthToken[]
+  files: Map<string, StoredFile>
+}
+
+export const createMemoryStore = (): MemoryStore => ({
+  users: [],
+  bookmarks: [],
+  chapters: [],
+  collections: [],
+  collectionItems: [],
+  comments: [],
+  commentReactions: [],
+  commentReports: [],
+  commentRevisions: [],
+  follows: [],
+  notifications: [],
+  profiles: [],
+  readingHistory: [],
+  sessions: [],
+  statusTransitions: [],
+  userBlocks: [],
+  usernames: [],
+  authTokens: [],
+  files: new Map(),
+})
+
+export const newId = (): string => randomUUID()
+
+export const now = (): string => new Date().toISOString()
+
+// Rows are copied on the way in and out so callers can't mutate the store
+export const copy = <T>(value: T): T => structuredClone(value)
+
+// The Supabase client sends rows as JSON, which leaves out undefined fields;
+// updates drop them the same way so they don't erase stored values
+export const definedFields = <T extends object>(changes: T): Partial<T> =>
+  Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined)) as Partial<T>
+
+export const ok = <T>(data: T): DataResult<T> => ({ data: copy(data), error: null })
+
+export const notFound = <T>(): DataResult<T> => ({
+  data: null,
+  error: { message: "JSON object requested, multiple (or no) rows returned", code: NOT_FOUND_CODE },
+})
+
+export const failure = <T>(message: string, code?: string): DataResult<T> => ({
+  data: null,
+  error: { message, code },
+})
+
+export const compareBy = <T>(field: string, ascending: boolean) => (a: T, b: T): number => {
+  const left = (a as any)[field]
+  const right = (b as any)[field]
+  if (left === right) return 0
+  if (left === undefined || left === null) return 1
+  if (right === undefined || right === null) return -1
+  const result = left < right ? -1 : 1
+  return ascending ? result : -result
+}
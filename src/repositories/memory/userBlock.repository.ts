@@ -0,0 +1,36 @@
+import type { BlockKind, UserBlock } from "../../types/social.types"
+import { UNIQUE_VIOLATION_CODE, type UserBlockRepository } from "../types"
+import { compareBy, failure, now, ok, type MemoryStore } from "./store"
+
+const matches = (userId: string, targetId: string, kind: BlockKind) => (row: UserBlock) =>
+  row.user_id === userId && row.target_id === targetId && row.kind === kind
+
+export const createMemoryUserBlockRepository = (store: MemoryStore): UserBlockRepository => ({
+  async create(userId, targetId, kind) {
+    if (store.userBlocks.some(matches(userId, targetId, kind))) {
+      return failure('duplicate key value violates unique constraint "user_blocks_pkey"', UNIQUE_VIOLATION_CODE)
+    }
+
+    const created: UserBlock = { user_id: userId, target_id: targetId, kind, created_at: now() }
+    store.userBlocks.push(created)
+    return ok(created)
+  },
+
+  async remove(userId, targetId, kind) {
+    const removed = store.userBlocks.some(matches(userId, targetId, kind))
+    store.userBlocks = store.userBlocks.filter((row) => !matches(userId, targetId, kind)(row))
+    return ok(removed)
+  },
+
+  async listByUser(userId, kind) {
+    return ok(
+      store.userBlocks
+        .filter((row) => row.user_id === userId && (!kind || row.kind === kind))
+        .sort(compareBy("created_at", false)),
+    )
+  },
+
+  async listAgainst(targetId, userIds) {
+    return ok(store.userBlocks.filter((row) => row.target_id === targetId && userIds.includes(row.user_id)))
+  },
+})
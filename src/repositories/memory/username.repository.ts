@@ -0,0 +1,57 @@
+import type { UsernameClaim } from "../../types/username.types"
+import { UNIQUE_VIOLATION_CODE, type UsernameRepository } from "../types"
+import { compareBy, failure, newId, now, ok, type MemoryStore } from "./store"
+
+export const createMemoryUsernameRepository = (store: MemoryStore): UsernameRepository => ({
+  async claim(userId, username) {
+    const key = username.toLowerCase()
+    const held = store.usernames.some(
+      (row) => row.username_key === key && !row.released_at && row.user_id !== userId,
+    )
+    if (held) {
+      return failure(
+        'duplicate key value violates unique constraint "usernames_current_key_idx"',
+        UNIQUE_VIOLATION_CODE,
+      )
+    }
+
+    const timestamp = now()
+    store.usernames
+      .filter((row) => row.user_id === userId && !row.released_at)
+      .forEach((row) => {
+        row.released_at = timestamp
+      })
+
+    const created: UsernameClaim = {
+      id: newId(),
+      user_id: userId,
+      username,
+      username_key: key,
+      claimed_at: timestamp,
+      released_at: null,
+    }
+    store.usernames.push(created)
+
+    const profile = store.profiles.find((row) => row.id === userId)
+    if (profile) {
+      profile.username = username
+      profile.updated_at = timestamp
+    }
+    store.bookmarks
+      .filter((bookmark) => bookmark.user_id === userId)
+      .forEach((bookmark) => {
+        bookmark.username = username
+      })
+
+    return ok(created)
+  },
+
+  async listByName(username) {
+    const key = username.toLowerCase()
+    return ok(store.usernames.filter((row) => row.username_key === key).sort(compareBy("claimed_at", false)))
+  },
+
+  async listByUser(userId) {
+    return ok(store.usernames.filter((row) => row.user_id === userId).sort(compareBy("claimed_at", false)))
+  },
+})
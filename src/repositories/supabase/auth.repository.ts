@@ -0,0 +1,72 @@
+import type { SupabaseClient, User } from "@supabase/supabase-js"
+import type { AuthRepository, AuthUser } from "../types"
+import { escapeLike } from "./filters"
+
+const toAuthUser = (user: User | null): AuthUser | null =>
+  user
+    ? {
+        id: user.id,
+        email: user.email,
+        user_metadata: user.user_metadata || {},
+        email_confirmed_at: user.email_confirmed_at || null,
+      }
+    : null
+
+// `client` is the anon client used for end-user auth calls, `admin` the
+// service-role client needed for user lookups and updates by id.
+export const createSupabaseAuthRepository = (client: SupabaseClient, admin: SupabaseClient): AuthRepository => ({
+  async signUp(email, password, metadata) {
+    const { data, error } = await client.auth.signUp({
+      email,
+      password,
+      options: {
+        data: metadata,
+      },
+    })
+
+    return { data: toAuthUser(data.user), error }
+  },
+
+  async signInWithPassword(email, password) {
+    const { data, error } = await client.auth.signInWithPassword({
+      email,
+      password,
+    })
+
+    return { data: toAuthUser(data.user), error }
+  },
+
+  async getUserById(id) {
+    const { data, error } = await admin.auth.admin.getUserById(id)
+    return { data: toAuthUser(data.user), error }
+  },
+
+  // The admin API has no lookup by email, so resolve the id through profiles.
+  // ilike keeps the match case-insensitive; its wildcards are escaped since
+  // valid addresses can contain _ and %
+  async findUserByEmail(email) {
+    const { data: profile, error } = await admin
+      .from("profiles")
+      .select("id")
+      .ilike("email", escapeLike(email))
+      .single()
+
+    if (error || !profile) return { data: null, error }
+    return this.getUserById(profile.id)
+  },
+
+  async updatePassword(id, password) {
+    const { data, error } = await admin.auth.admin.updateUserById(id, { password })
+    return { data: toAuthUser(data.user), error }
+  },
+
+  async confirmEmail(id) {
+    const { data, error } = await admin.auth.admin.updateUserById(id, { email_confirm: true })
+    return { data: toAuthUser(data.user), error }
+  },
+
+  async deleteUser(id) {
+    const { error } = await admin.auth.admin.deleteUser(id)
+    return { data: null, error }
+  },
+})
@@ -0,0 +1,36 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { AuthTokenRepository } from "../types"
+
+export const createSupabaseAuthTokenRepository = (client: SupabaseClient): AuthTokenRepository => ({
+  async create(token) {
+    return client
+      .from("auth_tokens")
+      .insert(token)
+      .select()
+      .single()
+  },
+
+  async consume(purpose, tokenHash) {
+    const timestamp = new Date().toISOString()
+    return client
+      .from("auth_tokens")
+      .update({ used_at: timestamp })
+      .eq("purpose", purpose)
+      .eq("token_hash", tokenHash)
+      .is("used_at", null)
+      .gt("expires_at", timestamp)
+      .select()
+      .maybeSingle()
+  },
+
+  async invalidateForUser(userId, purpose) {
+    const { error } = await client
+      .from("auth_tokens")
+      .update({ used_at: new Date().toISOString() })
+      .eq("user_id", userId)
+      .eq("purpose", purpose)
+      .is("used_at", null)
+
+    return { data: null, error }
+  },
+})
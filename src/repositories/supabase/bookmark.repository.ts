@@ -0,0 +1,165 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { Bookmark } from "../../types/bookmark.types"
+import type { BookmarkRepository } from "../types"
+import { selectAllPages } from "./pages"
+
+export const createSupabaseBookmarkRepository = (client: SupabaseClient): BookmarkRepository => ({
+  async list(userId, { offset, limit, sort, ascending, readingStatus }) {
+    let query = client
+      .from("bookmarks")
+      .select("*", { count: "exact" })
+      .eq("user_id", userId)
+
+    if (readingStatus) {
+      query = query.eq("reading_status", readingStatus)
+    }
+
+    return query
+      .order(sort, { ascending })
+      .range(offset, offset + limit - 1)
+  },
+
+  async listAllByUser(userId) {
+    return selectAllPages<Bookmark>((from, to) =>
+      client
+        .from("bookmarks")
+        .select("*")
+        .eq("user_id", userId)
+        .order("id")
+        .range(from, to),
+    )
+  },
+
+  async listTrackedMangaHids() {
+    // tracked_manga_hids is deduplicated by the database
+    const { data, error } = await selectAllPages<{ manga_hid: string }>((from, to) =>
+      client
+        .from("tracked_manga_hids")
+        .select("manga_hid")
+        .order("manga_hid")
+        .range(from, to),
+    )
+
+    return { data: data ? data.map((row) => row.manga_hid) : null, error }
+  },
+
+  async findById(userId, id) {
+    return client
+      .from("bookmarks")
+      .select("*")
+      .eq("id", id)
+      .eq("user_id", userId)
+      .single()
+  },
+
+  async findManyByIds(userId, ids) {
+    return client
+      .from("bookmarks")
+      .select("*")
+      .eq("user_id", userId)
+      .in("id", ids)
+  },
+
+  async findByManga(userId, mangaId) {
+    return client
+      .from("bookmarks")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("manga_id", mangaId)
+      .single()
+  },
+
+  async upsert(bookmark) {
+    return client
+      .from("bookmarks")
+      .upsert(bookmark, {
+        onConflict: "user_id,manga_id",
+        ignoreDuplicates: false,
+      })
+      .select()
+      .single()
+  },
+
+  async update(userId, id, changes) {
+    return client
+      .from("bookmarks")
+      .update(changes)
+      .eq("id", id)
+      .eq("user_id", userId)
+      .select()
+      .single()
+  },
+
+  async remove(userId, id) {
+    const { error } = await client
+      .from("bookmarks")
+      .delete()
+      .eq("id", id)
+      .eq("user_id", userId)
+
+    return { data: null, error }
+  },
+
+  async applyWrites(userId, writes) {
+    // apply_bookmark_writes runs the whole list in one transaction
+    return client.rpc("apply_bookmark_writes", { target_user_id: userId, writes })
+  },
+
+  async countByField(userId, field) {
+    // bookmark_counts returns one row per distinct value, counted in the database
+    return client.rpc("bookmark_counts", { target_user_id: userId, field })
+  },
+
+  async listReviews(mangaId, { offset, limit }) {
+    return client
+      .from("bookmarks")
+      .select("*", { count: "exact" })
+      .eq("manga_id", mangaId)
+      .not("review", "is", null)
+      .order("reviewed_at", { ascending: false })
+      .range(offset, offset + limit - 1)
+  },
+
+  async scoreSummary(mangaId) {
+    const { data, error } = await client
+      .rpc("manga_score_summary", { target_manga_id: mangaId })
+      .single()
+      .overrideTypes<{ average: number | null; count: number }, { merge: false }>()
+
+    return {
+      data: data ? { average: data.average === null ? null : Number(data.average), count: Number(data.count) } : null,
+      error,
+    }
+  },
+
+  async listAddedByUsers(userIds, { before, limit }) {
+    let query = client
+      .from("bookmarks")
+      .select("*")
+      .in("user_id", userIds)
+
+    if (before) {
+      query = query.lte("created_at", before)
+    }
+
+    return query
+      .order("created_at", { ascending: false })
+      .limit(limit)
+  },
+
+  async listReviewedByUsers(userIds, { before, limit }) {
+    let query = client
+      .from("bookmarks")
+      .select("*")
+      .in("user_id", userIds)
+      .not("review", "is", null)
+
+    if (before) {
+      query = query.lte("reviewed_at", before)
+    }
+
+    return query
+      .order("reviewed_at", { ascending: false })
+      .limit(limit)
+  },
+})
@@ -0,0 +1,33 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { ChapterRepository } from "../types"
+
+export const createSupabaseChapterRepository = (client: SupabaseClient): ChapterRepository => ({
+  async insertNew(chapters) {
+    return client
+      .from("manga_chapters")
+      .upsert(chapters, { onConflict: "manga_hid,chapter_hid", ignoreDuplicates: true })
+      .select()
+  },
+
+  async latestChapterNumber(mangaHid) {
+    // Served by manga_chapters_number_idx on the generated chapter_number column
+    const { data, error } = await client
+      .from("manga_chapters")
+      .select("chapter_number")
+      .eq("manga_hid", mangaHid)
+      .not("chapter_number", "is", null)
+      .order("chapter_number", { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    return { data: data ? Number(data.chapter_number) : null, error }
+  },
+
+  async listBookmarkUpdates(userId, { offset, limit }) {
+    // bookmark_updates compares chapter numbers and picks each manga's latest
+    // unread chapter in the database, so only the requested page is returned
+    return client
+      .rpc("bookmark_updates", { target_user_id: userId }, { count: "exact" })
+      .range(offset, offset + limit - 1)
+  },
+})
@@ -0,0 +1,57 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { CollectionRepository } from "../types"
+
+export const createSupabaseCollectionRepository = (client: SupabaseClient): CollectionRepository => ({
+  async listByUser(userId) {
+    return client
+      .from("collections")
+      .select("*")
+      .eq("user_id", userId)
+      .order("updated_at", { ascending: false })
+  },
+
+  async findById(userId, id) {
+    return client
+      .from("collections")
+      .select("*")
+      .eq("id", id)
+      .eq("user_id", userId)
+      .single()
+  },
+
+  async findBySlug(slug) {
+    return client
+      .from("collections")
+      .select("*")
+      .eq("slug", slug)
+      .single()
+  },
+
+  async create(collection) {
+    return client
+      .from("collections")
+      .insert(collection)
+      .select()
+      .single()
+  },
+
+  async update(userId, id, changes) {
+    return client
+      .from("collections")
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .eq("user_id", userId)
+      .select()
+      .single()
+  },
+
+  async remove(userId, id) {
+    const { error } = await client
+      .from("collections")
+      .delete()
+      .eq("id", id)
+      .eq("user_id", userId)
+
+    return { data: null, error }
+  },
+})
@@ -0,0 +1,47 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { CollectionItemRepository } from "../types"
+
+export const createSupabaseCollectionItemRepository = (client: SupabaseClient): CollectionItemRepository => ({
+  async listByCollection(collectionId) {
+    return client
+      .from("collection_items")
+      .select("*")
+      .eq("collection_id", collectionId)
+      .order("position", { ascending: true })
+  },
+
+  async listByCollections(collectionIds) {
+    return client
+      .from("collection_items")
+      .select("*")
+      .in("collection_id", collectionIds)
+  },
+
+  async add(collectionId, bookmarkId) {
+    // add_collection_item locks the collection while it picks the next position
+    return client
+      .rpc("add_collection_item", { target_collection_id: collectionId, target_bookmark_id: bookmarkId })
+      .single()
+  },
+
+  async remove(collectionId, bookmarkId) {
+    const { error } = await client
+      .from("collection_items")
+      .delete()
+      .eq("collection_id", collectionId)
+      .eq("bookmark_id", bookmarkId)
+
+    return { data: null, error }
+  },
+
+  async reorder(collectionId, bookmarkIds) {
+    const { error } = await client
+      .from("collection_items")
+      .upsert(
+        bookmarkIds.map((bookmarkId, position) => ({ collection_id: collectionId, bookmark_id: bookmarkId, position })),
+        { onConflict: "collection_id,bookmark_id" },
+      )
+
+    return { data: null, error }
+  },
+})
@@ -0,0 +1,153 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { CommentCursor, CommentSort } from "../../types/comment.types"
+import type { CommentRepository } from "../types"
+
+const COMMENT_COLUMNS = `
+  id,
+  user_id,
+  manga_id,
+  chapter_hid,
+  content,
+  content_parsed,
+  parent_id,
+  root_id,
+  depth,
+  score,
+  edited_at,
+  deleted_at,
+  deleted_by,
+  hidden_at,
+  hidden_by,
+  created_at,
+  updated_at
+`
+
+// PostgREST `or` filter selecting rows that sort after the cursor
+const keysetFilter = (sort: CommentSort, { score, created_at, id }: CommentCursor): string => {
+  const op = sort === "old" ? "gt" : "lt"
+  const createdAt = `"${created_at}"`
+
+  if (sort === "top") {
+    return [
+      `score.lt.${score}`,
+      `and(score.eq.${score},created_at.lt.${createdAt})`,
+      `and(score.eq.${score},created_at.eq.${createdAt},id.lt.${id})`,
+    ].join(",")
+  }
+
+  return [`created_at.${op}.${createdAt}`, `and(created_at.eq.${createdAt},id.${op}.${id})`].join(",")
+}
+
+export const createSupabaseCommentRepository = (client: SupabaseClient): CommentRepository => ({
+  async listTopLevel(mangaId, chapterHid, { sort, limit, after, excludeUserIds }) {
+    let query = client
+      .from("comments")
+      .select(COMMENT_COLUMNS)
+      .eq("manga_id", mangaId)
+      .eq("chapter_hid", chapterHid)
+      .is("parent_id", null)
+
+    if (after) {
+      query = query.or(keysetFilter(sort, after))
+    }
+    if (excludeUserIds && excludeUserIds.length > 0) {
+      query = query.not("user_id", "in", `(${excludeUserIds.join(",")})`)
+    }
+
+    const ascending = sort === "old"
+    if (sort === "top") {
+      query = query.order("score", { ascending: false })
+    }
+
+    return query
+      .order("created_at", { ascending })
+      .order("id", { ascending })
+      .limit(limit)
+  },
+
+  async listByRoots(rootIds) {
+    return client
+      .from("comments")
+      .select(COMMENT_COLUMNS)
+      .in("root_id", rootIds)
+      .order("created_at", { ascending: true })
+  },
+
+  async findById(id) {
+    return client
+      .from("comments")
+      .select(COMMENT_COLUMNS)
+      .eq("id", id)
+      .single()
+  },
+
+  async findManyByIds(ids) {
+    return client
+      .from("comments")
+      .select(COMMENT_COLUMNS)
+      .in("id", ids)
+  },
+
+  async countReplies(parentId) {
+    const { count, error } = await client
+      .from("comments")
+      .select("id", { count: "exact", head: true })
+      .eq("parent_id", parentId)
+
+    return { data: count ?? 0, error }
+  },
+
+  async countVisibleByUser(userId) {
+    const { count, error } = await client
+      .from("comments")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", userId)
+      .is("deleted_at", null)
+      .is("hidden_at", null)
+
+    return { data: count ?? 0, error }
+  },
+
+  async listRecentByUsers(userIds, { before, limit }) {
+    let query = client
+      .from("comments")
+      .select(COMMENT_COLUMNS)
+      .in("user_id", userIds)
+      .is("deleted_at", null)
+      .is("hidden_at", null)
+
+    if (before) {
+      query = query.lte("created_at", before)
+    }
+
+    return query
+      .order("created_at", { ascending: false })
+      .limit(limit)
+  },
+
+  async create(comment) {
+    return client
+      .from("comments")
+      .insert(comment)
+      .select(COMMENT_COLUMNS)
+      .single()
+  },
+
+  async update(id, changes) {
+    return client
+      .from("comments")
+      .update(changes)
+      .eq("id", id)
+      .select(COMMENT_COLUMNS)
+      .single()
+  },
+
+  async remove(id) {
+    const { error } = await client
+      .from("comments")
+      .delete()
+      .eq("id", id)
+
+    return { data: null, error }
+  },
+})
@@ -0,0 +1,37 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { CommentReactionRepository } from "../types"
+
+export const createSupabaseCommentReactionRepository = (client: SupabaseClient): CommentReactionRepository => ({
+  async upsert(reaction) {
+    return client
+      .from("comment_reactions")
+      .upsert(reaction, { onConflict: "comment_id,user_id" })
+      .select()
+      .single()
+  },
+
+  async remove(commentId, userId) {
+    const { error } = await client
+      .from("comment_reactions")
+      .delete()
+      .eq("comment_id", commentId)
+      .eq("user_id", userId)
+
+    return { data: null, error }
+  },
+
+  async countByComments(commentIds) {
+    return client
+      .from("comment_reaction_counts")
+      .select("*")
+      .in("comment_id", commentIds)
+  },
+
+  async listByUser(userId, commentIds) {
+    return client
+      .from("comment_reactions")
+      .select("*")
+      .eq("user_id", userId)
+      .in("comment_id", commentIds)
+  },
+})
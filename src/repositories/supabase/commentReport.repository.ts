@@ -0,0 +1,54 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { CommentReportRepository } from "../types"
+
+export const createSupabaseCommentReportRepository = (client: SupabaseClient): CommentReportRepository => ({
+  async create(report) {
+    return client
+      .from("comment_reports")
+      .insert({ ...report, status: "open" })
+      .select()
+      .single()
+  },
+
+  async countOpenByComment(commentId) {
+    const { count, error } = await client
+      .from("comment_reports")
+      .select("id", { count: "exact", head: true })
+      .eq("comment_id", commentId)
+      .eq("status", "open")
+
+    return { data: count ?? 0, error }
+  },
+
+  async listQueue({ offset, limit }) {
+    // open_report_queue groups open reports by comment
+    return client
+      .from("open_report_queue")
+      .select("*", { count: "exact" })
+      .order("report_count", { ascending: false })
+      .order("first_reported_at", { ascending: true })
+      .range(offset, offset + limit - 1)
+  },
+
+  async listOpenByComments(commentIds) {
+    return client
+      .from("comment_reports")
+      .select("*")
+      .in("comment_id", commentIds)
+      .eq("status", "open")
+      .order("created_at", { ascending: true })
+  },
+
+  async resolveOpenByComment(commentId, resolution) {
+    return client
+      .from("comment_reports")
+      .update({
+        ...resolution,
+        status: "resolved",
+        resolved_at: new Date().toISOString(),
+      })
+      .eq("comment_id", commentId)
+      .eq("status", "open")
+      .select()
+  },
+})
@@ -0,0 +1,20 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { CommentRevisionRepository } from "../types"
+
+export const createSupabaseCommentRevisionRepository = (client: SupabaseClient): CommentRevisionRepository => ({
+  async create(revision) {
+    return client
+      .from("comment_revisions")
+      .insert(revision)
+      .select()
+      .single()
+  },
+
+  async listByComment(commentId) {
+    return client
+      .from("comment_revisions")
+      .select("*")
+      .eq("comment_id", commentId)
+      .order("created_at", { ascending: true })
+  },
+})
@@ -0,0 +1,6 @@
+// Escapes LIKE wildcards so (i)like matches the text literally
+export const escapeLike = (value: string): string => value.replace(/[\\%_]/g, "\\$&")
+
+// Quotes a value inside a PostgREST filter string such as or(), so commas, dots
+// and parentheses in it are taken literally
+export const quoteFilterValue = (value: string): string => `"${value.replace(/["\\]/g, "\\$&")}"`
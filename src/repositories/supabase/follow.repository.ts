@@ -0,0 +1,59 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { FollowRepository } from "../types"
+
+export const createSupabaseFollowRepository = (client: SupabaseClient): FollowRepository => ({
+  async create(followerId, followingId) {
+    return client
+      .from("follows")
+      .insert({ follower_id: followerId, following_id: followingId })
+      .select()
+      .single()
+  },
+
+  async remove(followerId, followingId) {
+    const { error } = await client
+      .from("follows")
+      .delete()
+      .eq("follower_id", followerId)
+      .eq("following_id", followingId)
+
+    return { data: null, error }
+  },
+
+  async exists(followerId, followingId) {
+    const { count, error } = await client
+      .from("follows")
+      .select("follower_id", { count: "exact", head: true })
+      .eq("follower_id", followerId)
+      .eq("following_id", followingId)
+
+    return { data: error ? null : (count ?? 0) > 0, error }
+  },
+
+  async listFollowers(userId, { offset, limit }) {
+    return client
+      .from("follows")
+      .select("*", { count: "exact" })
+      .eq("following_id", userId)
+      .order("created_at", { ascending: false })
+      .range(offset, offset + limit - 1)
+  },
+
+  async listFollowing(userId, { offset, limit }) {
+    return client
+      .from("follows")
+      .select("*", { count: "exact" })
+      .eq("follower_id", userId)
+      .order("created_at", { ascending: false })
+      .range(offset, offset + limit - 1)
+  },
+
+  async listFollowingIds(userId) {
+    const { data, error } = await client
+      .from("follows")
+      .select("following_id")
+      .eq("follower_id", userId)
+
+    return { data: data ? data.map((row) => row.following_id as string) : null, error }
+  },
+})
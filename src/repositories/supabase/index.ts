@@ -0,0 +1,43 @@
+import { supabase, supabaseAdmin } from "../../utils/supabase"
+import type { Repositories } from "../types"
+import { createSupabaseAuthRepository } from "./auth.repository"
+import { createSupabaseAuthTokenRepository } from "./authToken.repository"
+import { createSupabaseBookmarkRepository } from "./bookmark.repository"
+import { createSupabaseChapterRepository } from "./chapter.repository"
+import { createSupabaseCollectionRepository } from "./collection.repository"
+import { createSupabaseCollectionItemRepository } from "./collectionItem.repository"
+import { createSupabaseCommentRepository } from "./comment.repository"
+import { createSupabaseCommentReactionRepository } from "./commentReaction.repository"
+import { createSupabaseCommentReportRepository } from "./commentReport.repository"
+import { createSupabaseCommentRevisionRepository } from "./commentRevision.repository"
+import { createSupabaseFollowRepository } from "./follow.repository"
+import { createSupabaseNotificationRepository } from "./notification.repository"
+import { createSupabaseProfileRepository } from "./profile.repository"
+import { createSupabaseReadingHistoryRepository } from "./readingHistory.repository"
+import { createSupabaseSessionRepository } from "./session.repository"
+import { createSupabaseStatusTransitionRepository } from "./statusTransition.repository"
+import { createSupabaseStorageRepository } from "./storage.repository"
+import { createSupabaseUserBlockRepository } from "./userBlock.repository"
+import { createSupabaseUsernameRepository } from "./username.repository"
+
+export const createSupabaseRepositories = (): Repositories => ({
+  auth: createSupabaseAuthRepository(supabase, supabaseAdmin),
+  authTokens: createSupabaseAuthTokenRepository(supabaseAdmin),
+  bookmarks: createSupabaseBookmarkRepository(supabaseAdmin),
+  chapters: createSupabaseChapterRepository(supabaseAdmin),
+  collections: createSupabaseCollectionRepository(supabaseAdmin),
+  collectionItems: createSupabaseCollectionItemRepository(supabaseAdmin),
+  comments: createSupabaseCommentRepository(supabaseAdmin),
+  commentReactions: createSupabaseCommentReactionRepository(supabaseAdmin),
+  commentReports: createSupabaseCommentReportRepository(supabaseAdmin),
+  commentRevisions: createSupabaseCommentRevisionRepository(supabaseAdmin),
+  follows: createSupabaseFollowRepository(supabaseAdmin),
+  notifications: createSupabaseNotificationRepository(supabaseAdmin),
+  profiles: createSupabaseProfileRepository(supabaseAdmin),
+  readingHistory: createSupabaseReadingHistoryRepository(supabaseAdmin),
+  sessions: createSupabaseSessionRepository(supabaseAdmin),
+  statusTransitions: createSupabaseStatusTransitionRepository(supabaseAdmin),
+  storage: createSupabaseStorageRepository(supabaseAdmin),
+  userBlocks: createSupabaseUserBlockRepository(supabaseAdmin),
+  usernames: createSupabaseUsernameRepository(supabaseAdmin),
+})
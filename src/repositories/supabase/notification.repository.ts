@@ -0,0 +1,67 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { NotificationRepository } from "../types"
+
+export const createSupabaseNotificationRepository = (client: SupabaseClient): NotificationRepository => ({
+  async createMany(notifications) {
+    return client
+      .from("notifications")
+      .insert(notifications)
+      .select()
+  },
+
+  async list(userId, { offset, limit, unreadOnly }) {
+    let query = client
+      .from("notifications")
+      .select("*", { count: "exact" })
+      .eq("user_id", userId)
+
+    if (unreadOnly) {
+      query = query.is("read_at", null)
+    }
+
+    return query
+      .order("created_at", { ascending: false })
+      .range(offset, offset + limit - 1)
+  },
+
+  async countUnread(userId) {
+    const { count, error } = await client
+      .from("notifications")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", userId)
+      .is("read_at", null)
+
+    return { data: count ?? 0, error }
+  },
+
+  async markRead(userId, id) {
+    const { data, error } = await client
+      .from("notifications")
+      .select("*")
+      .eq("id", id)
+      .eq("user_id", userId)
+      .single()
+
+    if (error || !data || data.read_at) {
+      return { data, error }
+    }
+
+    return client
+      .from("notifications")
+      .update({ read_at: new Date().toISOString() })
+      .eq("id", id)
+      .eq("user_id", userId)
+      .select()
+      .single()
+  },
+
+  async markAllRead(userId) {
+    const { error } = await client
+      .from("notifications")
+      .update({ read_at: new Date().toISOString() })
+      .eq("user_id", userId)
+      .is("read_at", null)
+
+    return { data: null, error }
+  },
+})
@@ -0,0 +1,24 @@
+import type { DataError, DataResult } from "../types"
+
+// PostgREST's default max-rows: no single request returns more
+const PAGE_SIZE = 1000
+
+// Reads every row of a query a page at a time. The query must be ordered on a
+// unique key so pages neither overlap nor skip rows.
+export const selectAllPages = async <T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: DataError | null }>,
+): Promise<DataResult<T[]>> => {
+  const rows: T[] = []
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1)
+    if (error) {
+      return { data: null, error }
+    }
+
+    rows.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) {
+      return { data: rows, error: null }
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { ProfileRepository } from "../types"
+import { escapeLike, quoteFilterValue } from "./filters"
+
+export const createSupabaseProfileRepository = (client: SupabaseClient): ProfileRepository => ({
+  async findById(id) {
+    return client
+      .from("profiles")
+      .select("*")
+      .eq("id", id)
+      .single()
+  },
+
+  async search({ offset, limit, search, role, status }) {
+    let query = client
+      .from("profiles")
+      .select("*", { count: "exact" })
+
+    if (search) {
+      // PostgREST reads * in like patterns as a wildcard and has no escape for it,
+      // so it is dropped; everything else matches literally
+      const pattern = quoteFilterValue(`%${escapeLike(search.replace(/\*/g, ""))}%`)
+      query = query.or(`username.ilike.${pattern},email.ilike.${pattern}`)
+    }
+    if (role) {
+      query = query.eq("role", role)
+    }
+    if (status) {
+      query = query.eq("status", status)
+    }
+
+    return query
+      .order("created_at", { ascending: false })
+      .range(offset, offset + limit - 1)
+  },
+
+  async findManyByIds(ids) {
+    return client
+      .from("profiles")
+      .select("*")
+      .in("id", ids)
+  },
+
+  async findManyByUsernames(usernames) {
+    // Usernames are limited to letters, digits and underscores; underscores
+    // are escaped so ilike matches them literally
+    const filters = usernames.map((username) => `username.ilike.${quoteFilterValue(escapeLike(username))}`)
+    return client
+      .from("profiles")
+      .select("*")
+      .or(filters.join(","))
+  },
+
+  async create(profile) {
+    return client
+      .from("profiles")
+      .insert(profile)
+      .select()
+      .single()
+  },
+
+  async update(id, changes) {
+    return client
+      .from("profiles")
+      .update(changes)
+      .eq("id", id)
+      .select()
+      .single()
+  },
+})
@@ -0,0 +1,76 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { ReadingHistoryRepository } from "../types"
+
+export const createSupabaseReadingHistoryRepository = (client: SupabaseClient): ReadingHistoryRepository => ({
+  async create(entry) {
+    const readAt = new Date().toISOString()
+    return client
+      .from("reading_history")
+      .insert({ ...entry, read_at: readAt, read_on: readAt.slice(0, 10) })
+      .select()
+      .single()
+  },
+
+  async list(userId, { offset, limit, mangaId, from, to }) {
+    let query = client
+      .from("reading_history")
+      .select("*", { count: "exact" })
+      .eq("user_id", userId)
+
+    if (mangaId) {
+      query = query.eq("manga_id", mangaId)
+    }
+    if (from) {
+      query = query.gte("read_at", from)
+    }
+    if (to) {
+      query = query.lte("read_at", to)
+    }
+
+    return query
+      .order("read_at", { ascending: false })
+      .range(offset, offset + limit - 1)
+  },
+
+  async findById(userId, id) {
+    return client
+      .from("reading_history")
+      .select("*")
+      .eq("id", id)
+      .eq("user_id", userId)
+      .single()
+  },
+
+  async remove(userId, id) {
+    const { error } = await client
+      .from("reading_history")
+      .delete()
+      .eq("id", id)
+      .eq("user_id", userId)
+
+    return { data: null, error }
+  },
+
+  async clear(userId, mangaId) {
+    let query = client
+      .from("reading_history")
+      .delete({ count: "exact" })
+      .eq("user_id", userId)
+
+    if (mangaId) {
+      query = query.eq("manga_id", mangaId)
+    }
+
+    const { count, error } = await query
+    return { data: count ?? 0, error }
+  },
+
+  // Both come back as a single JSON array, so max-rows never truncates them
+  async countByDay(userId) {
+    return client.rpc("reading_days", { target_user_id: userId })
+  },
+
+  async spanByCompletedManga(userId) {
+    return client.rpc("completed_reading_spans", { target_user_id: userId })
+  },
+})
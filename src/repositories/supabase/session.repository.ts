@@ -0,0 +1,65 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { SessionRepository } from "../types"
+
+export const createSupabaseSessionRepository = (client: SupabaseClient): SessionRepository => ({
+  async create(session) {
+    return client
+      .from("user_sessions")
+      .insert(session)
+      .select()
+      .single()
+  },
+
+  async findById(id) {
+    return client
+      .from("user_sessions")
+      .select("*")
+      .eq("id", id)
+      .single()
+  },
+
+  async listActiveByUser(userId) {
+    return client
+      .from("user_sessions")
+      .select("*")
+      .eq("user_id", userId)
+      .is("revoked_at", null)
+      .gt("expires_at", new Date().toISOString())
+      .order("last_used_at", { ascending: false })
+  },
+
+  async update(id, changes) {
+    return client
+      .from("user_sessions")
+      .update(changes)
+      .eq("id", id)
+      .select()
+      .single()
+  },
+
+  async rotate(id, refreshTokenHash, changes) {
+    return client
+      .from("user_sessions")
+      .update(changes)
+      .eq("id", id)
+      .eq("refresh_token_hash", refreshTokenHash)
+      .is("revoked_at", null)
+      .select()
+      .maybeSingle()
+  },
+
+  async revokeAllForUser(userId, exceptSessionId) {
+    let query = client
+      .from("user_sessions")
+      .update({ revoked_at: new Date().toISOString() })
+      .eq("user_id", userId)
+      .is("revoked_at", null)
+
+    if (exceptSessionId) {
+      query = query.neq("id", exceptSessionId)
+    }
+
+    const { error } = await query
+    return { data: null, error }
+  },
+})
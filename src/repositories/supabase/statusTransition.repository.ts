@@ -0,0 +1,35 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { StatusTransitionRepository } from "../types"
+
+export const createSupabaseStatusTransitionRepository = (client: SupabaseClient): StatusTransitionRepository => ({
+  async createMany(transitions) {
+    return client
+      .from("bookmark_status_transitions")
+      .insert(transitions)
+      .select()
+  },
+
+  async listByBookmark(userId, bookmarkId) {
+    return client
+      .from("bookmark_status_transitions")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("bookmark_id", bookmarkId)
+      .order("created_at", { ascending: false })
+  },
+
+  async listByUsers(userIds, { before, limit }) {
+    let query = client
+      .from("bookmark_status_transitions")
+      .select("*")
+      .in("user_id", userIds)
+
+    if (before) {
+      query = query.lte("created_at", before)
+    }
+
+    return query
+      .order("created_at", { ascending: false })
+      .limit(limit)
+  },
+})
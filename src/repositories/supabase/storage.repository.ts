@@ -0,0 +1,24 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { StorageRepository } from "../types"
+
+export const createSupabaseStorageRepository = (client: SupabaseClient): StorageRepository => ({
+  async upload(bucket, path, body, contentType) {
+    const { data, error } = await client.storage
+      .from(bucket)
+      .upload(path, body, {
+        contentType,
+        upsert: true,
+      })
+
+    return { data: data ? { path: data.path } : null, error }
+  },
+
+  getPublicUrl(bucket, path) {
+    return client.storage.from(bucket).getPublicUrl(path).data.publicUrl
+  },
+
+  async remove(bucket, paths) {
+    const { error } = await client.storage.from(bucket).remove(paths)
+    return { data: null, error }
+  },
+})
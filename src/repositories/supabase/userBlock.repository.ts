@@ -0,0 +1,48 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { UserBlockRepository } from "../types"
+
+export const createSupabaseUserBlockRepository = (client: SupabaseClient): UserBlockRepository => ({
+  async create(userId, targetId, kind) {
+    return client
+      .from("user_blocks")
+      .insert({ user_id: userId, target_id: targetId, kind })
+      .select()
+      .single()
+  },
+
+  async remove(userId, targetId, kind) {
+    const { count, error } = await client
+      .from("user_blocks")
+      .delete({ count: "exact" })
+      .eq("user_id", userId)
+      .eq("target_id", targetId)
+      .eq("kind", kind)
+
+    return { data: error ? null : (count ?? 0) > 0, error }
+  },
+
+  async listByUser(userId, kind) {
+    let query = client
+      .from("user_blocks")
+      .select("*")
+      .eq("user_id", userId)
+
+    if (kind) {
+      query = query.eq("kind", kind)
+    }
+
+    return query.order("created_at", { ascending: false })
+  },
+
+  async listAgainst(targetId, userIds) {
+    if (userIds.length === 0) {
+      return { data: [], error: null }
+    }
+
+    return client
+      .from("user_blocks")
+      .select("*")
+      .eq("target_id", targetId)
+      .in("user_id", userIds)
+  },
+})
@@ -0,0 +1,29 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { UsernameRepository } from "../types"
+
+export const createSupabaseUsernameRepository = (client: SupabaseClient): UsernameRepository => ({
+  async claim(userId, username) {
+    // claim_username releases the current name, inserts the new claim and updates
+    // the profile and bookmarks in one transaction; the partial unique index
+    // usernames_current_key_idx keeps current names unique regardless of case
+    return client
+      .rpc("claim_username", { target_user_id: userId, new_username: username })
+      .single()
+  },
+
+  async listByName(username) {
+    return client
+      .from("usernames")
+      .select("*")
+      .eq("username_key", username.toLowerCase())
+      .order("claimed_at", { ascending: false })
+  },
+
+  async listByUser(userId) {
+    return client
+      .from("usernames")
+      .select("*")
+      .eq("user_id", userId)
+      .order("claimed_at", { ascending: false })
+  },
+})
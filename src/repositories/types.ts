@@ -0,0 +1,359 @@
+import type { Bookmark, ReadingStatus, StatusTransition } from "../types/bookmark.types"
+import type { BookmarkUpdate, ChapterRecord, FeedChapter } from "../types/chapter.types"
+import type { Collection, CollectionItem } from "../types/collection.types"
+import type { ReadingHistoryEntry } from "../types/history.types"
+import type { DailyCount, GroupCount, MangaReadingSpan } from "../types/stats.types"
+import type { ScoreSummary } from "../types/review.types"
+import type { BlockKind, Follow, UserBlock } from "../types/social.types"
+import type { UsernameClaim } from "../types/username.types"
+import type {
+  CommentCursor,
+  CommentNode,
+  CommentReaction,
+  CommentRecord,
+  CommentReport,
+  CommentRevision,
+  CommentSort,
+  ReactionCount,
+  ReportQueueEntry,
+} from "../types/comment.types"
+import type { AccountStatus, UserProfile, UserRole } from "../types"
+import type { NewNotification, Notification } from "../types/notification.types"
+import type { AuthToken, AuthTokenPurpose, NewAuthToken, NewSession, Session } from "../types/auth.types"
+
+// Repositories answer in the same { data, error } shape as the Supabase client,
+// so controllers handle both backends with the same checks.
+export interface DataError {
+  message: string
+  code?: string
+}
+
+export interface DataResult<T> {
+  data: T | null
+  error: DataError | null
+}
+
+export interface CountedResult<T> extends DataResult<T> {
+  count: number | null
+}
+
+// PostgREST code returned by .single() when no row matches
+export const NOT_FOUND_CODE = "PGRST116"
+
+// Postgres unique_violation
+export const UNIQUE_VIOLATION_CODE = "23505"
+
+// Newest-first slice of a user's activity ending at `before` (inclusive)
+export interface ActivityWindow {
+  before?: string
+  limit: number
+}
+
+export interface BookmarkListOptions {
+  offset: number
+  limit: number
+  sort: string
+  ascending: boolean
+  readingStatus?: ReadingStatus
+}
+
+export interface BookmarkRepository {
+  list(userId: string, options: BookmarkListOptions): Promise<CountedResult<Bookmark[]>>
+  // Every bookmark of the user; the Supabase backend reads them in pages past the row cap
+  listAllByUser(userId: string): Promise<DataResult<Bookmark[]>>
+  // Distinct manga_hid values bookmarked by anyone
+  listTrackedMangaHids(): Promise<DataResult<string[]>>
+  findById(userId: string, id: string): Promise<DataResult<Bookmark>>
+  // Those of the ids that belong to the user, in no particular order
+  findManyByIds(userId: string, ids: string[]): Promise<DataResult<Bookmark[]>>
+  findByManga(userId: string, mangaId: string): Promise<DataResult<Bookmark>>
+  upsert(bookmark: Partial<Bookmark>): Promise<DataResult<Bookmark>>
+  update(userId: string, id: string, changes: Partial<Bookmark>): Promise<DataResult<Bookmark>>
+  remove(userId: string, id: string): Promise<DataResult<null>>
+  // Applies the writes in order, all or nothing. Returns the updated rows in the
+  // same order, null for deletes; fails when any bookmark isn't the user's.
+  applyWrites(userId: string, writes: BookmarkWrite[]): Promise<DataResult<(Bookmark | null)[]>>
+  // Number of the user's bookmarks per distinct value of the field, grouped by the database
+  countByField(userId: string, field: BookmarkGroupField): Promise<DataResult<GroupCount[]>>
+  // Bookmarks of the manga with review text, most recently reviewed first
+  listReviews(mangaId: string, options: { offset: number; limit: number }): Promise<CountedResult<Bookmark[]>>
+  scoreSummary(mangaId: string): Promise<DataResult<ScoreSummary>>
+  // Activity feed sources: bookmarks by created_at, reviews by reviewed_at
+  listAddedByUsers(userIds: string[], window: ActivityWindow): Promise<DataResult<Bookmark[]>>
+  listReviewedByUsers(userIds: string[], window: ActivityWindow): Promise<DataResult<Bookmark[]>>
+}
+
+// One step of a bulk change
+export type BookmarkWrite =
+  | { id: string; action: "update"; changes: Partial<Bookmark> }
+  | { id: string; action: "delete" }
+
+export type BookmarkGroupField = "reading_status" | "manga_country" | "manga_status"
+
+export interface ChapterRepository {
+  // Chapters already recorded (same manga_hid and chapter_hid) are skipped;
+  // only newly recorded chapters are returned
+  insertNew(chapters: FeedChapter[]): Promise<DataResult<ChapterRecord[]>>
+  // Highest chapter number recorded for the manga; null when none has a number
+  latestChapterNumber(mangaHid: string): Promise<DataResult<number | null>>
+  // The user's bookmarks with chapters newer than the last one read, most recent
+  // release first; dropped and completed series are left out
+  listBookmarkUpdates(userId: string, options: { offset: number; limit: number }): Promise<CountedResult<BookmarkUpdate[]>>
+}
+
+export interface CollectionRepository {
+  // Most recently updated first
+  listByUser(userId: string): Promise<DataResult<Collection[]>>
+  findById(userId: string, id: string): Promise<DataResult<Collection>>
+  findBySlug(slug: string): Promise<DataResult<Collection>>
+  create(collection: Omit<Collection, "id" | "created_at" | "updated_at">): Promise<DataResult<Collection>>
+  update(userId: string, id: string, changes: Partial<Collection>): Promise<DataResult<Collection>>
+  remove(userId: string, id: string): Promise<DataResult<null>>
+}
+
+export interface CollectionItemRepository {
+  // Ordered by position
+  listByCollection(collectionId: string): Promise<DataResult<CollectionItem[]>>
+  listByCollections(collectionIds: string[]): Promise<DataResult<CollectionItem[]>>
+  // Appends to the end of the collection; fails with UNIQUE_VIOLATION_CODE when the
+  // bookmark is already in it
+  add(collectionId: string, bookmarkId: string): Promise<DataResult<CollectionItem>>
+  remove(collectionId: string, bookmarkId: string): Promise<DataResult<null>>
+  // Sets each item's position to its index in bookmarkIds
+  reorder(collectionId: string, bookmarkIds: string[]): Promise<DataResult<null>>
+}
+
+export interface ReadingHistoryListOptions {
+  offset: number
+  limit: number
+  mangaId?: string
+  // Inclusive bounds on read_at
+  from?: string
+  to?: string
+}
+
+export interface ReadingHistoryRepository {
+  create(entry: Omit<ReadingHistoryEntry, "id" | "read_at" | "read_on">): Promise<DataResult<ReadingHistoryEntry>>
+  // Newest first
+  list(userId: string, options: ReadingHistoryListOptions): Promise<CountedResult<ReadingHistoryEntry[]>>
+  findById(userId: string, id: string): Promise<DataResult<ReadingHistoryEntry>>
+  remove(userId: string, id: string): Promise<DataResult<null>>
+  // Clears all of the user's history, or just one manga's; returns how many entries were removed
+  clear(userId: string, mangaId?: string): Promise<DataResult<number>>
+  // Entries per day that has any, oldest first
+  countByDay(userId: string): Promise<DataResult<DailyCount[]>>
+  // First and last read of each manga the user has completed, among those with history
+  spanByCompletedManga(userId: string): Promise<DataResult<MangaReadingSpan[]>>
+}
+
+export interface NewComment {
+  user_id: string
+  manga_id: string
+  chapter_hid: string
+  content: string
+  content_parsed: CommentNode[]
+  parent_id?: string
+  root_id?: string | null
+  depth: number
+}
+
+export interface TopLevelCommentOptions {
+  sort: CommentSort
+  limit: number
+  // Return only comments that sort after this position
+  after?: CommentCursor
+  // Leave out comments by these authors
+  excludeUserIds?: string[]
+}
+
+export interface CommentRepository {
+  listTopLevel(mangaId: string, chapterHid: string, options: TopLevelCommentOptions): Promise<DataResult<CommentRecord[]>>
+  // Every reply in the given threads, oldest first
+  listByRoots(rootIds: string[]): Promise<DataResult<CommentRecord[]>>
+  findById(id: string): Promise<DataResult<CommentRecord>>
+  findManyByIds(ids: string[]): Promise<DataResult<CommentRecord[]>>
+  countReplies(parentId: string): Promise<DataResult<number>>
+  // Comments the user wrote that are neither deleted nor hidden
+  countVisibleByUser(userId: string): Promise<DataResult<number>>
+  // Neither deleted nor hidden, newest first
+  listRecentByUsers(userIds: string[], window: ActivityWindow): Promise<DataResult<CommentRecord[]>>
+  create(comment: NewComment): Promise<DataResult<CommentRecord>>
+  update(id: string, changes: Partial<CommentRecord>): Promise<DataResult<CommentRecord>>
+  remove(id: string): Promise<DataResult<null>>
+}
+
+export interface CommentRevisionRepository {
+  create(revision: Omit<CommentRevision, "id" | "created_at">): Promise<DataResult<CommentRevision>>
+  // Oldest revision first
+  listByComment(commentId: string): Promise<DataResult<CommentRevision[]>>
+}
+
+// Writes move the comment's score along with them, in the same statement
+export interface CommentReactionRepository {
+  upsert(reaction: Omit<CommentReaction, "created_at">): Promise<DataResult<CommentReaction>>
+  remove(commentId: string, userId: string): Promise<DataResult<null>>
+  // Counted by the database; reactions with no rows are left out
+  countByComments(commentIds: string[]): Promise<DataResult<ReactionCount[]>>
+  // The user's own reactions among the comments
+  listByUser(userId: string, commentIds: string[]): Promise<DataResult<CommentReaction[]>>
+}
+
+export interface CommentReportRepository {
+  // Fails with UNIQUE_VIOLATION_CODE when the reader already reported the comment
+  create(
+    report: Pick<CommentReport, "comment_id" | "reporter_id" | "reason" | "details">
+  ): Promise<DataResult<CommentReport>>
+  countOpenByComment(commentId: string): Promise<DataResult<number>>
+  // Open reports across all comments, oldest first
+  // Comments with open reports, most reported first, then longest waiting
+  listQueue(options: { offset: number; limit: number }): Promise<CountedResult<ReportQueueEntry[]>>
+  // Oldest first
+  listOpenByComments(commentIds: string[]): Promise<DataResult<CommentReport[]>>
+  resolveOpenByComment(
+    commentId: string,
+    resolution: Pick<CommentReport, "action" | "resolved_by" | "resolution_note">
+  ): Promise<DataResult<CommentReport[]>>
+}
+
+export interface UserBlockRepository {
+  // Fails with UNIQUE_VIOLATION_CODE when the same kind already exists for the pair
+  create(userId: string, targetId: string, kind: BlockKind): Promise<DataResult<UserBlock>>
+  // Returns whether a row was removed
+  remove(userId: string, targetId: string, kind: BlockKind): Promise<DataResult<boolean>>
+  // Newest first
+  listByUser(userId: string, kind?: BlockKind): Promise<DataResult<UserBlock[]>>
+  // Rows any of userIds hold against targetId
+  listAgainst(targetId: string, userIds: string[]): Promise<DataResult<UserBlock[]>>
+}
+
+export interface UsernameRepository {
+  // Releases the user's current name, claims the new one and copies it to their
+  // profile and bookmarks, all or nothing. Fails with UNIQUE_VIOLATION_CODE when
+  // the name is already held, regardless of case.
+  claim(userId: string, username: string): Promise<DataResult<UsernameClaim>>
+  // Current and past claims of the name in any case, newest first
+  listByName(username: string): Promise<DataResult<UsernameClaim[]>>
+  // Newest first; the current name, if any, is the one not released
+  listByUser(userId: string): Promise<DataResult<UsernameClaim[]>>
+}
+
+export interface FollowRepository {
+  // Fails with UNIQUE_VIOLATION_CODE when already following
+  create(followerId: string, followingId: string): Promise<DataResult<Follow>>
+  remove(followerId: string, followingId: string): Promise<DataResult<null>>
+  exists(followerId: string, followingId: string): Promise<DataResult<boolean>>
+  // Newest first
+  listFollowers(userId: string, options: { offset: number; limit: number }): Promise<CountedResult<Follow[]>>
+  listFollowing(userId: string, options: { offset: number; limit: number }): Promise<CountedResult<Follow[]>>
+  listFollowingIds(userId: string): Promise<DataResult<string[]>>
+}
+
+export interface NotificationListOptions {
+  offset: number
+  limit: number
+  unreadOnly?: boolean
+}
+
+export interface NotificationRepository {
+  createMany(notifications: NewNotification[]): Promise<DataResult<Notification[]>>
+  // Newest first
+  list(userId: string, options: NotificationListOptions): Promise<CountedResult<Notification[]>>
+  countUnread(userId: string): Promise<DataResult<number>>
+  markRead(userId: string, id: string): Promise<DataResult<Notification>>
+  markAllRead(userId: string): Promise<DataResult<null>>
+}
+
+export interface ProfileSearchOptions {
+  offset: number
+  limit: number
+  // Matched case-insensitively against username and email
+  search?: string
+  role?: UserRole
+  status?: AccountStatus
+}
+
+export interface ProfileRepository {
+  findById(id: string): Promise<DataResult<UserProfile>>
+  search(options: ProfileSearchOptions): Promise<CountedResult<UserProfile[]>>
+  findManyByIds(ids: string[]): Promise<DataResult<UserProfile[]>>
+  // Matched case-insensitively
+  findManyByUsernames(usernames: string[]): Promise<DataResult<UserProfile[]>>
+  create(profile: Partial<UserProfile> & { id: string }): Promise<DataResult<UserProfile>>
+  update(id: string, changes: Partial<UserProfile>): Promise<DataResult<UserProfile>>
+}
+
+export interface StorageRepository {
+  upload(bucket: string, path: string, body: Buffer, contentType: string): Promise<DataResult<{ path: string }>>
+  getPublicUrl(bucket: string, path: string): string
+  remove(bucket: string, paths: string[]): Promise<DataResult<null>>
+}
+
+export interface AuthUser {
+  id: string
+  email?: string
+  user_metadata: Record<string, any>
+  email_confirmed_at?: string | null
+}
+
+export interface AuthRepository {
+  signUp(email: string, password: string, metadata: Record<string, any>): Promise<DataResult<AuthUser>>
+  signInWithPassword(email: string, password: string): Promise<DataResult<AuthUser>>
+  getUserById(id: string): Promise<DataResult<AuthUser>>
+  findUserByEmail(email: string): Promise<DataResult<AuthUser>>
+  updatePassword(id: string, password: string): Promise<DataResult<AuthUser>>
+  confirmEmail(id: string): Promise<DataResult<AuthUser>>
+  // Removes the account; rows that reference the user go with it
+  deleteUser(id: string): Promise<DataResult<null>>
+}
+
+export interface AuthTokenRepository {
+  create(token: NewAuthToken): Promise<DataResult<AuthToken>>
+  // Marks the token used if it is still unused and unexpired, in one conditional
+  // update, and returns it; null when there is no such token, so a token can be
+  // consumed only once even by parallel requests
+  consume(purpose: AuthTokenPurpose, tokenHash: string): Promise<DataResult<AuthToken | null>>
+  // Marks every outstanding token of this purpose as used
+  invalidateForUser(userId: string, purpose: AuthTokenPurpose): Promise<DataResult<null>>
+}
+
+export interface StatusTransitionRepository {
+  createMany(transitions: Omit<StatusTransition, "id" | "created_at">[]): Promise<DataResult<StatusTransition[]>>
+  // Newest first
+  listByBookmark(userId: string, bookmarkId: string): Promise<DataResult<StatusTransition[]>>
+  listByUsers(userIds: string[], window: ActivityWindow): Promise<DataResult<StatusTransition[]>>
+}
+
+export interface SessionRepository {
+  create(session: NewSession): Promise<DataResult<Session>>
+  findById(id: string): Promise<DataResult<Session>>
+  // Sessions that are neither revoked nor expired, most recently used first
+  listActiveByUser(userId: string): Promise<DataResult<Session[]>>
+  update(id: string, changes: Partial<Session>): Promise<DataResult<Session>>
+  // Applies the changes only while the session is unrevoked and still holds
+  // refreshTokenHash, in one conditional update; null when it doesn't, so of two
+  // refreshes racing with the same token only one succeeds
+  rotate(id: string, refreshTokenHash: string, changes: Partial<Session>): Promise<DataResult<Session | null>>
+  revokeAllForUser(userId: string, exceptSessionId?: string): Promise<DataResult<null>>
+}
+
+export interface Repositories {
+  auth: AuthRepository
+  authTokens: AuthTokenRepository
+  bookmarks: BookmarkRepository
+  chapters: ChapterRepository
+  collections: CollectionRepository
+  collectionItems: CollectionItemRepository
+  comments: CommentRepository
+  commentReactions: CommentReactionRepository
+  commentReports: CommentReportRepository
+  commentRevisions: CommentRevisionRepository
+  follows: FollowRepository
+  notifications: NotificationRepository
+  profiles: ProfileRepository
+  readingHistory: ReadingHistoryRepository
+  sessions: SessionRepository
+  statusTransitions: StatusTransitionRepository
+  storage: StorageRepository
+  userBlocks: UserBlockRepository
+  usernames: UsernameRepository
+}
@@ -0,0 +1,91 @@
+import express from "express"
+import { body, param, query } from "express-validator"
+import {
+  listUsers,
+  getUser,
+  suspendUser,
+  banUser,
+  reinstateUser,
+  updateUserRole,
+  deleteAnyComment,
+  ingestChapters,
+} from "../controllers/admin.controller"
+import { getReportQueue, resolveReports } from "../controllers/report.controller"
+import { protect, restrictTo } from "../middleware/auth.middleware"
+import { MODERATION_ACTIONS } from "../types/comment.types"
+
+const router = express.Router()
+
+// All admin routes require a moderator or admin
+router.use(protect, restrictTo("moderator", "admin"))
+
+router.get(
+  "/users",
+  [
+    query("page").optional().isInt({ min: 1 }).withMessage("Page must be a positive integer"),
+    query("limit").optional().isInt({ min: 1, max: 100 }).withMessage("Limit must be between 1 and 100"),
+    query("search").optional().isString().trim(),
+    query("role").optional().isIn(["user", "moderator", "admin"]).withMessage("Invalid role"),
+    query("status").optional().isIn(["active", "suspended", "banned"]).withMessage("Invalid status"),
+  ],
+  listUsers,
+)
+router.get("/users/:id", [param("id").isUUID().withMessage("Invalid user ID")], getUser)
+router.post(
+  "/users/:id/suspend",
+  [
+    param("id").isUUID().withMessage("Invalid user ID"),
+    body("reason").optional().isString().isLength({ max: 500 }).withMessage("Reason must not exceed 500 characters"),
+    body("duration_hours")
+      .optional()
+      .isInt({ min: 1, max: 8760 })
+      .withMessage("Duration must be between 1 and 8760 hours"),
+  ],
+  suspendUser,
+)
+router.post(
+  "/users/:id/ban",
+  [
+    param("id").isUUID().withMessage("Invalid user ID"),
+    body("reason").optional().isString().isLength({ max: 500 }).withMessage("Reason must not exceed 500 characters"),
+  ],
+  banUser,
+)
+router.post("/users/:id/reinstate", [param("id").isUUID().withMessage("Invalid user ID")], reinstateUser)
+router.put(
+  "/users/:id/role",
+  restrictTo("admin"),
+  [
+    param("id").isUUID().withMessage("Invalid user ID"),
+    body("role").isIn(["user", "moderator", "admin"]).withMessage("Invalid role"),
+  ],
+  updateUserRole,
+)
+router.delete("/comments/:id", [param("id").isUUID().withMessage("Invalid comment ID")], deleteAnyComment)
+router.post(
+  "/chapters/ingest",
+  [
+    body("manga_hids").optional().isArray({ min: 1, max: 200 }).withMessage("manga_hids must be a non-empty array"),
+    body("manga_hids.*").isString().notEmpty().withMessage("Each manga_hid must be a string"),
+  ],
+  ingestChapters,
+)
+router.get(
+  "/reports",
+  [
+    query("page").optional().isInt({ min: 1 }).withMessage("Page must be a positive integer"),
+    query("limit").optional().isInt({ min: 1, max: 100 }).withMessage("Limit must be between 1 and 100"),
+  ],
+  getReportQueue,
+)
+router.post(
+  "/reports/:commentId/resolve",
+  [
+    param("commentId").isUUID().withMessage("Invalid comment ID"),
+    body("action").isIn([...MODERATION_ACTIONS]).withMessage("Invalid moderation action"),
+    body("note").optional().isString().isLength({ max: 500 }).withMessage("Note must not exceed 500 characters"),
+  ],
+  resolveReports,
+)
+
+export default router
@@ -1,7 +1,19 @@
 import express from "express"
-import { body } from "express-validator"
-import { register, login, logout } from "../controllers/auth.controller"
+import { body, param } from "express-validator"
+import {
+  register,
+  login,
+  logout,
+  refresh,
+  getSessions,
+  revokeSession,
+  forgotPassword,
+  resetPassword,
+  resendVerification,
+  verifyEmail,
+} from "../controllers/auth.controller"
 import { protect } from "../middleware/auth.middleware"
+import { USERNAME_PATTERN } from "../types/username.types"
 
 const router = express.Router()
 
@@ -10,7 +22,9 @@ router.post(
   [
     body("email").isEmail().withMessage("Please provide a valid email"),
     body("password").isLength({ min: 8 }).withMessage("Password must be at least 8 characters long"),
-    body("username").isLength({ min: 3 }).withMessage("Username must be at least 3 characters long"),
+    body("username")
+      .matches(USERNAME_PATTERN)
+      .withMessage("Username must be 3 to 30 letters, numbers or underscores"),
   ],
   register,
 )
@@ -22,6 +36,41 @@ router.post(
   ],
   login,
 )
+router.post(
+  "/refresh",
+  [body("refresh_token").isString().notEmpty().withMessage("Refresh token is required")],
+  refresh,
+)
 router.post("/logout", protect, logout)
+router.post(
+  "/forgot-password",
+  [body("email").isEmail().withMessage("Please provide a valid email")],
+  forgotPassword,
+)
+router.post(
+  "/reset-password",
+  [
+    body("token").isString().notEmpty().withMessage("Reset token is required"),
+    body("password").isLength({ min: 8 }).withMessage("Password must be at least 8 characters long"),
+  ],
+  resetPassword,
+)
+router.post(
+  "/resend-verification",
+  [body("email").isEmail().withMessage("Please provide a valid email")],
+  resendVerification,
+)
+router.post(
+  "/verify-email",
+  [body("token").isString().notEmpty().withMessage("Verification token is required")],
+  verifyEmail,
+)
+router.get("/sessions", protect, getSessions)
+router.delete(
+  "/sessions/:id",
+  protect,
+  [param("id").isUUID().withMessage("Invalid session ID")],
+  revokeSession,
+)
 
 export default router
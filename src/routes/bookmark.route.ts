@@ -1,5 +1,5 @@
 import express from "express"
-import { body, param } from "express-validator"
+import { body, param, query } from "express-validator"
 import {
   getBookmarks,
   addBookmark,
@@ -7,9 +7,18 @@ import {
   removeBookmark,
   checkBookmark,
   updateReadingProgress,
-  updateReadingStatus  // Add this import
+  updateReadingStatus,  // Add this import
+  updateBookmarkReview,
+  getStatusTransitions,
+  getBookmarkUpdates,
+  exportBookmarks,
+  importBookmarks,
+  importUpload,
+  bulkUpdateBookmarks
 } from "../controllers/bookmark.controller"
 import { protect } from "../middleware/auth.middleware"
+import { EXPORT_FORMATS, IMPORT_FORMATS } from "../utils/bookmarkFormats"
+import { BULK_BOOKMARK_ACTIONS } from "../types/bookmark.types"
 
 const router = express.Router()
 
@@ -19,6 +28,62 @@ router.use(protect)
 // GET /api/bookmarks - Get user's bookmarks
 router.get("/", getBookmarks)
 
+// GET /api/bookmarks/updates - Bookmarks with unread new chapters
+router.get(
+  "/updates",
+  [
+    query("page").optional().isInt({ min: 1 }).withMessage("Page must be a positive integer"),
+    query("limit").optional().isInt({ min: 1, max: 100 }).withMessage("Limit must be between 1 and 100"),
+  ],
+  getBookmarkUpdates
+)
+
+// GET /api/bookmarks/export - Download all bookmarks
+router.get(
+  "/export",
+  [
+    query("format").optional().isIn([...EXPORT_FORMATS]).withMessage("Format must be csv, json or mal"),
+  ],
+  exportBookmarks
+)
+
+// POST /api/bookmarks/import - Import bookmarks from another tracker (multipart "file" field)
+router.post(
+  "/import",
+  importUpload.single("file"),
+  [
+    body("format").optional().isIn([...IMPORT_FORMATS]).withMessage("Format must be csv, json, mal or anilist"),
+    body("content").optional().isString(),
+    body("dry_run").optional().isBoolean().withMessage("dry_run must be true or false"),
+    body("on_conflict").optional().isIn(["skip", "overwrite"]).withMessage("on_conflict must be skip or overwrite"),
+  ],
+  importBookmarks
+)
+
+// POST /api/bookmarks/bulk - Apply several bookmark operations in one request
+router.post(
+  "/bulk",
+  [
+    body("operations").isArray({ min: 1, max: 100 }).withMessage("Operations must be an array of 1 to 100 items"),
+    body("operations.*.action").isIn([...BULK_BOOKMARK_ACTIONS]).withMessage("Invalid bulk action"),
+    body("operations.*.id").isUUID().withMessage("Invalid bookmark ID"),
+    body("operations.*.reading_status")
+      .optional()
+      .isIn(['plan_to_read', 'reading', 'on_hold', 'dropped', 'completed'])
+      .withMessage("Invalid reading status"),
+    body("operations.*").custom((operation) => {
+      if (operation?.action === "update_status" && !operation.reading_status) {
+        throw new Error("update_status requires reading_status")
+      }
+      if (operation?.action === "update_progress" && (!operation.last_read_chapter || !operation.last_read_chapter_hid)) {
+        throw new Error("update_progress requires last_read_chapter and last_read_chapter_hid")
+      }
+      return true
+    }),
+  ],
+  bulkUpdateBookmarks
+)
+
 // POST /api/bookmarks - Add bookmark
 router.post(
   "/",
@@ -33,6 +98,7 @@ router.post(
     body("last_read_chapter").optional().isString(),
     body("last_read_chapter_hid").optional().isString(),
     body("reading_status").optional().isIn(['plan_to_read', 'reading', 'on_hold', 'dropped', 'completed']).withMessage("Invalid reading status"), // Add this validation
+    body("auto_status").optional().isBoolean({ strict: true }).withMessage("auto_status must be true or false"),
   ],
   addBookmark
 )
@@ -44,6 +110,7 @@ router.put(
     param("id").isUUID().withMessage("Invalid bookmark ID"),
     body("last_read_chapter").optional().isString(),
     body("last_read_chapter_hid").optional().isString(),
+    body("auto_status").optional().isBoolean({ strict: true }).withMessage("auto_status must be true or false"),
   ],
   updateBookmark
 )
@@ -71,6 +138,44 @@ router.put(
   updateReadingStatus
 )
 
+// GET /api/bookmarks/:id/transitions - Reading status change history
+router.get(
+  "/:id/transitions",
+  [
+    param("id").isUUID().withMessage("Invalid bookmark ID"),
+  ],
+  getStatusTransitions
+)
+
+// PUT /api/bookmarks/:id/review - Set score, private notes and public review
+router.put(
+  "/:id/review",
+  [
+    param("id").isUUID().withMessage("Invalid bookmark ID"),
+    body("score")
+      .optional({ values: "undefined" })
+      .custom((score) => score === null || (Number.isInteger(score) && score >= 1 && score <= 10))
+      .withMessage("Score must be a whole number from 1 to 10, or null to clear it"),
+    body("notes")
+      .optional({ values: "null" })
+      .isString()
+      .isLength({ max: 5000 })
+      .withMessage("Notes must be text of at most 5000 characters"),
+    body("review")
+      .optional({ values: "null" })
+      .isString()
+      .isLength({ max: 10000 })
+      .withMessage("Review must be text of at most 10000 characters"),
+    body().custom((fields) => {
+      if (!["score", "notes", "review"].some((field) => field in (fields || {}))) {
+        throw new Error("Provide score, notes or review")
+      }
+      return true
+    }),
+  ],
+  updateBookmarkReview
+)
+
 // DELETE /api/bookmarks/:id - Remove bookmark
 router.delete(
   "/:id",
@@ -0,0 +1,84 @@
+import express from "express"
+import { body, param } from "express-validator"
+import {
+  getCollections,
+  createCollection,
+  getCollection,
+  updateCollection,
+  deleteCollection,
+  addCollectionItem,
+  removeCollectionItem,
+  reorderCollectionItems,
+  getSharedCollection,
+} from "../controllers/collection.controller"
+import { protect } from "../middleware/auth.middleware"
+
+const router = express.Router()
+
+// Public share view; everything else belongs to the signed-in user
+router.get("/shared/:slug", getSharedCollection)
+
+router.use(protect)
+
+router.get("/", getCollections)
+router.post(
+  "/",
+  [
+    body("name").isString().trim().isLength({ min: 1, max: 100 }).withMessage("Name must be between 1 and 100 characters"),
+    body("description")
+      .optional({ values: "null" })
+      .isString()
+      .isLength({ max: 500 })
+      .withMessage("Description must not exceed 500 characters"),
+    body("is_public").optional().isBoolean({ strict: true }).withMessage("is_public must be a boolean"),
+  ],
+  createCollection,
+)
+router.get("/:id", [param("id").isUUID().withMessage("Invalid collection ID")], getCollection)
+router.patch(
+  "/:id",
+  [
+    param("id").isUUID().withMessage("Invalid collection ID"),
+    body("name")
+      .optional()
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 100 })
+      .withMessage("Name must be between 1 and 100 characters"),
+    body("description")
+      .optional({ values: "null" })
+      .isString()
+      .isLength({ max: 500 })
+      .withMessage("Description must not exceed 500 characters"),
+    body("is_public").optional().isBoolean({ strict: true }).withMessage("is_public must be a boolean"),
+  ],
+  updateCollection,
+)
+router.delete("/:id", [param("id").isUUID().withMessage("Invalid collection ID")], deleteCollection)
+router.post(
+  "/:id/items",
+  [
+    param("id").isUUID().withMessage("Invalid collection ID"),
+    body("bookmark_id").isUUID().withMessage("Invalid bookmark ID"),
+  ],
+  addCollectionItem,
+)
+router.put(
+  "/:id/items/order",
+  [
+    param("id").isUUID().withMessage("Invalid collection ID"),
+    body("bookmark_ids").isArray({ max: 1000 }).withMessage("bookmark_ids must be an array"),
+    body("bookmark_ids.*").isUUID().withMessage("Invalid bookmark ID"),
+  ],
+  reorderCollectionItems,
+)
+router.delete(
+  "/:id/items/:bookmarkId",
+  [
+    param("id").isUUID().withMessage("Invalid collection ID"),
+    param("bookmarkId").isUUID().withMessage("Invalid bookmark ID"),
+  ],
+  removeCollectionItem,
+)
+
+export default router
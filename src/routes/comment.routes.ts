@@ -1,22 +1,40 @@
 import express from "express";
-import { body, param } from "express-validator";
+import { body, param, query } from "express-validator";
 import {
   getComments,
+  getReplies,
   addComment,
+  editComment,
+  getCommentRevisions,
+  addReaction,
+  removeReaction,
   deleteComment,
+  restoreComment,
 } from "../controllers/comment.controller";
-import { protect } from "../middleware/auth.middleware";
+import { reportComment } from "../controllers/report.controller";
+import { protect, optionalAuth, restrictTo } from "../middleware/auth.middleware";
+import { REACTION_TYPES, REPORT_REASONS } from "../types/comment.types";
 
 const router = express.Router();
 
 router.get(
   "/manga/:manga_id/chapter/:chapter_hid",
+  optionalAuth,
   [
     param("manga_id").notEmpty().withMessage("Manga ID is required"),
     param("chapter_hid").notEmpty().withMessage("Chapter HID is required"),
+    query("sort").optional().isIn(["top", "new", "old"]).withMessage("Sort must be top, new or old"),
+    query("limit").optional().isInt({ min: 1 }).withMessage("Limit must be a positive integer"),
+    query("cursor").optional().isString(),
   ],
   getComments
 );
+router.get(
+  "/:id/replies",
+  optionalAuth,
+  [param("id").isUUID().withMessage("Invalid comment ID")],
+  getReplies
+);
 router.post(
   "/",
   protect,
@@ -31,11 +49,66 @@ router.post(
   ],
   addComment
 );
+router.patch(
+  "/:id",
+  protect,
+  [
+    param("id").isUUID().withMessage("Invalid comment ID"),
+    body("content")
+      .trim()
+      .isLength({ min: 1, max: 1000 })
+      .withMessage("Content must be between 1 and 1000 characters"),
+  ],
+  editComment
+);
+router.get(
+  "/:id/revisions",
+  protect,
+  restrictTo("moderator", "admin"),
+  [param("id").isUUID().withMessage("Invalid comment ID")],
+  getCommentRevisions
+);
+router.post(
+  "/:id/reactions",
+  protect,
+  [
+    param("id").isUUID().withMessage("Invalid comment ID"),
+    body("reaction").isIn([...REACTION_TYPES]).withMessage("Invalid reaction"),
+  ],
+  addReaction
+);
+router.delete(
+  "/:id/reactions",
+  protect,
+  [param("id").isUUID().withMessage("Invalid comment ID")],
+  removeReaction
+);
 router.delete(
   "/:id",
   protect,
   [param("id").isUUID().withMessage("Invalid comment ID")],
   deleteComment
 );
+router.post(
+  "/:id/report",
+  protect,
+  [
+    param("id").isUUID().withMessage("Invalid comment ID"),
+    body("reason").isIn([...REPORT_REASONS]).withMessage("Invalid report reason"),
+    body("details")
+      .optional()
+      .isString()
+      .isLength({ max: 500 })
+      .withMessage("Details must not exceed 500 characters"),
+  ],
+  reportComment
+);
+router.post(
+  "/:id/restore",
+  protect,
+  restrictTo("moderator", "admin"),
+  [param("id").isUUID().withMessage("Invalid comment ID")],
+  restoreComment
+);
 
 export default router;
@@ -0,0 +1,19 @@
+import express from "express"
+import { query } from "express-validator"
+import { getFeed } from "../controllers/feed.controller"
+import { protect } from "../middleware/auth.middleware"
+
+const router = express.Router()
+
+router.use(protect)
+
+router.get(
+  "/",
+  [
+    query("limit").optional().isInt({ min: 1, max: 50 }).withMessage("Limit must be between 1 and 50"),
+    query("cursor").optional().isString(),
+  ],
+  getFeed,
+)
+
+export default router
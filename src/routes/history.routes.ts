@@ -0,0 +1,26 @@
+import express from "express"
+import { param, query } from "express-validator"
+import { getHistory, deleteHistoryEntry, clearHistory } from "../controllers/history.controller"
+import { protect } from "../middleware/auth.middleware"
+
+const router = express.Router()
+
+router.use(protect)
+
+const listValidators = [
+  query("page").optional().isInt({ min: 1 }).withMessage("Page must be a positive integer"),
+  query("limit").optional().isInt({ min: 1, max: 100 }).withMessage("Limit must be between 1 and 100"),
+  query("from").optional().isISO8601().withMessage("from must be an ISO 8601 date"),
+  query("to").optional().isISO8601().withMessage("to must be an ISO 8601 date"),
+]
+
+router.get("/", listValidators, getHistory)
+router.get(
+  "/manga/:manga_id",
+  [param("manga_id").notEmpty().withMessage("Manga ID is required"), ...listValidators],
+  getHistory,
+)
+router.delete("/", [query("manga_id").optional().notEmpty().withMessage("Manga ID must not be empty")], clearHistory)
+router.delete("/:id", [param("id").isUUID().withMessage("Invalid history entry ID")], deleteHistoryEntry)
+
+export default router
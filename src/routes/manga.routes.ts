@@ -0,0 +1,17 @@
+import express from "express"
+import { param, query } from "express-validator"
+import { getMangaReviews } from "../controllers/review.controller"
+
+const router = express.Router()
+
+router.get(
+  "/:manga_id/reviews",
+  [
+    param("manga_id").notEmpty().withMessage("Manga ID is required"),
+    query("page").optional().isInt({ min: 1 }).withMessage("Page must be a positive integer"),
+    query("limit").optional().isInt({ min: 1, max: 100 }).withMessage("Limit must be between 1 and 100"),
+  ],
+  getMangaReviews,
+)
+
+export default router
@@ -0,0 +1,37 @@
+import express from "express"
+import { body, param, query } from "express-validator"
+import {
+  getNotifications,
+  markNotificationRead,
+  markAllNotificationsRead,
+  getNotificationPreferences,
+  updateNotificationPreferences,
+} from "../controllers/notification.controller"
+import { protect } from "../middleware/auth.middleware"
+
+const router = express.Router()
+
+router.use(protect)
+
+router.get(
+  "/",
+  [
+    query("page").optional().isInt({ min: 1 }).withMessage("Page must be a positive integer"),
+    query("limit").optional().isInt({ min: 1, max: 100 }).withMessage("Limit must be between 1 and 100"),
+    query("unread").optional().isBoolean().withMessage("Unread must be true or false"),
+  ],
+  getNotifications,
+)
+router.post("/read-all", markAllNotificationsRead)
+router.get("/preferences", getNotificationPreferences)
+router.put(
+  "/preferences",
+  [
+    body("reply").optional().isBoolean({ strict: true }).withMessage("Reply must be a boolean"),
+    body("mention").optional().isBoolean({ strict: true }).withMessage("Mention must be a boolean"),
+  ],
+  updateNotificationPreferences,
+)
+router.post("/:id/read", [param("id").isUUID().withMessage("Invalid notification ID")], markNotificationRead)
+
+export default router
@@ -1,6 +1,8 @@
 import express from "express";
 import { body } from "express-validator";
 import { protect } from "../middleware/auth.middleware";
+import { LIBRARY_VISIBILITIES } from "../types";
+import { USERNAME_PATTERN } from "../types/username.types";
 import {
   uploadProfileImage,
   updateProfile,
@@ -24,12 +26,16 @@ router.put(
     body("username")
       .isLength({ min: 3, max: 30 })
       .withMessage("Username must be between 3 and 30 characters")
-      .matches(/^[a-zA-Z0-9_]+$/)
+      .matches(USERNAME_PATTERN)
       .withMessage("Username can only contain letters, numbers, and underscores"),
     body("bio")
       .optional()
       .isLength({ max: 500 })
       .withMessage("Bio must be less than 500 characters"),
+    body("library_visibility")
+      .optional()
+      .isIn([...LIBRARY_VISIBILITIES])
+      .withMessage("Library visibility must be public, followers or private"),
   ],
   updateProfile
 );
@@ -0,0 +1,20 @@
+import express from "express"
+import { query } from "express-validator"
+import { createStreamTicket, openStream } from "../controllers/stream.controller"
+import { protect, protectStream } from "../middleware/auth.middleware"
+
+const router = express.Router()
+
+router.get(
+  "/",
+  protectStream,
+  [
+    query("manga_id").optional().isString().notEmpty().withMessage("Manga ID must not be empty"),
+    query("chapter_hid").optional().isString().notEmpty().withMessage("Chapter HID must not be empty"),
+  ],
+  openStream,
+)
+
+router.post("/ticket", protect, createStreamTicket)
+
+export default router
@@ -1,29 +1,110 @@
 import express from "express"
-import { body } from "express-validator"
-import { updateProfile, getProfile, changePassword } from "../controllers/user.controller"
-import { protect } from "../middleware/auth.middleware"
+import { body, param, query } from "express-validator"
+import {
+  updateProfile,
+  getProfile,
+  changePassword,
+  getMyStats,
+  getPublicProfile,
+  getPublicBookmarks,
+  getUsernameAvailability,
+  getUsernameHistory,
+} from "../controllers/user.controller"
+import { followUser, unfollowUser, getFollowers, getFollowing } from "../controllers/follow.controller"
+import {
+  blockUser,
+  unblockUser,
+  muteUser,
+  unmuteUser,
+  getBlockedUsers,
+  getMutedUsers,
+} from "../controllers/block.controller"
+import { optionalAuth, protect } from "../middleware/auth.middleware"
+import { LIBRARY_VISIBILITIES } from "../types"
+import { USERNAME_PATTERN } from "../types/username.types"
 
 const router = express.Router()
 
-// All user routes require authentication
-router.use(protect)
-
-router.get("/profile", getProfile)
+// The caller's own account; registered before /:username so these paths aren't read as usernames
+router.get("/profile", protect, getProfile)
+router.get("/me/stats", protect, getMyStats)
+router.get("/me/blocks", protect, getBlockedUsers)
+router.get("/me/mutes", protect, getMutedUsers)
+router.get("/me/username-history", protect, getUsernameHistory)
 router.put(
   "/profile",
+  protect,
   [
-    body("username").optional().isLength({ min: 3 }).withMessage("Username must be at least 3 characters long"),
+    body("username")
+      .optional()
+      .matches(USERNAME_PATTERN)
+      .withMessage("Username must be 3 to 30 letters, numbers or underscores"),
     body("bio").optional().isLength({ max: 500 }).withMessage("Bio must not exceed 500 characters"),
     body("avatar_url").optional().isURL().withMessage("Avatar URL must be valid"),
+    body("library_visibility")
+      .optional()
+      .isIn([...LIBRARY_VISIBILITIES])
+      .withMessage("Library visibility must be public, followers or private"),
   ],
   updateProfile,
 )
 router.put(
   "/change-password",
+  protect,
   [
+    body("current_password").notEmpty().withMessage("Current password is required"),
     body("password").isLength({ min: 8 }).withMessage("Password must be at least 8 characters long"),
   ],
   changePassword,
 )
 
+// Also ahead of /:username, which it would otherwise match
+router.get(
+  "/username-available",
+  optionalAuth,
+  [query("username").notEmpty().withMessage("Username is required")],
+  getUsernameAvailability,
+)
+
+// Public profiles; a signed-in viewer may see more of the library
+const usernameParam = param("username").matches(USERNAME_PATTERN).withMessage("Invalid username")
+
+router.get("/:username", optionalAuth, [usernameParam], getPublicProfile)
+router.get(
+  "/:username/bookmarks",
+  optionalAuth,
+  [
+    usernameParam,
+    query("page").optional().isInt({ min: 1 }).withMessage("Page must be a positive integer"),
+    query("limit").optional().isInt({ min: 1, max: 100 }).withMessage("Limit must be between 1 and 100"),
+    query("sort")
+      .optional()
+      .isIn(["updated_at", "created_at", "manga_title", "last_read_at"])
+      .withMessage("Invalid sort field"),
+    query("order").optional().isIn(["asc", "desc"]).withMessage("Order must be asc or desc"),
+    query("reading_status")
+      .optional()
+      .isIn(["plan_to_read", "reading", "on_hold", "dropped", "completed"])
+      .withMessage("Invalid reading status"),
+  ],
+  getPublicBookmarks,
+)
+
+// Follows are addressed by user id
+const userIdParam = param("id").isUUID().withMessage("Invalid user ID")
+const pageValidators = [
+  query("page").optional().isInt({ min: 1 }).withMessage("Page must be a positive integer"),
+  query("limit").optional().isInt({ min: 1, max: 100 }).withMessage("Limit must be between 1 and 100"),
+]
+
+router.post("/:id/follow", protect, [userIdParam], followUser)
+router.delete("/:id/follow", protect, [userIdParam], unfollowUser)
+router.get("/:id/followers", [userIdParam, ...pageValidators], getFollowers)
+router.get("/:id/following", [userIdParam, ...pageValidators], getFollowing)
+
+router.post("/:id/block", protect, [userIdParam], blockUser)
+router.delete("/:id/block", protect, [userIdParam], unblockUser)
+router.post("/:id/mute", protect, [userIdParam], muteUser)
+router.delete("/:id/mute", protect, [userIdParam], unmuteUser)
+
 export default router
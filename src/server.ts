@@ -1,6 +1,8 @@
 import app from "./app"
 import config from "./config"
 import logger from "./utils/logger"
+import { startChapterFeedJob } from "./utils/chapterFeed"
+import { closeAllStreams } from "./controllers/stream.controller"
 
 const PORT = config.port || 5000
 
@@ -9,9 +11,25 @@ const server = app.listen(PORT, () => {
   logger.info(`Environment: ${config.nodeEnv}`)
 })
 
+startChapterFeedJob()
+
+// Open event streams are ended first; server.close() waits for every open
+// connection, so it would never finish while a stream is connected
+const shutdown = (signal: NodeJS.Signals) => {
+  logger.info(`${signal} received. Shutting down...`)
+  closeAllStreams()
+  server.close(() => {
+    process.exit(0)
+  })
+}
+
+process.on("SIGTERM", shutdown)
+process.on("SIGINT", shutdown)
+
 process.on("unhandledRejection", (err: Error) => {
   logger.error("UNHANDLED REJECTION! Shutting down...")
   logger.error(err.name, err.message)
+  closeAllStreams()
   server.close(() => {
     process.exit(1)
   })
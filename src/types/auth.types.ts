@@ -0,0 +1,51 @@
+import type { UserRole } from "./index"
+
+export interface Session {
+  id: string
+  user_id: string
+  refresh_token_hash: string
+  user_agent?: string | null
+  ip_address?: string | null
+  created_at: string
+  last_used_at: string
+  expires_at: string
+  revoked_at?: string | null
+}
+
+export interface NewSession {
+  id: string
+  user_id: string
+  refresh_token_hash: string
+  user_agent?: string | null
+  ip_address?: string | null
+  expires_at: string
+}
+
+export type AuthTokenPurpose = "password_reset" | "email_verification"
+
+// Single-use tokens mailed to users; only a hash of the token is stored
+export interface AuthToken {
+  id: string
+  user_id: string
+  purpose: AuthTokenPurpose
+  token_hash: string
+  expires_at: string
+  used_at?: string | null
+  created_at: string
+}
+
+export interface NewAuthToken {
+  user_id: string
+  purpose: AuthTokenPurpose
+  token_hash: string
+  expires_at: string
+}
+
+// Claims carried by the access token; `sid` ties it to a refreshable session
+export interface AccessTokenClaims {
+  id: string
+  email?: string
+  username: string | null
+  role: UserRole
+  sid: string
+}
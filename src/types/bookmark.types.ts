@@ -17,8 +17,20 @@ export interface Bookmark {
   created_at: string
   updated_at: string
   reading_status?: ReadingStatus;
+  // 1-10, private to the owner unless a review is written
+  score?: number | null
+  // Private to the owner
+  notes?: string | null
+  // Public review text, shown on the manga's review page
+  review?: string | null
+  reviewed_at?: string | null
+  // false opts the bookmark out of automatic reading status changes
+  auto_status?: boolean
 }
 
+// A bookmark as shown on its owner's public library page
+export type PublicBookmark = Omit<Bookmark, "user_id" | "username" | "notes" | "auto_status">
+
 export interface BookmarkInput {
   manga_id: string
   manga_hid: string
@@ -30,4 +42,36 @@ export interface BookmarkInput {
   last_read_chapter?: string
   last_read_chapter_hid?: string
   reading_status?: ReadingStatus;
+  auto_status?: boolean
+}
+
+export const BULK_BOOKMARK_ACTIONS = ['update_status', 'update_progress', 'delete'] as const
+
+export type BulkBookmarkAction = (typeof BULK_BOOKMARK_ACTIONS)[number]
+
+export interface BulkBookmarkOperation {
+  action: BulkBookmarkAction
+  id: string
+  reading_status?: ReadingStatus
+  last_read_chapter?: string
+  last_read_chapter_hid?: string
+}
+
+// manual: set by the reader; the others are applied by the server when progress is saved
+export const STATUS_TRANSITION_REASONS = ['manual', 'started_reading', 'finished_series'] as const
+
+export type StatusTransitionReason = (typeof STATUS_TRANSITION_REASONS)[number]
+
+export interface StatusTransition {
+  id: string
+  user_id: string
+  bookmark_id: string
+  // Manga details are copied in so the record survives the bookmark being removed
+  manga_id: string
+  manga_title: string
+  manga_slug: string
+  from_status: ReadingStatus | null
+  to_status: ReadingStatus
+  reason: StatusTransitionReason
+  created_at: string
 }
@@ -0,0 +1,23 @@
+import type { Bookmark } from "./bookmark.types"
+
+// A chapter seen in the chapter feed, keyed by the manga's hid
+export interface ChapterRecord {
+  id: string
+  manga_hid: string
+  chapter_hid: string
+  // Chapter number as published, e.g. "12" or "12.5"; null for oneshots and extras
+  chapter: string | null
+  title?: string | null
+  lang?: string | null
+  published_at: string
+  created_at: string
+}
+
+export type FeedChapter = Omit<ChapterRecord, "id" | "created_at">
+
+export interface BookmarkUpdate {
+  bookmark: Bookmark
+  // Distinct chapter numbers newer than the bookmark's last read chapter
+  unread_count: number
+  latest_chapter: Pick<ChapterRecord, "chapter" | "chapter_hid" | "title" | "published_at">
+}
@@ -0,0 +1,31 @@
+import type { Bookmark } from "./bookmark.types"
+
+// A user-defined list of bookmarked manga
+export interface Collection {
+  id: string
+  user_id: string
+  name: string
+  // Globally unique; used in share links for public collections
+  slug: string
+  description?: string | null
+  is_public: boolean
+  created_at: string
+  updated_at: string
+}
+
+export interface CollectionItem {
+  collection_id: string
+  bookmark_id: string
+  // 0-based manual order within the collection
+  position: number
+  added_at: string
+}
+
+export type CollectionEntry = Pick<
+  Bookmark,
+  "manga_id" | "manga_hid" | "manga_title" | "manga_slug" | "manga_cover_b2key" | "manga_status" | "manga_country"
+> & {
+  bookmark_id: string
+  position: number
+  added_at: string
+}
@@ -1,17 +1,131 @@
+export const REACTION_TYPES = ["like", "dislike", "love", "laugh", "wow", "sad"] as const;
+
+export type ReactionType = (typeof REACTION_TYPES)[number];
+
+export type ReactionCounts = Record<ReactionType, number>;
+
+// Parsed form of a comment's markup; text is always plain text, never HTML
+export type CommentNode =
+  | { type: "text"; text: string }
+  | { type: "bold"; children: CommentNode[] }
+  | { type: "italic"; children: CommentNode[] }
+  | { type: "spoiler"; children: CommentNode[] }
+  | { type: "link"; href: string; children: CommentNode[] }
+  | { type: "mention"; username: string };
+
 export interface Comment {
   id: string;
-  user_id: string;
+  // Null for deleted comments kept as tombstones
+  user_id: string | null;
   manga_id: string;
   chapter_hid: string;
   content: string;
+  content_parsed: CommentNode[];
   parent_id?: string;
   created_at: string;
   updated_at: string;
+  is_edited: boolean;
+  edited_at?: string | null;
+  is_deleted: boolean;
+  is_hidden: boolean;
   username: string;
   avatar_url?: string | null;
+  reactions?: ReactionCounts;
+  // Likes minus dislikes, used for "top" sorting
+  score?: number;
+  user_reaction?: ReactionType | null;
+  depth?: number;
+  // Direct replies, and all replies anywhere below this comment
+  reply_count?: number;
+  descendant_count?: number;
+  // True when replies exist below the returned depth and must be lazy-loaded
+  has_more_replies?: boolean;
   replies?: Comment[];
 }
 
+// Row shape of the comments table, before author details are joined in
+export interface CommentRecord {
+  id: string;
+  user_id: string;
+  manga_id: string;
+  chapter_hid: string;
+  content: string;
+  // Markup parsed when the content is written; null for rows written before parsing existed
+  content_parsed?: CommentNode[] | null;
+  parent_id?: string;
+  // Top-level comment of the thread (null for top-level comments) and
+  // nesting level, so a whole thread can be fetched in one query
+  root_id?: string | null;
+  depth: number;
+  // Likes minus dislikes, kept in sync with the reactions by the database
+  score: number;
+  // Set whenever the author changes the content
+  edited_at?: string | null;
+  // Deleted comments that still have replies stay as tombstones so the
+  // thread keeps its shape; the original content is kept for restoring
+  deleted_at?: string | null;
+  deleted_by?: string | null;
+  // Hidden by moderators, or automatically once enough readers report it
+  hidden_at?: string | null;
+  hidden_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A previous version of a comment's content, kept when the author edits it
+export interface CommentRevision {
+  id: string;
+  comment_id: string;
+  content: string;
+  edited_by: string;
+  created_at: string;
+}
+
+// One reaction per user per comment; reacting again replaces it
+export interface CommentReaction {
+  comment_id: string;
+  user_id: string;
+  reaction: ReactionType;
+  created_at: string;
+}
+
+// How many readers gave a comment one kind of reaction
+export interface ReactionCount {
+  comment_id: string;
+  reaction: ReactionType;
+  count: number;
+}
+
+export const REPORT_REASONS = ["spam", "spoiler", "harassment", "offensive", "other"] as const;
+
+export type ReportReason = (typeof REPORT_REASONS)[number];
+
+export const MODERATION_ACTIONS = ["dismiss", "hide", "delete", "warn"] as const;
+
+export type ModerationAction = (typeof MODERATION_ACTIONS)[number];
+
+// A reader's report of a comment; each reader can report a comment once
+export interface CommentReport {
+  id: string;
+  comment_id: string;
+  reporter_id: string;
+  reason: ReportReason;
+  details?: string | null;
+  status: "open" | "resolved";
+  action?: ModerationAction | null;
+  resolved_by?: string | null;
+  resolved_at?: string | null;
+  resolution_note?: string | null;
+  created_at: string;
+}
+
+// A comment awaiting moderation, summarising its open reports
+export interface ReportQueueEntry {
+  comment_id: string;
+  report_count: number;
+  first_reported_at: string;
+}
+
 export interface CommentInput {
   manga_id: string;
   chapter_hid: string;
@@ -19,6 +133,19 @@ export interface CommentInput {
   parent_id?: string;
 }
 
+export const DELETED_COMMENT_PLACEHOLDER = "[deleted]";
+
+export const HIDDEN_COMMENT_PLACEHOLDER = "[hidden]";
+
+export type CommentSort = "top" | "new" | "old";
+
+// Keyset position of the last top-level comment on a page
+export interface CommentCursor {
+  score: number;
+  created_at: string;
+  id: string;
+}
+
 export interface CommentResponse {
   success: boolean;
   data?: Comment[];
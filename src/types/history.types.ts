@@ -0,0 +1,16 @@
+// One chapter read, appended whenever reading progress is saved. Manga details
+// are copied in so history survives the bookmark being removed.
+export interface ReadingHistoryEntry {
+  id: string
+  user_id: string
+  bookmark_id?: string | null
+  manga_id: string
+  manga_hid: string
+  manga_title: string
+  manga_slug: string
+  chapter: string
+  chapter_hid?: string | null
+  read_at: string
+  // UTC date of read_at, kept as a column so activity can be grouped by day
+  read_on: string
+}
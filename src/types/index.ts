@@ -1,9 +1,37 @@
+import type { NotificationPreferences } from "./notification.types"
+
+export type UserRole = "user" | "moderator" | "admin"
+
+export type AccountStatus = "active" | "suspended" | "banned"
+
+// Who may see a user's bookmarks on their public profile
+export const LIBRARY_VISIBILITIES = ["public", "followers", "private"] as const
+
+export type LibraryVisibility = (typeof LIBRARY_VISIBILITIES)[number]
+
+export const DEFAULT_LIBRARY_VISIBILITY: LibraryVisibility = "public"
+
+// Public URLs of a user's avatar renditions, keyed by size in pixels
+export type AvatarUrls = Record<string, string>
+
 export interface UserProfile {
   id: string
   username: string
   email: string
-  bio?: string
-  avatar_url?: string
+  bio?: string | null
+  // The largest avatar rendition
+  avatar_url?: string | null
+  avatar_urls?: AvatarUrls | null
+  role?: UserRole
+  status?: AccountStatus
+  suspended_until?: string | null
+  status_reason?: string | null
+  // Number of moderator warnings the user has received
+  warning_count?: number
+  // Unset keys fall back to DEFAULT_NOTIFICATION_PREFERENCES
+  notification_preferences?: Partial<NotificationPreferences> | null
+  // Unset means DEFAULT_LIBRARY_VISIBILITY
+  library_visibility?: LibraryVisibility | null
   created_at: string
   updated_at?: string
 }
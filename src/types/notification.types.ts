@@ -0,0 +1,30 @@
+export const NOTIFICATION_TYPES = ["reply", "mention", "moderation"] as const
+
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number]
+
+// Moderation notices are always delivered; the rest can be switched off per user
+export const CONFIGURABLE_NOTIFICATION_TYPES = ["reply", "mention"] as const
+
+export type NotificationPreferences = Record<(typeof CONFIGURABLE_NOTIFICATION_TYPES)[number], boolean>
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  reply: true,
+  mention: true,
+}
+
+export interface Notification {
+  id: string
+  // Recipient
+  user_id: string
+  type: NotificationType
+  // User whose action triggered the notification; null for system actions
+  actor_id?: string | null
+  comment_id?: string | null
+  manga_id?: string | null
+  chapter_hid?: string | null
+  message: string
+  read_at?: string | null
+  created_at: string
+}
+
+export type NewNotification = Omit<Notification, "id" | "read_at" | "created_at">
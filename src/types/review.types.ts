@@ -0,0 +1,18 @@
+// A bookmark's public review as shown on the manga page; private notes are never included
+export interface MangaReview {
+  bookmark_id: string
+  score: number | null
+  review: string
+  reviewed_at: string
+  author: {
+    id: string
+    username: string | null
+    avatar_url: string | null
+  }
+}
+
+// Average over every bookmark of the manga that has a score, reviewed or not
+export interface ScoreSummary {
+  average: number | null
+  count: number
+}
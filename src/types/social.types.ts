@@ -0,0 +1,62 @@
+import type { ReadingStatus } from "./bookmark.types"
+
+export interface Follow {
+  follower_id: string
+  following_id: string
+  created_at: string
+}
+
+// A followed or following user as listed on a profile
+export interface FollowEntry {
+  id: string
+  username: string | null
+  avatar_url: string | null
+  followed_at: string
+}
+
+export const ACTIVITY_TYPES = ["bookmark_added", "status_changed", "completed", "reviewed", "commented"] as const
+
+export type ActivityType = (typeof ACTIVITY_TYPES)[number]
+
+export interface Activity {
+  // Type and source row id, e.g. "reviewed:<bookmark id>"; unique within the feed
+  id: string
+  type: ActivityType
+  actor: {
+    id: string
+    username: string | null
+    avatar_url: string | null
+  }
+  manga: {
+    manga_id: string
+    manga_title: string | null
+    manga_slug: string | null
+  }
+  created_at: string
+  // status_changed and completed
+  from_status?: ReadingStatus | null
+  to_status?: ReadingStatus
+  // reviewed
+  score?: number | null
+  review?: string
+  // commented
+  comment?: {
+    id: string
+    chapter_hid: string
+    content: string
+  }
+}
+
+// block: hides the user's comments and notifications from you, stops them
+// replying to or mentioning you, and ends follows both ways. mute: only hides
+// their comments and notifications.
+export const BLOCK_KINDS = ["block", "mute"] as const
+
+export type BlockKind = (typeof BLOCK_KINDS)[number]
+
+export interface UserBlock {
+  user_id: string
+  target_id: string
+  kind: BlockKind
+  created_at: string
+}
@@ -0,0 +1,49 @@
+// Aggregates answered by the repositories; the stats endpoint combines them
+export interface GroupCount {
+  value: string | number | null
+  count: number
+}
+
+export interface DailyCount {
+  // UTC date, YYYY-MM-DD
+  day: string
+  count: number
+}
+
+export interface MangaReadingSpan {
+  manga_id: string
+  first_read_at: string
+  last_read_at: string
+}
+
+export interface PeriodCount {
+  // First day of the week (Monday) or month, YYYY-MM-DD
+  period_start: string
+  chapters: number
+}
+
+export interface ReadingStats {
+  library: {
+    total: number
+    by_status: Record<string, number>
+    by_country: Record<string, number>
+    by_manga_status: Record<string, number>
+  }
+  reading: {
+    chapters_read: number
+    days_active: number
+    last_read_on: string | null
+    weekly: PeriodCount[]
+    monthly: PeriodCount[]
+    current_streak_days: number
+    longest_streak_days: number
+  }
+  completion: {
+    // Completed series with reading history to measure
+    measured: number
+    average_days: number | null
+    median_days: number | null
+    fastest_days: number | null
+    slowest_days: number | null
+  }
+}
@@ -0,0 +1,23 @@
+// Letters, digits and underscores; compared case-insensitively everywhere
+export const USERNAME_PATTERN = /^[A-Za-z0-9_]{3,30}$/
+
+// One row per name a user has held. The current name is the claim not yet
+// released; released claims are the change history and back old-name redirects.
+export interface UsernameClaim {
+  id: string
+  user_id: string
+  username: string
+  // Lowercased username; unique among unreleased claims
+  username_key: string
+  claimed_at: string
+  released_at: string | null
+}
+
+export const USERNAME_UNAVAILABLE_REASONS = ["invalid", "reserved", "taken"] as const
+
+export type UsernameUnavailableReason = (typeof USERNAME_UNAVAILABLE_REASONS)[number]
+
+export interface UsernameAvailability {
+  available: boolean
+  reason: UsernameUnavailableReason | null
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "@jest/globals"
+import { parseCsv, parseJson, toCsv, toJson } from "../bookmarkFormats"
+import type { Bookmark } from "../../types/bookmark.types"
+
+const bookmark = (fields: Partial<Bookmark>): Bookmark => ({
+  id: "b1",
+  user_id: "u1",
+  manga_id: "1",
+  manga_hid: "h1",
+  manga_title: "Title",
+  manga_slug: "title",
+  manga_status: 1,
+  manga_country: "jp",
+  created_at: "2025-01-01T00:00:00.000Z",
+  updated_at: "2025-01-01T00:00:00.000Z",
+  reading_status: "reading",
+  ...fields,
+})
+
+describe("bookmark formats", () => {
+  it("keeps spreadsheet formulas out of CSV cells and reads the values back", () => {
+    const csv = toCsv([
+      bookmark({ manga_title: '=HYPERLINK("x")' }),
+      bookmark({ manga_id: "2", manga_title: "+cmd|' /C calc'!A0" }),
+      bookmark({ manga_id: "3", manga_title: "-1+1" }),
+    ])
+
+    expect(csv).toContain(`"'=HYPERLINK(""x"")"`)
+    expect(csv).toContain(",'+cmd|' /C calc'!A0,")
+    expect(csv).toContain(",'-1+1,")
+    expect(parseCsv(csv).map((entry) => entry.title)).toEqual(['=HYPERLINK("x")', "+cmd|' /C calc'!A0", "-1+1"])
+  })
+
+  it("leaves text that only starts with a sign as it is", () => {
+    const csv = toCsv([bookmark({ manga_title: "-Ra-" }), bookmark({ manga_id: "2", manga_title: "+Anima" })])
+
+    expect(csv).toContain(",-Ra-,")
+    expect(csv).toContain(",+Anima,")
+    expect(parseCsv(csv).map((entry) => entry.title)).toEqual(["-Ra-", "+Anima"])
+  })
+
+  it("round-trips score, notes and review through CSV", () => {
+    const [entry] = parseCsv(
+      toCsv([bookmark({ score: 7, notes: "line one\nline two", review: "good", reviewed_at: "2025-02-01T00:00:00.000Z" })]),
+    )
+
+    expect(entry).toMatchObject({
+      score: 7,
+      notes: "line one\nline two",
+      review: "good",
+      reviewed_at: "2025-02-01T00:00:00.000Z",
+    })
+    expect(entry.error).toBeUndefined()
+  })
+
+  it("leaves the status and personal fields of hand-made sheets undefined", () => {
+    const [entry] = parseCsv("title,chapter\r\nTitle,12\r\n")
+
+    expect(entry.reading_status).toBeUndefined()
+    expect(entry.score).toBeUndefined()
+    expect(entry.notes).toBeUndefined()
+    expect(entry.last_read_chapter).toBe("12")
+  })
+
+  it("round-trips score, notes, review and auto_status through JSON", () => {
+    const [entry] = parseJson(
+      toJson([
+        bookmark({
+          score: 8,
+          notes: "private",
+          review: "great",
+          reviewed_at: "2025-02-01T00:00:00.000Z",
+          auto_status: false,
+        }),
+      ]),
+    )
+
+    expect(entry).toMatchObject({
+      score: 8,
+      notes: "private",
+      review: "great",
+      reviewed_at: "2025-02-01T00:00:00.000Z",
+      auto_status: false,
+    })
+    expect(entry.error).toBeUndefined()
+  })
+
+  it("leaves fields the JSON entry doesn't carry undefined", () => {
+    const [entry] = parseJson(JSON.stringify([{ manga_title: "Title" }]))
+
+    expect(entry.score).toBeUndefined()
+    expect(entry.review).toBeUndefined()
+  })
+
+  it("rejects scores outside 1 to 10", () => {
+    const [entry] = parseJson(JSON.stringify([{ manga_title: "Title", score: 11 }]))
+
+    expect(entry.error).toBe("Score must be a whole number from 1 to 10")
+  })
+})
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "@jest/globals"
+import { chapterNumber } from "../chapterNumbers"
+
+describe("chapterNumber", () => {
+  it("reads the leading number of a label", () => {
+    expect(chapterNumber("12")).toBe(12)
+    expect(chapterNumber(" 12.5")).toBe(12.5)
+    expect(chapterNumber("12a")).toBe(12)
+    expect(chapterNumber("12.")).toBe(12)
+    expect(chapterNumber(".5")).toBe(0.5)
+    expect(chapterNumber("-1")).toBe(-1)
+  })
+
+  it("uses the same grammar as public.chapter_number", () => {
+    expect(chapterNumber("1e3")).toBe(1)
+    expect(chapterNumber("Infinity")).toBeNull()
+    expect(chapterNumber("0x10")).toBe(0)
+  })
+
+  it("returns null for labels without a number", () => {
+    expect(chapterNumber("Extra")).toBeNull()
+    expect(chapterNumber("")).toBeNull()
+    expect(chapterNumber(null)).toBeNull()
+    expect(chapterNumber(undefined)).toBeNull()
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "@jest/globals"
+import { extractMentions, parseCommentMarkup } from "../commentMarkup"
+import type { CommentNode } from "../../types/comment.types"
+
+const text = (value: string): CommentNode => ({ type: "text", text: value })
+
+const links = (nodes: CommentNode[]): string[] =>
+  nodes.flatMap((node) => [
+    ...(node.type === "link" ? [node.href] : []),
+    ...("children" in node ? links(node.children) : []),
+  ])
+
+const depthOf = (nodes: CommentNode[]): number =>
+  Math.max(0, ...nodes.map((node) => ("children" in node ? 1 + depthOf(node.children) : 0)))
+
+describe("comment markup", () => {
+  it("passes HTML through as plain text", () => {
+    expect(parseCommentMarkup('<script>alert(1)</script> <img src=x onerror="y">')).toEqual([
+      text('<script>alert(1)</script> <img src=x onerror="y">'),
+    ])
+  })
+
+  it("nests emphasis inside other markers", () => {
+    expect(parseCommentMarkup("**bold _and italic_** ||hidden **twist**||")).toEqual([
+      { type: "bold", children: [text("bold "), { type: "italic", children: [text("and italic")] }] },
+      text(" "),
+      { type: "spoiler", children: [text("hidden "), { type: "bold", children: [text("twist")] }] },
+    ])
+  })
+
+  it("keeps unclosed and empty markers as literal text", () => {
+    expect(parseCommentMarkup("**not closed")).toEqual([text("**not closed")])
+    expect(parseCommentMarkup("||spoiler")).toEqual([text("||spoiler")])
+    expect(parseCommentMarkup("** ** ____")).toEqual([text("** ** ____")])
+    expect(parseCommentMarkup("snake_case_name")).toEqual([text("snake_case_name")])
+  })
+
+  it("closes a spoiler at its first closing marker", () => {
+    expect(parseCommentMarkup("||a **b|| c**")).toEqual([
+      { type: "spoiler", children: [text("a **b")] },
+      text(" c**"),
+    ])
+  })
+
+  it("stops nesting after a few levels", () => {
+    const deep = `${"**_".repeat(10)}x${"_**".repeat(10)}`
+
+    expect(depthOf(parseCommentMarkup(deep))).toBeLessThanOrEqual(4)
+  })
+
+  it("links only absolute http and https URLs", () => {
+    expect(parseCommentMarkup("[site](https://example.com/a?b=1)")).toEqual([
+      { type: "link", href: "https://example.com/a?b=1", children: [text("site")] },
+    ])
+
+    for (const source of [
+      "[click](javascript:alert(1))",
+      "[click](JavaScript:alert(1))",
+      "[x](data:text/html,hi)",
+      "[x](//evil.example)",
+      "[x](/relative)",
+      "javascript:alert(1)",
+    ]) {
+      expect(parseCommentMarkup(source)).toEqual([text(source)])
+    }
+  })
+
+  it("links bare URLs without their trailing punctuation", () => {
+    expect(parseCommentMarkup("see https://example.com.")).toEqual([
+      text("see "),
+      { type: "link", href: "https://example.com/", children: [text("https://example.com")] },
+      text("."),
+    ])
+  })
+
+  it("never nests a link inside a link label", () => {
+    const nodes = parseCommentMarkup("[**b** https://inner.example](https://outer.example)")
+
+    expect(links(nodes)).toEqual(["https://outer.example/"])
+  })
+
+  it("finds mentions that stand on their own", () => {
+    const nodes = parseCommentMarkup("hi @alice and @bob_1, not me@mail.com or @ab, @alice again")
+
+    expect(nodes.slice(0, 4)).toEqual([
+      text("hi "),
+      { type: "mention", username: "alice" },
+      text(" and "),
+      { type: "mention", username: "bob_1" },
+    ])
+    expect(extractMentions(nodes)).toEqual(["alice", "bob_1"])
+  })
+
+  it("finds mentions inside other markup", () => {
+    expect(extractMentions(parseCommentMarkup("||ask **@carol**||"))).toEqual(["carol"])
+  })
+})
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "@jest/globals"
+import { summarizeActivity, summarizeCompletion, toCountMap } from "../readingStats"
+
+// Wednesday
+const now = new Date("2026-10-14T15:00:00.000Z")
+
+describe("reading stats", () => {
+  it("counts consecutive days as a streak that is still alive on the day after", () => {
+    const stats = summarizeActivity(
+      [
+        { day: "2026-10-01", count: 1 },
+        { day: "2026-10-02", count: 2 },
+        { day: "2026-10-03", count: 1 },
+        { day: "2026-10-12", count: 1 },
+        { day: "2026-10-13", count: 3 },
+      ],
+      now,
+    )
+
+    expect(stats).toMatchObject({
+      chapters_read: 8,
+      days_active: 5,
+      last_read_on: "2026-10-13",
+      current_streak_days: 2,
+      longest_streak_days: 3,
+    })
+  })
+
+  it("ends the current streak once a whole day passes without reading", () => {
+    const stats = summarizeActivity([{ day: "2026-10-12", count: 1 }], now)
+
+    expect(stats.current_streak_days).toBe(0)
+    expect(stats.longest_streak_days).toBe(1)
+  })
+
+  it("counts streaks across month ends", () => {
+    const stats = summarizeActivity(
+      [
+        { day: "2026-09-30", count: 1 },
+        { day: "2026-10-01", count: 1 },
+      ],
+      now,
+    )
+
+    expect(stats.longest_streak_days).toBe(2)
+  })
+
+  it("buckets days into Monday weeks and calendar months, zero-filled and oldest first", () => {
+    const stats = summarizeActivity(
+      [
+        { day: "2026-09-30", count: 4 },
+        { day: "2026-10-11", count: 2 },
+        { day: "2026-10-12", count: 1 },
+        { day: "2026-10-14", count: 5 },
+      ],
+      now,
+    )
+
+    expect(stats.weekly).toHaveLength(12)
+    expect(stats.weekly.slice(-3)).toEqual([
+      { period_start: "2026-09-28", chapters: 4 },
+      { period_start: "2026-10-05", chapters: 2 },
+      { period_start: "2026-10-12", chapters: 6 },
+    ])
+    expect(stats.monthly).toHaveLength(12)
+    expect(stats.monthly[0].period_start).toBe("2025-11-01")
+    expect(stats.monthly.slice(-2)).toEqual([
+      { period_start: "2026-09-01", chapters: 4 },
+      { period_start: "2026-10-01", chapters: 8 },
+    ])
+  })
+
+  it("reports empty history as zeros", () => {
+    expect(summarizeActivity([], now)).toMatchObject({
+      chapters_read: 0,
+      days_active: 0,
+      last_read_on: null,
+      current_streak_days: 0,
+      longest_streak_days: 0,
+    })
+  })
+
+  it("summarizes days to complete each series", () => {
+    const span = (manga_id: string, days: number) => ({
+      manga_id,
+      first_read_at: "2026-01-01T00:00:00.000Z",
+      last_read_at: new Date(Date.parse("2026-01-01T00:00:00.000Z") + days * 24 * 60 * 60 * 1000).toISOString(),
+    })
+
+    expect(summarizeCompletion([span("1", 10), span("2", 1.5), span("3", 4), span("4", 3)])).toEqual({
+      measured: 4,
+      average_days: 4.6,
+      median_days: 3.5,
+      fastest_days: 1.5,
+      slowest_days: 10,
+    })
+    expect(summarizeCompletion([]).median_days).toBeNull()
+  })
+
+  it("merges rows without a value into the missing key", () => {
+    expect(
+      toCountMap(
+        [
+          { value: "reading", count: 2 },
+          { value: null, count: 1 },
+          { value: "plan_to_read", count: 3 },
+        ],
+        "plan_to_read",
+      ),
+    ).toEqual({ reading: 2, plan_to_read: 4 })
+  })
+})
@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it, jest } from "@jest/globals"
+import { createMemoryRepositories, createMemoryStore, repositories, useRepositories } from "../../repositories"
+import { FINISHED_MANGA_STATUS, autoTransitionFor, manualTransition } from "../statusTransitions"
+import type { Bookmark } from "../../types/bookmark.types"
+
+jest.mock("../../config", () => ({ __esModule: true, default: { nodeEnv: "test", dataStore: "memory" } }))
+
+const bookmark = (fields: Partial<Bookmark> = {}): Bookmark => ({
+  id: "b1",
+  user_id: "u1",
+  manga_id: "1",
+  manga_hid: "h1",
+  manga_title: "Title",
+  manga_slug: "title",
+  manga_status: FINISHED_MANGA_STATUS,
+  manga_country: "jp",
+  created_at: "2026-01-01T00:00:00.000Z",
+  updated_at: "2026-01-01T00:00:00.000Z",
+  reading_status: "reading",
+  ...fields,
+})
+
+describe("status transitions", () => {
+  beforeEach(async () => {
+    useRepositories(createMemoryRepositories(createMemoryStore()))
+    await repositories.chapters.insertNew(
+      ["1", "2", "10", "10.5", "Extra"].map((chapter, index) => ({
+        manga_hid: "h1",
+        chapter_hid: `c${index}`,
+        chapter,
+        published_at: "2026-01-01T00:00:00.000Z",
+      })),
+    )
+  })
+
+  it("completes a finished series once its last known chapter is read", async () => {
+    expect(await autoTransitionFor(bookmark(), "10.5")).toMatchObject({
+      from_status: "reading",
+      to_status: "completed",
+      reason: "finished_series",
+    })
+    expect(await autoTransitionFor(bookmark(), "11")).toMatchObject({ to_status: "completed" })
+  })
+
+  it("keeps reading before the last chapter or while the series is still publishing", async () => {
+    expect(await autoTransitionFor(bookmark(), "10")).toBeNull()
+    expect(await autoTransitionFor(bookmark({ manga_status: 1 }), "10.5")).toBeNull()
+    expect(await autoTransitionFor(bookmark(), "Extra")).toBeNull()
+  })
+
+  it("starts a planned series, or completes it when the first progress is the last chapter", async () => {
+    expect(await autoTransitionFor(bookmark({ reading_status: "plan_to_read" }), "1")).toMatchObject({
+      from_status: "plan_to_read",
+      to_status: "reading",
+      reason: "started_reading",
+    })
+    expect(await autoTransitionFor(bookmark({ reading_status: undefined }), "2")).toMatchObject({
+      from_status: null,
+      to_status: "reading",
+    })
+    expect(await autoTransitionFor(bookmark({ reading_status: "plan_to_read" }), "10.5")).toMatchObject({
+      to_status: "completed",
+    })
+  })
+
+  it("leaves on hold, dropped, completed and opted-out bookmarks alone", async () => {
+    for (const reading_status of ["on_hold", "dropped", "completed"] as const) {
+      expect(await autoTransitionFor(bookmark({ reading_status }), "10.5")).toBeNull()
+    }
+    expect(await autoTransitionFor(bookmark({ auto_status: false }), "10.5")).toBeNull()
+    expect(await autoTransitionFor(bookmark({ reading_status: "plan_to_read", auto_status: false }), "1")).toBeNull()
+  })
+
+  it("doesn't complete a series without chapters on record", async () => {
+    expect(await autoTransitionFor(bookmark({ manga_hid: "h2" }), "100")).toBeNull()
+  })
+
+  it("records manual changes only when the status changes", () => {
+    expect(manualTransition(bookmark(), "dropped")).toMatchObject({
+      from_status: "reading",
+      to_status: "dropped",
+      reason: "manual",
+    })
+    expect(manualTransition(bookmark(), "reading")).toBeNull()
+    expect(manualTransition(bookmark({ reading_status: undefined }), "plan_to_read")).toBeNull()
+  })
+})
@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it, jest } from "@jest/globals"
+import { createMemoryRepositories, createMemoryStore, repositories, useRepositories } from "../../repositories"
+import type { MemoryStore } from "../../repositories/memory/store"
+import { checkUsername, claimUsername, resolveUsername } from "../usernames"
+
+jest.mock("../../config", () => ({
+  __esModule: true,
+  default: {
+    nodeEnv: "test",
+    dataStore: "memory",
+    usernames: { changeCooldownDays: 30, releaseHoldDays: 90, reserved: ["admin"] },
+  },
+}))
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const daysAgo = (days: number) => new Date(Date.now() - days * DAY_MS).toISOString()
+
+// Moves the user's claims back in time, as if they had been made `days` earlier
+const age = (store: MemoryStore, userId: string, days: number) =>
+  store.usernames
+    .filter((claim) => claim.user_id === userId)
+    .forEach((claim) => {
+      claim.claimed_at = new Date(Date.parse(claim.claimed_at) - days * DAY_MS).toISOString()
+      if (claim.released_at) claim.released_at = new Date(Date.parse(claim.released_at) - days * DAY_MS).toISOString()
+    })
+
+describe("usernames", () => {
+  let store: MemoryStore
+
+  beforeEach(async () => {
+    store = createMemoryStore()
+    useRepositories(createMemoryRepositories(store))
+    await repositories.profiles.create({ id: "u1", username: "alice" })
+    await repositories.profiles.create({ id: "u2", username: "bob_legacy" })
+  })
+
+  it("rejects invalid and reserved names", async () => {
+    expect((await checkUsername("a!")).data?.reason).toBe("invalid")
+    expect((await checkUsername("Admin")).data?.reason).toBe("reserved")
+  })
+
+  it("treats names on profiles without a claim as taken by their owner", async () => {
+    expect((await checkUsername("BOB_legacy")).data?.reason).toBe("taken")
+    expect((await checkUsername("bob_legacy", "u2")).data?.available).toBe(true)
+  })
+
+  it("lets a user claim a first name without waiting out the cooldown", async () => {
+    const { claim, error } = await claimUsername("u1", "alice")
+
+    expect(error).toBeUndefined()
+    expect(claim).toMatchObject({ username: "alice", released_at: null })
+  })
+
+  it("keeps the current name as a no-op and makes other changes wait out the cooldown", async () => {
+    await claimUsername("u1", "alice")
+    age(store, "u1", 1)
+    await claimUsername("u1", "alicia")
+
+    expect((await claimUsername("u1", "alicia")).error).toBeUndefined()
+
+    const { error } = await claimUsername("u1", "Alicia")
+    expect(error?.statusCode).toBe(429)
+
+    age(store, "u1", 30)
+    expect((await claimUsername("u1", "Alicia")).claim?.username).toBe("Alicia")
+  })
+
+  it("holds a released name for its previous owner", async () => {
+    await claimUsername("u1", "alice")
+    age(store, "u1", 1)
+    await claimUsername("u1", "alicia")
+
+    expect((await checkUsername("alice")).data?.reason).toBe("taken")
+    expect((await checkUsername("alice", "u1")).data?.available).toBe(true)
+
+    store.usernames.find((claim) => claim.username === "alice")!.released_at = daysAgo(91)
+    expect((await checkUsername("alice")).data?.available).toBe(true)
+  })
+
+  it("keeps the history of names and points old names at the current one", async () => {
+    await claimUsername("u1", "alice")
+    age(store, "u1", 1)
+    await claimUsername("u1", "alicia")
+
+    const { data: history } = await repositories.usernames.listByUser("u1")
+    expect(history?.map((claim) => [claim.username, claim.released_at === null])).toEqual([
+      ["alicia", true],
+      ["alice", false],
+    ])
+
+    const resolved = await resolveUsername("alice")
+    expect(resolved.movedTo).toBe("alicia")
+  })
+})
@@ -0,0 +1,21 @@
+import type { UserProfile, UserRole } from "../types"
+
+export const roleOf = (profile?: UserProfile | null): UserRole => profile?.role || "user"
+
+// Returns why the account may not sign in, or null when it is in good standing.
+// Suspensions lapse on their own once suspended_until has passed.
+export const getAccountRestriction = (profile?: UserProfile | null): string | null => {
+  if (!profile || !profile.status || profile.status === "active") return null
+
+  if (profile.status === "banned") {
+    return "This account has been banned."
+  }
+
+  if (profile.suspended_until && new Date(profile.suspended_until) <= new Date()) {
+    return null
+  }
+
+  return profile.suspended_until
+    ? `This account is suspended until ${profile.suspended_until}.`
+    : "This account is suspended."
+}
@@ -0,0 +1,45 @@
+import sharp from "sharp"
+import config from "../config"
+
+export const AVATAR_SOURCE_FORMATS = ["jpeg", "png", "gif", "webp"] as const
+
+export type AvatarSourceFormat = (typeof AVATAR_SOURCE_FORMATS)[number]
+
+export interface AvatarRendition {
+  size: number
+  body: Buffer
+}
+
+const startsWith = (bytes: Buffer, signature: number[], offset = 0) =>
+  bytes.length >= offset + signature.length && signature.every((byte, i) => bytes[offset + i] === byte)
+
+const ascii = (text: string) => [...text].map((char) => char.charCodeAt(0))
+
+// Identifies an upload by its leading bytes; the mimetype and file name sent by
+// the client are not trusted
+export const detectImageFormat = (bytes: Buffer): AvatarSourceFormat | null => {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return "jpeg"
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "png"
+  if (startsWith(bytes, ascii("GIF87a")) || startsWith(bytes, ascii("GIF89a"))) return "gif"
+  if (startsWith(bytes, ascii("RIFF")) && startsWith(bytes, ascii("WEBP"), 8)) return "webp"
+  return null
+}
+
+// One square WebP image per configured size. The EXIF orientation is applied
+// before the center crop; sharp writes no metadata unless asked to, so EXIF and
+// other embedded data never reach storage. Animated images keep their first frame.
+// Rejects when the image can't be decoded.
+export const renderAvatars = async (image: Buffer): Promise<AvatarRendition[]> => {
+  const source = sharp(image, { limitInputPixels: config.avatars.maxInputPixels }).rotate()
+
+  return Promise.all(
+    config.avatars.sizes.map(async (size) => ({
+      size,
+      body: await source
+        .clone()
+        .resize(size, size, { fit: "cover", position: "centre" })
+        .webp({ quality: config.avatars.webpQuality })
+        .toBuffer(),
+    })),
+  )
+}
@@ -0,0 +1,60 @@
+import { repositories } from "../repositories"
+import logger from "./logger"
+import { extractMentions } from "./commentMarkup"
+import type { CommentNode, CommentRecord } from "../types/comment.types"
+import type { BlockKind } from "../types/social.types"
+
+// Authors the viewer has blocked or muted, whose comments they don't see
+export const hiddenAuthorIds = async (viewerId?: string): Promise<string[]> => {
+  if (!viewerId) return []
+
+  const { data, error } = await repositories.userBlocks.listByUser(viewerId)
+  if (error) {
+    logger.error("Block list fetch error:", error)
+  }
+  return [...new Set((data || []).map((row) => row.target_id))]
+}
+
+// Which of userIds have blocked (or, with mute included, muted) the actor.
+// Lookup failures are logged and treated as no blocks.
+export const usersShunning = async (
+  actorId: string,
+  userIds: string[],
+  kinds: BlockKind[] = ["block"]
+): Promise<Set<string>> => {
+  const candidates = userIds.filter((id) => id !== actorId)
+  if (candidates.length === 0) return new Set()
+
+  const { data, error } = await repositories.userBlocks.listAgainst(actorId, candidates)
+  if (error) {
+    logger.error("Block lookup error:", error)
+  }
+  return new Set((data || []).filter((row) => kinds.includes(row.kind)).map((row) => row.user_id))
+}
+
+// Why the author may not post this comment, if a blocker is the parent's author
+// or is mentioned in it
+export const commentBlockReason = async (
+  authorId: string,
+  content: CommentNode[],
+  parent?: CommentRecord | null
+): Promise<string | null> => {
+  const mentions = extractMentions(content)
+  const { data: mentioned, error } = mentions.length
+    ? await repositories.profiles.findManyByUsernames(mentions)
+    : { data: [], error: null }
+  if (error) {
+    logger.error("Mentioned profile fetch error:", error)
+  }
+
+  const blockers = await usersShunning(authorId, [
+    ...(parent ? [parent.user_id] : []),
+    ...(mentioned || []).map((profile) => profile.id),
+  ])
+
+  if (parent && blockers.has(parent.user_id)) {
+    return "You cannot reply to this user"
+  }
+  const blockedMention = (mentioned || []).find((profile) => blockers.has(profile.id))
+  return blockedMention ? `You cannot mention @${blockedMention.username}` : null
+}
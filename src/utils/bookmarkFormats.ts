@@ -0,0 +1,434 @@
+import type { Bookmark, ReadingStatus } from "../types/bookmark.types"
+import type { MangaMatch } from "./mangaLookup"
+
+export const EXPORT_FORMATS = ["csv", "json", "mal"] as const
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number]
+
+// "json" is our own export; "anilist" is an AniList list export
+export const IMPORT_FORMATS = ["csv", "json", "mal", "anilist"] as const
+
+export type ImportFormat = (typeof IMPORT_FORMATS)[number]
+
+// One entry read from an import file, before it is matched to a manga
+export interface ImportEntry {
+  // 1-based position in the file, for reporting
+  row: number
+  title: string
+  mal_id?: number | null
+  anilist_id?: number | null
+  // Set when the file already identifies the manga (our own exports)
+  manga?: MangaMatch
+  // Undefined when the file has no status for the entry
+  reading_status?: ReadingStatus
+  last_read_chapter?: string
+  last_read_chapter_hid?: string
+  // Only our own JSON export carries these; left undefined, the bookmark keeps its own
+  score?: number | null
+  notes?: string | null
+  review?: string | null
+  reviewed_at?: string | null
+  auto_status?: boolean
+  // Why the entry can't be imported, when it can't
+  error?: string
+}
+
+const READING_STATUSES: ReadingStatus[] = ["plan_to_read", "reading", "on_hold", "dropped", "completed"]
+
+// Status names used by MyAnimeList, AniList and spreadsheets, normalized to
+// lower case with separators removed
+const EXTERNAL_STATUSES: Record<string, ReadingStatus> = {
+  reading: "reading",
+  current: "reading",
+  repeating: "reading",
+  rereading: "reading",
+  completed: "completed",
+  complete: "completed",
+  onhold: "on_hold",
+  paused: "on_hold",
+  dropped: "dropped",
+  plantoread: "plan_to_read",
+  planning: "plan_to_read",
+  planned: "plan_to_read",
+  "1": "reading",
+  "2": "completed",
+  "3": "on_hold",
+  "4": "dropped",
+  "6": "plan_to_read",
+}
+
+export const mapExternalStatus = (value?: string | null): ReadingStatus | null => {
+  if (!value) return null
+  if ((READING_STATUSES as string[]).includes(value)) return value as ReadingStatus
+  return EXTERNAL_STATUSES[value.toLowerCase().replace(/[\s_-]/g, "")] || null
+}
+
+const chapterCount = (value: unknown): string | undefined => {
+  const count = Number(value)
+  return Number.isFinite(count) && count > 0 ? String(count) : undefined
+}
+
+const entry = (
+  row: number,
+  title: string | undefined,
+  status: string | null | undefined,
+  fields: Partial<ImportEntry> = {},
+): ImportEntry => {
+  const readingStatus = mapExternalStatus(status)
+  const error = !title?.trim()
+    ? "Missing title"
+    : status && !readingStatus
+      ? `Unknown status "${status}"`
+      : undefined
+
+  return {
+    ...fields,
+    row,
+    title: title?.trim() || "",
+    ...(readingStatus && { reading_status: readingStatus }),
+    ...(error && { error }),
+  }
+}
+
+const CSV_COLUMNS: (keyof Bookmark)[] = [
+  "manga_id",
+  "manga_hid",
+  "manga_title",
+  "manga_slug",
+  "manga_cover_b2key",
+  "manga_status",
+  "manga_country",
+  "reading_status",
+  "last_read_chapter",
+  "last_read_chapter_hid",
+  "last_read_at",
+  "score",
+  "notes",
+  "review",
+  "reviewed_at",
+  "created_at",
+]
+
+// Values spreadsheet apps run as formulas: anything starting with =, @, a tab or a
+// carriage return, and +/- when followed by a number, an operator or a call
+// ("-5+A1", "+cmd|..."), but not plain text such as "-Ra-"
+const FORMULA_PREFIX = /^(?:[=@\t\r]|[+-](?:[\d.=+\-@(]|[\s\S]*[(|!]))/
+
+// Formula-like values get a leading apostrophe, which spreadsheets show as text
+// and parseCsv strips again
+const csvCell = (value: unknown): string => {
+  const raw = value === undefined || value === null ? "" : String(value)
+  const text = FORMULA_PREFIX.test(raw) ? `'${raw}` : raw
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const csvValue = (cell: string): string => (cell[0] === "'" && FORMULA_PREFIX.test(cell.slice(1)) ? cell.slice(1) : cell)
+
+// RFC 4180: quoted fields may contain commas, doubled quotes and line breaks
+const parseCsvRecords = (text: string): string[][] => {
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ""
+  let quoted = false
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index]
+
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"'
+        index++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ",") {
+      record.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") index++
+      record.push(field)
+      records.push(record)
+      record = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+
+  if (field || record.length) {
+    record.push(field)
+    records.push(record)
+  }
+  return records.filter((fields) => fields.some((value) => value.trim()))
+}
+
+export const toCsv = (bookmarks: Bookmark[]): string =>
+  [CSV_COLUMNS.join(","), ...bookmarks.map((bookmark) => CSV_COLUMNS.map((column) => csvCell(bookmark[column])).join(","))]
+    .join("\r\n") + "\r\n"
+
+// Accepts our own export as well as hand-made sheets with just a title and status
+// (column names are matched case-insensitively; "title"/"status"/"chapter" work too)
+export const parseCsv = (text: string): ImportEntry[] => {
+  const [header, ...records] = parseCsvRecords(text.replace(/^\uFEFF/, ""))
+  if (!header) return []
+
+  const columns = header.map((name) => name.trim().toLowerCase())
+  const column = (...names: string[]) => columns.findIndex((name) => names.includes(name))
+  const index = {
+    id: column("manga_id"),
+    hid: column("manga_hid"),
+    title: column("manga_title", "title"),
+    slug: column("manga_slug", "slug"),
+    cover: column("manga_cover_b2key"),
+    mangaStatus: column("manga_status"),
+    country: column("manga_country"),
+    status: column("reading_status", "status"),
+    chapter: column("last_read_chapter", "chapter", "chapters_read", "progress"),
+    chapterHid: column("last_read_chapter_hid"),
+    malId: column("mal_id"),
+    anilistId: column("anilist_id"),
+    score: column("score"),
+    notes: column("notes"),
+    review: column("review"),
+    reviewedAt: column("reviewed_at"),
+  }
+  if (index.title === -1) {
+    throw new Error("CSV header must include a manga_title or title column")
+  }
+
+  return records.map((fields, position) => {
+    const value = (at: number) => (at === -1 ? undefined : csvValue(fields[at]?.trim() || "").trim() || undefined)
+    const identified = value(index.id) && value(index.hid) && value(index.slug)
+    // Present columns with an empty cell clear the field; missing columns leave it alone
+    const cell = (at: number) => (at === -1 ? undefined : value(at) ?? null)
+    const score = cell(index.score)
+
+    return entry(position + 2, value(index.title), value(index.status), {
+      ...reviewFields({
+        score: score ? Number(score) : score,
+        notes: cell(index.notes),
+        review: cell(index.review),
+        reviewed_at: cell(index.reviewedAt),
+      }),
+      mal_id: value(index.malId) ? Number(value(index.malId)) : null,
+      anilist_id: value(index.anilistId) ? Number(value(index.anilistId)) : null,
+      last_read_chapter: value(index.chapter),
+      last_read_chapter_hid: value(index.chapterHid),
+      ...(identified && {
+        manga: {
+          manga_id: value(index.id)!,
+          manga_hid: value(index.hid)!,
+          manga_title: value(index.title)!,
+          manga_slug: value(index.slug)!,
+          manga_cover_b2key: value(index.cover),
+          manga_status: value(index.mangaStatus) ? Number(value(index.mangaStatus)) : 1,
+          manga_country: value(index.country) || "jp",
+        },
+      }),
+    })
+  })
+}
+
+export const toJson = (bookmarks: Bookmark[]): string =>
+  JSON.stringify(
+    {
+      exported_at: new Date().toISOString(),
+      bookmarks: bookmarks.map(({ id, user_id, username, ...bookmark }) => bookmark),
+    },
+    null,
+    2,
+  )
+
+const optionalText = (value: unknown, max: number): string | null | undefined | Error => {
+  if (value === undefined) return undefined
+  if (value === null) return null
+  if (typeof value !== "string" || value.length > max) return new Error()
+  return value.trim() || null
+}
+
+// Score, notes, review and auto_status as toJson writes them. Fields missing
+// from the entry stay undefined; an invalid one becomes the entry's error.
+const reviewFields = (bookmark: any): Partial<ImportEntry> => {
+  const fields: Partial<ImportEntry> = {}
+  if (!bookmark || typeof bookmark !== "object") return fields
+
+  const { score, auto_status, reviewed_at } = bookmark
+  if (score !== undefined) {
+    if (score !== null && !(Number.isInteger(score) && score >= 1 && score <= 10)) {
+      return { error: "Score must be a whole number from 1 to 10" }
+    }
+    fields.score = score
+  }
+
+  const notes = optionalText(bookmark.notes, 5000)
+  if (notes instanceof Error) return { error: "Notes must be text of at most 5000 characters" }
+  if (notes !== undefined) fields.notes = notes
+
+  const review = optionalText(bookmark.review, 10000)
+  if (review instanceof Error) return { error: "Review must be text of at most 10000 characters" }
+  if (review !== undefined) {
+    fields.review = review
+    fields.reviewed_at = review
+      ? typeof reviewed_at === "string" && !Number.isNaN(Date.parse(reviewed_at))
+        ? reviewed_at
+        : new Date().toISOString()
+      : null
+  }
+
+  if (typeof auto_status === "boolean") fields.auto_status = auto_status
+  return fields
+}
+
+export const parseJson = (text: string): ImportEntry[] => {
+  const body = JSON.parse(text)
+  const bookmarks: any[] = Array.isArray(body) ? body : body?.bookmarks
+  if (!Array.isArray(bookmarks)) {
+    throw new Error("JSON import must be an array of bookmarks or an object with a bookmarks array")
+  }
+
+  return bookmarks.map((bookmark, position) => {
+    const identified = bookmark?.manga_id && bookmark?.manga_hid && bookmark?.manga_slug
+    const personal = reviewFields(bookmark)
+
+    return entry(position + 1, bookmark?.manga_title, bookmark?.reading_status, {
+      ...personal,
+      last_read_chapter: bookmark?.last_read_chapter ? String(bookmark.last_read_chapter) : undefined,
+      last_read_chapter_hid: bookmark?.last_read_chapter_hid || undefined,
+      ...(identified && {
+        manga: {
+          manga_id: String(bookmark.manga_id),
+          manga_hid: bookmark.manga_hid,
+          manga_title: bookmark.manga_title,
+          manga_slug: bookmark.manga_slug,
+          manga_cover_b2key: bookmark.manga_cover_b2key || undefined,
+          manga_status: bookmark.manga_status ?? 1,
+          manga_country: bookmark.manga_country || "jp",
+        },
+      }),
+    })
+  })
+}
+
+// AniList exports (or GraphQL MediaListCollection responses): lists of entries
+// with a status, chapter progress and the media's titles and ids
+export const parseAniList = (text: string): ImportEntry[] => {
+  const body = JSON.parse(text)
+  const collection = body?.data?.MediaListCollection || body?.MediaListCollection || body
+  const lists: any[] = Array.isArray(collection) ? collection : collection?.lists
+  if (!Array.isArray(lists)) {
+    throw new Error("AniList import must contain a lists array")
+  }
+
+  // Some exports are a flat list of entries rather than named lists
+  const entries: any[] = lists.flatMap((list) => (Array.isArray(list?.entries) ? list.entries : [list]))
+
+  return entries.map((item, position) => {
+    const title = item?.media?.title
+    return entry(position + 1, title?.english || title?.romaji || title?.native || title?.userPreferred, item?.status, {
+      anilist_id: item?.media?.id ?? null,
+      mal_id: item?.media?.idMal ?? null,
+      last_read_chapter: chapterCount(item?.progress),
+    })
+  })
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" }
+
+const decodeXml = (value: string): string =>
+  value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, name: string) => {
+    if (name[0] === "#") {
+      const code = name[1].toLowerCase() === "x" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10)
+      return Number.isNaN(code) ? match : String.fromCodePoint(code)
+    }
+    return XML_ENTITIES[name.toLowerCase()] ?? match
+  })
+
+const xmlField = (block: string, tag: string): string | undefined => {
+  const match = new RegExp(`<${tag}>\\s*(?:<!\\[CDATA\\[([\\s\\S]*?)\\]\\]>|([^<]*))\\s*</${tag}>`).exec(block)
+  if (!match) return undefined
+  return match[1] !== undefined ? match[1] : decodeXml(match[2])
+}
+
+// MAL list exports are flat: one <manga> element per entry with scalar children
+export const parseMalXml = (text: string): ImportEntry[] => {
+  if (!/<myanimelist[\s>]/.test(text)) {
+    throw new Error("Not a MyAnimeList export: missing <myanimelist> root element")
+  }
+
+  const blocks = text.match(/<manga>[\s\S]*?<\/manga>/g) || []
+  return blocks.map((block, position) => {
+    const malId = Number(xmlField(block, "manga_mangadb_id"))
+    return entry(position + 1, xmlField(block, "manga_title"), xmlField(block, "my_status"), {
+      mal_id: malId > 0 ? malId : null,
+      last_read_chapter: chapterCount(xmlField(block, "my_read_chapters")),
+    })
+  })
+}
+
+const MAL_STATUSES: Record<ReadingStatus, string> = {
+  reading: "Reading",
+  completed: "Completed",
+  on_hold: "On-Hold",
+  dropped: "Dropped",
+  plan_to_read: "Plan to Read",
+}
+
+// MAL matches imports by its own ids, which we don't store, so entries carry
+// id 0 and rely on MAL's title matching
+export const toMalXml = (bookmarks: Bookmark[]): string => {
+  const entries = bookmarks.map((bookmark) =>
+    [
+      "  <manga>",
+      "    <manga_mangadb_id>0</manga_mangadb_id>",
+      `    <manga_title><![CDATA[${bookmark.manga_title.replace(/\]\]>/g, "]]]]><![CDATA[>")}]]></manga_title>`,
+      `    <my_read_chapters>${Math.floor(Number(bookmark.last_read_chapter) || 0)}</my_read_chapters>`,
+      `    <my_status>${MAL_STATUSES[bookmark.reading_status || "plan_to_read"]}</my_status>`,
+      "    <update_on_import>1</update_on_import>",
+      "  </manga>",
+    ].join("\n"),
+  )
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" ?>',
+    "<myanimelist>",
+    "  <myinfo>",
+    "    <user_export_type>2</user_export_type>",
+    `    <user_total_manga>${bookmarks.length}</user_total_manga>`,
+    "  </myinfo>",
+    ...entries,
+    "</myanimelist>",
+    "",
+  ].join("\n")
+}
+
+export const parseImport = (format: ImportFormat, text: string): ImportEntry[] => {
+  switch (format) {
+    case "csv":
+      return parseCsv(text)
+    case "json":
+      return parseJson(text)
+    case "anilist":
+      return parseAniList(text)
+    case "mal":
+      return parseMalXml(text)
+  }
+}
+
+// Guesses the format from the file name, then from the content
+export const detectImportFormat = (text: string, fileName?: string): ImportFormat | null => {
+  const extension = fileName?.split(".").pop()?.toLowerCase()
+  if (extension === "xml") return "mal"
+  if (extension === "csv") return "csv"
+
+  const start = text.replace(/^\uFEFF/, "").trimStart()
+  if (start.startsWith("<")) return "mal"
+  if (start.startsWith("{") || start.startsWith("[")) {
+    return /"(MediaListCollection|lists|entries|media)"/.test(start.slice(0, 2000)) ? "anilist" : "json"
+  }
+  if (extension === "json") return "json"
+  return start ? "csv" : null
+}
@@ -0,0 +1,127 @@
+import { promises as fs } from "fs"
+import config from "../config"
+import logger from "./logger"
+import { repositories } from "../repositories"
+import type { FeedChapter } from "../types/chapter.types"
+
+export interface ChapterSource {
+  fetchChapters(mangaHids: string[]): Promise<FeedChapter[]>
+}
+
+export interface ChapterIngestResult {
+  checked: number
+  added: number
+  failed: string[]
+}
+
+// Pulls the latest chapter list for each manga from the ComicK API. A request
+// that takes longer than timeoutMs is aborted and fails that manga.
+export const createComickChapterSource = (apiUrl: string, lang: string, timeoutMs: number): ChapterSource => ({
+  async fetchChapters(mangaHids) {
+    const chapters: FeedChapter[] = []
+
+    for (const mangaHid of mangaHids) {
+      const response = await fetch(
+        `${apiUrl}/comic/${encodeURIComponent(mangaHid)}/chapters?lang=${encodeURIComponent(lang)}&limit=100`,
+        { signal: AbortSignal.timeout(timeoutMs) },
+      )
+      if (!response.ok) {
+        throw new Error(`Chapter feed request for ${mangaHid} failed with status ${response.status}`)
+      }
+
+      const body = (await response.json()) as { chapters?: any[] }
+      ;(body.chapters || []).forEach((chapter) => {
+        chapters.push({
+          manga_hid: mangaHid,
+          chapter_hid: chapter.hid,
+          chapter: chapter.chap ?? null,
+          title: chapter.title ?? null,
+          lang: chapter.lang ?? lang,
+          published_at: chapter.publish_at || chapter.created_at,
+        })
+      })
+    }
+
+    return chapters
+  },
+})
+
+// Reads chapters from a JSON array on disk so local runs and tests don't need the network.
+// The file is re-read on every fetch, so editing it simulates new releases.
+export const createFixtureChapterSource = (filePath: string): ChapterSource => ({
+  async fetchChapters(mangaHids) {
+    const chapters = JSON.parse(await fs.readFile(filePath, "utf8")) as FeedChapter[]
+    return chapters.filter((chapter) => mangaHids.includes(chapter.manga_hid))
+  },
+})
+
+let source: ChapterSource =
+  config.chapterFeed.source === "fixture"
+    ? createFixtureChapterSource(config.chapterFeed.fixturePath)
+    : createComickChapterSource(config.comick.apiUrl, config.chapterFeed.lang, config.chapterFeed.timeoutMs)
+
+export const useChapterSource = (next: ChapterSource): void => {
+  source = next
+}
+
+// Fetches chapters for the given manga (every bookmarked manga by default) and
+// records the ones not seen before. A failing manga doesn't stop the others.
+export const ingestLatestChapters = async (mangaHids?: string[]): Promise<ChapterIngestResult> => {
+  let hids = mangaHids
+  if (!hids) {
+    const { data, error } = await repositories.bookmarks.listTrackedMangaHids()
+    if (error) {
+      throw new Error(error.message)
+    }
+    hids = data || []
+  }
+
+  const result: ChapterIngestResult = { checked: 0, added: 0, failed: [] }
+
+  for (const mangaHid of hids) {
+    try {
+      const chapters = (await source.fetchChapters([mangaHid])).filter(
+        (chapter) => chapter.manga_hid && chapter.chapter_hid && chapter.published_at,
+      )
+      const { data: added, error } = chapters.length
+        ? await repositories.chapters.insertNew(chapters)
+        : { data: [], error: null }
+
+      if (error) {
+        throw new Error(error.message)
+      }
+      result.checked += 1
+      result.added += added?.length || 0
+    } catch (error) {
+      logger.error(`Chapter feed ingest error for ${mangaHid}:`, error)
+      result.failed.push(mangaHid)
+    }
+  }
+
+  return result
+}
+
+// Polls the chapter feed in the background when an interval is configured. The
+// next run is scheduled only once the current one has finished, so a slow run
+// never overlaps the next.
+export const startChapterFeedJob = (): void => {
+  const minutes = config.chapterFeed.pollIntervalMinutes
+  if (!minutes || minutes <= 0) return
+
+  const schedule = () => {
+    setTimeout(run, minutes * 60 * 1000).unref()
+  }
+
+  const run = async () => {
+    try {
+      const { checked, added, failed } = await ingestLatestChapters()
+      logger.info(`Chapter feed: checked ${checked} manga, ${added} new chapters, ${failed.length} failed`)
+    } catch (error) {
+      logger.error("Chapter feed job error:", error)
+    } finally {
+      schedule()
+    }
+  }
+
+  schedule()
+}
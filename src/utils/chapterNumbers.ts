@@ -0,0 +1,9 @@
+// The leading number of a chapter label ("12", "12.5", "12a"), or null for labels
+// without one. Same grammar as public.chapter_number, so the API and the database
+// agree on which chapters are newer: no exponents, no Infinity.
+const CHAPTER_NUMBER_PATTERN = /^\s*([+-]?(?:\d+\.?\d*|\.\d+))/
+
+export const chapterNumber = (chapter?: string | null): number | null => {
+  const match = chapter ? CHAPTER_NUMBER_PATTERN.exec(chapter) : null
+  return match ? Number(match[1]) : null
+}
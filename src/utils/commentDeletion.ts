@@ -0,0 +1,53 @@
+import { repositories } from "../repositories"
+import type { CommentRecord } from "../types/comment.types"
+import { chapterChannel, publish } from "./realtime"
+
+export type CommentDeletionResult = "removed" | "tombstoned"
+
+// Comments with replies become tombstones so their threads stay intact;
+// childless ones are removed outright, along with any tombstoned ancestors
+// that are left without replies as a result.
+export const softDeleteComment = async (comment: CommentRecord, deletedBy: string): Promise<CommentDeletionResult> => {
+  const { data: replyCount, error: countError } = await repositories.comments.countReplies(comment.id)
+  if (countError) {
+    throw new Error(countError.message)
+  }
+
+  if (replyCount && replyCount > 0) {
+    const { error } = await repositories.comments.update(comment.id, {
+      deleted_at: new Date().toISOString(),
+      deleted_by: deletedBy,
+    })
+    if (error) {
+      throw new Error(error.message)
+    }
+    publish(chapterChannel(comment.manga_id, comment.chapter_hid), "comment.deleted", {
+      id: comment.id,
+      parent_id: comment.parent_id || null,
+      tombstoned: true,
+    })
+    return "tombstoned"
+  }
+
+  let current: CommentRecord | null = comment
+  while (current) {
+    const { error } = await repositories.comments.remove(current.id)
+    if (error) {
+      throw new Error(error.message)
+    }
+    publish(chapterChannel(current.manga_id, current.chapter_hid), "comment.deleted", {
+      id: current.id,
+      parent_id: current.parent_id || null,
+      tombstoned: false,
+    })
+
+    if (!current.parent_id) break
+    const { data: parent } = await repositories.comments.findById(current.parent_id)
+    if (!parent?.deleted_at) break
+
+    const { data: siblings } = await repositories.comments.countReplies(parent.id)
+    current = siblings === 0 ? parent : null
+  }
+
+  return "removed"
+}
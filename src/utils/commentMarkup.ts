@@ -0,0 +1,145 @@
+import type { CommentNode } from "../types/comment.types"
+
+// Inline markup understood in comments:
+//   **bold**  *italic* / _italic_  ||spoiler||  [label](https://...)
+//   bare http(s) URLs  @username
+// Anything that doesn't form a complete, well-formed element stays literal text.
+// The output never contains HTML; clients render the nodes themselves.
+
+const MAX_NESTING = 4
+
+const MENTION_PATTERN = /^@([A-Za-z0-9_]{3,30})(?![A-Za-z0-9_])/
+const LABELLED_LINK_PATTERN = /^\[([^\]\n]{1,200})\]\(([^\s)]{1,2000})\)/
+const BARE_URL_PATTERN = /^https?:\/\/[^\s<>]+/i
+const TRAILING_PUNCTUATION = /[.,;:!?'")\]]+$/
+
+interface ParseContext {
+  depth: number
+  inLink: boolean
+  inSpoiler: boolean
+}
+
+// Only absolute http(s) URLs are kept; anything else (javascript:, data:, ...) is dropped
+const safeHref = (raw: string): string | null => {
+  try {
+    const url = new URL(raw)
+    return url.protocol === "http:" || url.protocol === "https:" ? url.toString() : null
+  } catch {
+    return null
+  }
+}
+
+const isWordChar = (char: string | undefined): boolean => !!char && /[A-Za-z0-9_]/.test(char)
+
+const pushText = (nodes: CommentNode[], text: string) => {
+  if (!text) return
+  const last = nodes[nodes.length - 1]
+  if (last?.type === "text") {
+    last.text += text
+  } else {
+    nodes.push({ type: "text", text })
+  }
+}
+
+const parseInline = (source: string, context: ParseContext): CommentNode[] => {
+  const nodes: CommentNode[] = []
+  const nested = context.depth < MAX_NESTING
+  let index = 0
+
+  // Wraps source[start, end) in a container node when the closing delimiter exists
+  const tryContainer = (
+    open: string,
+    close: string,
+    build: (children: CommentNode[]) => CommentNode,
+    childContext: Partial<ParseContext> = {},
+  ): boolean => {
+    if (!nested || !source.startsWith(open, index)) return false
+    const end = source.indexOf(close, index + open.length)
+    if (end <= index + open.length) return false
+
+    const inner = source.slice(index + open.length, end)
+    if (!inner.trim()) return false
+
+    nodes.push(build(parseInline(inner, { ...context, ...childContext, depth: context.depth + 1 })))
+    index = end + close.length
+    return true
+  }
+
+  while (index < source.length) {
+    const char = source[index]
+    const rest = source.slice(index)
+    const previous = source[index - 1]
+
+    if (!context.inSpoiler && tryContainer("||", "||", (children) => ({ type: "spoiler", children }), { inSpoiler: true })) {
+      continue
+    }
+    if (tryContainer("**", "**", (children) => ({ type: "bold", children }))) {
+      continue
+    }
+    if (char === "*" && source[index + 1] !== "*" && tryContainer("*", "*", (children) => ({ type: "italic", children }))) {
+      continue
+    }
+    // Underscores inside words (snake_case) are not emphasis
+    if (char === "_" && !isWordChar(previous) && tryContainer("_", "_", (children) => ({ type: "italic", children }))) {
+      continue
+    }
+
+    if (char === "[" && !context.inLink && nested) {
+      const match = LABELLED_LINK_PATTERN.exec(rest)
+      const href = match && safeHref(match[2])
+      if (match && href) {
+        nodes.push({
+          type: "link",
+          href,
+          children: parseInline(match[1], { ...context, inLink: true, depth: context.depth + 1 }),
+        })
+        index += match[0].length
+        continue
+      }
+    }
+
+    if ((char === "h" || char === "H") && !context.inLink && !isWordChar(previous)) {
+      const match = BARE_URL_PATTERN.exec(rest)
+      if (match) {
+        const url = match[0].replace(TRAILING_PUNCTUATION, "")
+        const href = safeHref(url)
+        if (href) {
+          nodes.push({ type: "link", href, children: [{ type: "text", text: url }] })
+          index += url.length
+          continue
+        }
+      }
+    }
+
+    if (char === "@" && !isWordChar(previous)) {
+      const match = MENTION_PATTERN.exec(rest)
+      if (match) {
+        nodes.push({ type: "mention", username: match[1] })
+        index += match[0].length
+        continue
+      }
+    }
+
+    pushText(nodes, char)
+    index += 1
+  }
+
+  return nodes
+}
+
+export const parseCommentMarkup = (content: string): CommentNode[] =>
+  parseInline(content, { depth: 0, inLink: false, inSpoiler: false })
+
+// Usernames mentioned anywhere in the parsed content, without duplicates
+export const extractMentions = (nodes: CommentNode[]): string[] => {
+  const usernames = new Set<string>()
+  const visit = (node: CommentNode) => {
+    if (node.type === "mention") {
+      usernames.add(node.username)
+    } else if ("children" in node) {
+      node.children.forEach(visit)
+    }
+  }
+  nodes.forEach(visit)
+  return [...usernames]
+}
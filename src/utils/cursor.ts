@@ -0,0 +1,11 @@
+// Opaque pagination cursors: base64url-encoded JSON the client passes back unchanged
+export const encodeCursor = (value: object): string =>
+  Buffer.from(JSON.stringify(value)).toString("base64url")
+
+export const decodeCursor = <T>(cursor: string): T | null => {
+  try {
+    return JSON.parse(Buffer.from(cursor, "base64url").toString("utf8")) as T
+  } catch {
+    return null
+  }
+}
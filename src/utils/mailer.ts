@@ -0,0 +1,45 @@
+import { randomUUID } from "crypto"
+import { promises as fs } from "fs"
+import path from "path"
+import config from "../config"
+import logger from "./logger"
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+}
+
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>
+}
+
+// Logs only who a message is for. The body carries live reset and verification
+// links, so it never reaches the logs; use the file transport to read it locally.
+export const createConsoleTransport = (): MailTransport => ({
+  async send({ from, to, subject }) {
+    logger.info(`Mail from ${from} to ${to}: ${subject}`)
+  },
+})
+
+// Writes each message to its own JSON file so local runs and tests can read the outbox
+export const createFileTransport = (directory: string): MailTransport => ({
+  async send(message) {
+    await fs.mkdir(directory, { recursive: true })
+    const fileName = `${Date.now()}-${randomUUID()}.json`
+    await fs.writeFile(
+      path.join(directory, fileName),
+      JSON.stringify({ ...message, sent_at: new Date().toISOString() }, null, 2),
+    )
+  },
+})
+
+let transport: MailTransport =
+  config.mail.transport === "file" ? createFileTransport(config.mail.outboxDir) : createConsoleTransport()
+
+export const useMailTransport = (next: MailTransport): void => {
+  transport = next
+}
+
+export const sendMail = (message: MailMessage): Promise<void> =>
+  transport.send({ from: config.mail.from, ...message })
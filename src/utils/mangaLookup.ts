@@ -0,0 +1,102 @@
+import { promises as fs } from "fs"
+import config from "../config"
+import type { Bookmark } from "../types/bookmark.types"
+
+export type MangaMatch = Pick<
+  Bookmark,
+  "manga_id" | "manga_hid" | "manga_title" | "manga_slug" | "manga_cover_b2key" | "manga_status" | "manga_country"
+>
+
+// What other trackers tell us about an entry
+export interface MangaQuery {
+  title: string
+  mal_id?: number | null
+  anilist_id?: number | null
+}
+
+export interface MangaLookup {
+  find(query: MangaQuery): Promise<MangaMatch | null>
+}
+
+const sameTitle = (a?: string | null, b?: string | null): boolean =>
+  !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase()
+
+const toMatch = (comic: any): MangaMatch => ({
+  manga_id: String(comic.id),
+  manga_hid: comic.hid,
+  manga_title: comic.title,
+  manga_slug: comic.slug,
+  manga_cover_b2key: comic.md_covers?.[0]?.b2key,
+  manga_status: comic.status ?? 1,
+  manga_country: comic.country || "jp",
+})
+
+// Searches ComicK by title. Only an exact match on the title or one of its
+// alternative titles counts; a search hit with a different title is no match.
+export const createComickMangaLookup = (apiUrl: string, timeoutMs: number): MangaLookup => ({
+  async find({ title }) {
+    const response = await fetch(`${apiUrl}/v1.0/search/?q=${encodeURIComponent(title)}&limit=5&t=false`, {
+      signal: AbortSignal.timeout(timeoutMs),
+    })
+    if (!response.ok) {
+      throw new Error(`Manga search for "${title}" failed with status ${response.status}`)
+    }
+
+    const comics = (await response.json()) as any[]
+    if (!Array.isArray(comics) || comics.length === 0) return null
+
+    const exact = comics.find(
+      (comic) => sameTitle(comic.title, title) || (comic.md_titles || []).some((alt: any) => sameTitle(alt.title, title)),
+    )
+    return exact ? toMatch(exact) : null
+  },
+})
+
+// Reads known manga from a JSON array on disk, matching tracker ids first and then titles
+export const createFixtureMangaLookup = (filePath: string): MangaLookup => ({
+  async find({ title, mal_id, anilist_id }) {
+    const entries = JSON.parse(await fs.readFile(filePath, "utf8")) as (MangaMatch & {
+      mal_id?: number
+      anilist_id?: number
+    })[]
+
+    const entry =
+      (mal_id && entries.find((candidate) => candidate.mal_id === mal_id)) ||
+      (anilist_id && entries.find((candidate) => candidate.anilist_id === anilist_id)) ||
+      entries.find((candidate) => sameTitle(candidate.manga_title, title))
+    if (!entry) return null
+
+    const { mal_id: _mal, anilist_id: _anilist, ...match } = entry
+    return match
+  },
+})
+
+let lookup: MangaLookup =
+  config.mangaLookup.source === "fixture"
+    ? createFixtureMangaLookup(config.mangaLookup.fixturePath)
+    : createComickMangaLookup(config.comick.apiUrl, config.mangaLookup.timeoutMs)
+
+export const useMangaLookup = (next: MangaLookup): void => {
+  lookup = next
+}
+
+// Looks up every query, running at most config.mangaLookup.concurrency at once.
+// Results line up with the queries; a failed lookup is a rejected result.
+export const findMangas = async (queries: MangaQuery[]): Promise<PromiseSettledResult<MangaMatch | null>[]> => {
+  const results: PromiseSettledResult<MangaMatch | null>[] = new Array(queries.length)
+  let next = 0
+
+  const worker = async () => {
+    while (next < queries.length) {
+      const index = next++
+      try {
+        results[index] = { status: "fulfilled", value: await lookup.find(queries[index]) }
+      } catch (reason) {
+        results[index] = { status: "rejected", reason }
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(config.mangaLookup.concurrency, queries.length) }, worker))
+  return results
+}
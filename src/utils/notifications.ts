@@ -0,0 +1,141 @@
+import { repositories } from "../repositories"
+import logger from "./logger"
+import { publish, userChannel } from "./realtime"
+import { usersShunning } from "./blocks"
+import { extractMentions, parseCommentMarkup } from "./commentMarkup"
+import type { CommentRecord } from "../types/comment.types"
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  type NewNotification,
+  type NotificationPreferences,
+} from "../types/notification.types"
+import type { UserProfile } from "../types"
+
+export const notificationPreferencesOf = (profile?: Pick<UserProfile, "notification_preferences"> | null): NotificationPreferences => ({
+  ...DEFAULT_NOTIFICATION_PREFERENCES,
+  ...profile?.notification_preferences,
+})
+
+const wantsNotification = (profile: UserProfile | undefined, notification: NewNotification): boolean => {
+  if (notification.type === "moderation") return true
+  return notificationPreferencesOf(profile)[notification.type]
+}
+
+// Delivers notifications, skipping ones users would send themselves, ones from
+// users the recipient blocked or muted, and types the recipient has switched off.
+// Failures are logged rather than thrown: a missed notification should never fail
+// the action that caused it.
+export const sendNotifications = async (notifications: NewNotification[]): Promise<void> => {
+  try {
+    const candidates = notifications.filter((notification) => notification.user_id !== notification.actor_id)
+    if (candidates.length === 0) return
+
+    const recipientIds = [...new Set(candidates.map((notification) => notification.user_id))]
+    const { data: recipients, error: profileError } = await repositories.profiles.findManyByIds(recipientIds)
+    if (profileError) {
+      logger.error("Notification recipient fetch error:", profileError)
+    }
+    const recipientMap = new Map((recipients || []).map((profile) => [profile.id, profile]))
+
+    // Moderation notices come from staff and always get through
+    const silenced = new Set<string>()
+    const actorIds = [...new Set(candidates.map((notification) => notification.actor_id))]
+    for (const actorId of actorIds) {
+      if (!actorId) continue
+      const shunning = await usersShunning(actorId, recipientIds, ["block", "mute"])
+      shunning.forEach((userId) => silenced.add(`${userId}:${actorId}`))
+    }
+
+    const deliverable = candidates.filter(
+      (notification) =>
+        wantsNotification(recipientMap.get(notification.user_id), notification) &&
+        (notification.type === "moderation" || !silenced.has(`${notification.user_id}:${notification.actor_id}`)),
+    )
+    if (deliverable.length === 0) return
+
+    const { data: created, error } = await repositories.notifications.createMany(deliverable)
+    if (error) {
+      logger.error("Notification insert error:", error)
+    }
+    ;(created || []).forEach((notification) => {
+      publish(userChannel(notification.user_id), "notification", notification)
+    })
+  } catch (error) {
+    logger.error("Send notifications error:", error)
+  }
+}
+
+// Notifies the parent's author about a reply and anyone @mentioned in the comment.
+// `previousContent` is set for edits so only newly added mentions are notified.
+export const notifyCommentActivity = async (
+  comment: CommentRecord,
+  actorUsername: string,
+  parent?: CommentRecord | null,
+  previousContent?: string,
+): Promise<void> => {
+  const context = {
+    actor_id: comment.user_id,
+    comment_id: comment.id,
+    manga_id: comment.manga_id,
+    chapter_hid: comment.chapter_hid,
+  }
+  const notifications: NewNotification[] = []
+
+  if (parent && !parent.deleted_at) {
+    notifications.push({
+      ...context,
+      user_id: parent.user_id,
+      type: "reply",
+      message: `${actorUsername} replied to your comment`,
+    })
+  }
+
+  const previousMentions = new Set(
+    previousContent ? extractMentions(parseCommentMarkup(previousContent)).map((name) => name.toLowerCase()) : [],
+  )
+  const mentions = extractMentions(comment.content_parsed || parseCommentMarkup(comment.content)).filter(
+    (username) => !previousMentions.has(username.toLowerCase()),
+  )
+
+  if (mentions.length > 0) {
+    const { data: mentioned, error } = await repositories.profiles.findManyByUsernames(mentions)
+    if (error) {
+      logger.error("Mentioned profile fetch error:", error)
+    }
+
+    ;(mentioned || [])
+      // A reply notification already covers the parent's author
+      .filter((profile) => profile.id !== parent?.user_id)
+      .forEach((profile) => {
+        notifications.push({
+          ...context,
+          user_id: profile.id,
+          type: "mention",
+          message: `${actorUsername} mentioned you in a comment`,
+        })
+      })
+  }
+
+  await sendNotifications(notifications)
+}
+
+// Tells a comment's author that a moderator acted on it. Sent once the action
+// has been carried out; a comment removed outright is no longer linked.
+export const notifyModeration = async (
+  comment: CommentRecord,
+  message: string,
+  moderatorId?: string,
+  commentRemoved = false
+): Promise<void> => {
+  await sendNotifications([
+    {
+      user_id: comment.user_id,
+      type: "moderation",
+      actor_id: moderatorId || null,
+      comment_id: commentRemoved ? null : comment.id,
+      manga_id: comment.manga_id,
+      chapter_hid: comment.chapter_hid,
+      message,
+    },
+  ])
+}
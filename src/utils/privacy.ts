@@ -0,0 +1,22 @@
+import { repositories } from "../repositories"
+import { DEFAULT_LIBRARY_VISIBILITY, type LibraryVisibility, type UserProfile } from "../types"
+import logger from "./logger"
+
+export const libraryVisibilityOf = (profile: UserProfile): LibraryVisibility =>
+  profile.library_visibility || DEFAULT_LIBRARY_VISIBILITY
+
+// Owners always see their own library; a followers-only library is also shown
+// to the owner's followers. Lookup failures deny access.
+export const canViewLibrary = async (owner: UserProfile, viewerId?: string): Promise<boolean> => {
+  if (viewerId === owner.id) return true
+
+  const visibility = libraryVisibilityOf(owner)
+  if (visibility !== "followers") return visibility === "public"
+  if (!viewerId) return false
+
+  const { data, error } = await repositories.follows.exists(viewerId, owner.id)
+  if (error) {
+    logger.error("Follow lookup error:", error)
+  }
+  return data === true
+}
@@ -0,0 +1,28 @@
+import { repositories } from "../repositories"
+import logger from "./logger"
+import type { Bookmark } from "../types/bookmark.types"
+
+// Appends the bookmark's current chapter to the user's reading history. Failures
+// are logged rather than thrown so saving progress never fails because of history.
+export const recordReading = async (bookmark: Bookmark): Promise<void> => {
+  if (!bookmark.last_read_chapter) return
+
+  try {
+    const { error } = await repositories.readingHistory.create({
+      user_id: bookmark.user_id,
+      bookmark_id: bookmark.id,
+      manga_id: bookmark.manga_id,
+      manga_hid: bookmark.manga_hid,
+      manga_title: bookmark.manga_title,
+      manga_slug: bookmark.manga_slug,
+      chapter: bookmark.last_read_chapter,
+      chapter_hid: bookmark.last_read_chapter_hid || null,
+    })
+
+    if (error) {
+      logger.error("Reading history insert error:", error)
+    }
+  } catch (error) {
+    logger.error("Record reading error:", error)
+  }
+}
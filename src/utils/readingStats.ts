@@ -0,0 +1,100 @@
+import type { DailyCount, GroupCount, MangaReadingSpan, PeriodCount, ReadingStats } from "../types/stats.types"
+
+const WEEKS_SHOWN = 12
+const MONTHS_SHOWN = 12
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const toDay = (date: Date) => date.toISOString().slice(0, 10)
+
+const addDays = (day: string, days: number) => toDay(new Date(Date.parse(day) + days * DAY_MS))
+
+const weekStart = (day: string) => {
+  // getUTCDay() is 0 on Sunday; weeks start on Monday
+  const offset = (new Date(day).getUTCDay() + 6) % 7
+  return addDays(day, -offset)
+}
+
+const monthStart = (day: string) => `${day.slice(0, 7)}-01`
+
+const addMonths = (month: string, months: number) => {
+  const date = new Date(month)
+  date.setUTCMonth(date.getUTCMonth() + months)
+  return toDay(date)
+}
+
+// Rows without a value are counted under missingKey, merged with any real rows of that value
+export const toCountMap = (groups: GroupCount[], missingKey = "unknown"): Record<string, number> =>
+  groups.reduce<Record<string, number>>((counts, { value, count }) => {
+    const key = value === null || value === "" ? missingKey : String(value)
+    counts[key] = (counts[key] || 0) + count
+    return counts
+  }, {})
+
+// Totals for the last few weeks and months, zero-filled and oldest first
+const periodTotals = (days: DailyCount[], starts: string[], startOf: (day: string) => string): PeriodCount[] => {
+  const totals = new Map(starts.map((start) => [start, 0]))
+  days.forEach(({ day, count }) => {
+    const start = startOf(day)
+    if (totals.has(start)) totals.set(start, totals.get(start)! + count)
+  })
+  return starts.map((start) => ({ period_start: start, chapters: totals.get(start)! }))
+}
+
+// Streaks count consecutive UTC days with at least one chapter read. The current
+// streak is still alive if the last reading day was yesterday.
+const streaks = (days: DailyCount[], today: string) => {
+  let longest = 0
+  let run = 0
+  let previous: string | null = null
+
+  days.forEach(({ day }) => {
+    run = previous !== null && addDays(previous, 1) === day ? run + 1 : 1
+    longest = Math.max(longest, run)
+    previous = day
+  })
+
+  const current = previous !== null && (previous === today || addDays(previous, 1) === today) ? run : 0
+  return { current, longest }
+}
+
+export const summarizeActivity = (days: DailyCount[], now = new Date()): ReadingStats["reading"] => {
+  const today = toDay(now)
+  const thisWeek = weekStart(today)
+  const thisMonth = monthStart(today)
+  const weeks = Array.from({ length: WEEKS_SHOWN }, (_, i) => addDays(thisWeek, (i - WEEKS_SHOWN + 1) * 7))
+  const months = Array.from({ length: MONTHS_SHOWN }, (_, i) => addMonths(thisMonth, i - MONTHS_SHOWN + 1))
+  const { current, longest } = streaks(days, today)
+
+  return {
+    chapters_read: days.reduce((sum, { count }) => sum + count, 0),
+    days_active: days.length,
+    last_read_on: days.length ? days[days.length - 1].day : null,
+    weekly: periodTotals(days, weeks, weekStart),
+    monthly: periodTotals(days, months, monthStart),
+    current_streak_days: current,
+    longest_streak_days: longest,
+  }
+}
+
+// Time to complete runs from the first to the last chapter read of each completed series
+export const summarizeCompletion = (spans: MangaReadingSpan[]): ReadingStats["completion"] => {
+  const durations = spans
+    .map((span) => (Date.parse(span.last_read_at) - Date.parse(span.first_read_at)) / DAY_MS)
+    .sort((a, b) => a - b)
+
+  if (durations.length === 0) {
+    return { measured: 0, average_days: null, median_days: null, fastest_days: null, slowest_days: null }
+  }
+
+  const round = (days: number) => Math.round(days * 10) / 10
+  const middle = Math.floor(durations.length / 2)
+  const median = durations.length % 2 ? durations[middle] : (durations[middle - 1] + durations[middle]) / 2
+
+  return {
+    measured: durations.length,
+    average_days: round(durations.reduce((sum, days) => sum + days, 0) / durations.length),
+    median_days: round(median),
+    fastest_days: round(durations[0]),
+    slowest_days: round(durations[durations.length - 1]),
+  }
+}
@@ -0,0 +1,39 @@
+import { EventEmitter } from "events"
+import type { Comment } from "../types/comment.types"
+import type { Notification } from "../types/notification.types"
+import type { BlockKind } from "../types/social.types"
+
+// In-process pub/sub behind the live stream. Every event goes to a channel:
+// one per chapter for comment activity and one per user for notifications.
+export interface RealtimeEvents {
+  "comment.created": Comment
+  "comment.updated": Comment
+  "comment.deleted": { id: string; parent_id?: string | null; tombstoned: boolean }
+  notification: Notification
+  // The user blocked, muted, unblocked or unmuted someone; open streams re-read their block list
+  "blocks.changed": { target_id: string; kind: BlockKind; active: boolean }
+}
+
+export type RealtimeEventType = keyof RealtimeEvents
+
+export type RealtimeListener = <T extends RealtimeEventType>(type: T, payload: RealtimeEvents[T]) => void
+
+const bus = new EventEmitter()
+// One listener per open stream and channel
+bus.setMaxListeners(0)
+
+export const chapterChannel = (mangaId: string, chapterHid: string): string => `chapter:${mangaId}:${chapterHid}`
+
+export const userChannel = (userId: string): string => `user:${userId}`
+
+export const publish = <T extends RealtimeEventType>(channel: string, type: T, payload: RealtimeEvents[T]): void => {
+  bus.emit(channel, type, payload)
+}
+
+// Returns a function that removes the listener again
+export const subscribe = (channel: string, listener: RealtimeListener): (() => void) => {
+  bus.on(channel, listener)
+  return () => {
+    bus.off(channel, listener)
+  }
+}
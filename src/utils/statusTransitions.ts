@@ -0,0 +1,82 @@
+import { repositories } from "../repositories"
+import logger from "./logger"
+import { chapterNumber } from "./chapterNumbers"
+import type { Bookmark, ReadingStatus, StatusTransition, StatusTransitionReason } from "../types/bookmark.types"
+
+// ComicK's manga status for a series that has finished publishing
+export const FINISHED_MANGA_STATUS = 2
+
+// A status change not yet stored; returned to the client as-is
+export type PendingTransition = Omit<StatusTransition, "id" | "user_id" | "created_at">
+
+// Highest chapter number the chapter feed has recorded for the manga
+const lastKnownChapter = async (mangaHid: string): Promise<number | null> => {
+  const { data, error } = await repositories.chapters.latestChapterNumber(mangaHid)
+  if (error) {
+    logger.error("Last known chapter lookup error:", error)
+    return null
+  }
+  return data
+}
+
+// The status change that saving progress at `chapter` causes, if any: a planned
+// series moves to reading, and a series being read (a planned one included, as
+// this progress starts it) is completed once it has finished and its last known
+// chapter is read. On hold, dropped and completed bookmarks keep their status,
+// as do opted-out ones.
+export const autoTransitionFor = async (bookmark: Bookmark, chapter: string): Promise<PendingTransition | null> => {
+  const current = bookmark.reading_status || "plan_to_read"
+  if (bookmark.auto_status === false || (current !== "plan_to_read" && current !== "reading")) return null
+
+  const transition = (to_status: ReadingStatus, reason: StatusTransitionReason): PendingTransition => ({
+    bookmark_id: bookmark.id,
+    manga_id: bookmark.manga_id,
+    manga_title: bookmark.manga_title,
+    manga_slug: bookmark.manga_slug,
+    from_status: bookmark.reading_status ?? null,
+    to_status,
+    reason,
+  })
+
+  if (bookmark.manga_status === FINISHED_MANGA_STATUS && bookmark.manga_hid) {
+    const read = chapterNumber(chapter)
+    const last = await lastKnownChapter(bookmark.manga_hid)
+    if (read !== null && last !== null && read >= last) {
+      return transition("completed", "finished_series")
+    }
+  }
+
+  return current === "plan_to_read" ? transition("reading", "started_reading") : null
+}
+
+// A manual status change as a transition, or null when the status stays the same
+export const manualTransition = (bookmark: Bookmark, status: ReadingStatus): PendingTransition | null =>
+  (bookmark.reading_status || "plan_to_read") === status
+    ? null
+    : {
+        bookmark_id: bookmark.id,
+        manga_id: bookmark.manga_id,
+        manga_title: bookmark.manga_title,
+        manga_slug: bookmark.manga_slug,
+        from_status: bookmark.reading_status ?? null,
+        to_status: status,
+        reason: "manual",
+      }
+
+// Stores the transitions of the user's bookmarks. Failures are logged rather than
+// thrown so the status change itself is never undone because of its record.
+export const recordTransitions = async (userId: string, transitions: PendingTransition[]): Promise<void> => {
+  if (transitions.length === 0) return
+
+  try {
+    const { error } = await repositories.statusTransitions.createMany(
+      transitions.map((transition) => ({ ...transition, user_id: userId }))
+    )
+
+    if (error) {
+      logger.error("Status transition insert error:", error)
+    }
+  } catch (error) {
+    logger.error("Record status transitions error:", error)
+  }
+}
@@ -0,0 +1,33 @@
+import { randomBytes } from "crypto"
+import config from "../config"
+import type { AccessTokenClaims } from "../types/auth.types"
+
+interface PendingTicket {
+  user: AccessTokenClaims
+  expiresAt: number
+}
+
+// Kept in memory: like the realtime bus, tickets only mean anything to the
+// process that serves the stream
+const tickets = new Map<string, PendingTicket>()
+
+// A single-use ticket that opens one stream for the user within a few seconds
+export const issueStreamTicket = (user: AccessTokenClaims): { ticket: string; expires_at: string } => {
+  const now = Date.now()
+  tickets.forEach((pending, ticket) => {
+    if (pending.expiresAt <= now) tickets.delete(ticket)
+  })
+
+  const ticket = randomBytes(32).toString("base64url")
+  const expiresAt = now + config.realtime.ticketSeconds * 1000
+  tickets.set(ticket, { user, expiresAt })
+
+  return { ticket, expires_at: new Date(expiresAt).toISOString() }
+}
+
+// The claims the ticket was issued for, or null when it's unknown, used or expired
+export const redeemStreamTicket = (ticket: string): AccessTokenClaims | null => {
+  const pending = tickets.get(ticket)
+  tickets.delete(ticket)
+  return pending && pending.expiresAt > Date.now() ? pending.user : null
+}
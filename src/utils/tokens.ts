@@ -0,0 +1,30 @@
+import { createHash, randomBytes } from "crypto"
+import jwt from "jsonwebtoken"
+import config from "../config"
+import type { AccessTokenClaims } from "../types/auth.types"
+
+export const signAccessToken = (claims: AccessTokenClaims): string =>
+  jwt.sign(claims, config.jwtSecret, { expiresIn: config.auth.accessTokenTtlSeconds })
+
+export const hashToken = (value: string): string => createHash("sha256").update(value).digest("hex")
+
+// Refresh tokens are "<session id>.<secret>"; only a hash of the secret is stored
+export const generateRefreshToken = (sessionId: string): { token: string; hash: string } => {
+  const secret = randomBytes(32).toString("base64url")
+  return { token: `${sessionId}.${secret}`, hash: hashToken(secret) }
+}
+
+// Opaque single-use token for links sent by email
+export const generateOneTimeToken = (): { token: string; hash: string } => {
+  const token = randomBytes(32).toString("base64url")
+  return { token, hash: hashToken(token) }
+}
+
+export const parseRefreshToken = (token: string): { sessionId: string; secret: string } | null => {
+  const [sessionId, secret, ...rest] = token.split(".")
+  if (!sessionId || !secret || rest.length > 0) return null
+  return { sessionId, secret }
+}
+
+export const refreshTokenExpiry = (): string =>
+  new Date(Date.now() + config.auth.refreshTokenTtlDays * 24 * 60 * 60 * 1000).toISOString()
@@ -0,0 +1,169 @@
+import config from "../config"
+import { repositories, NOT_FOUND_CODE, UNIQUE_VIOLATION_CODE, type DataResult } from "../repositories"
+import type { UserProfile } from "../types"
+import {
+  USERNAME_PATTERN,
+  type UsernameAvailability,
+  type UsernameClaim,
+  type UsernameUnavailableReason,
+} from "../types/username.types"
+import { AppError } from "./appError"
+import logger from "./logger"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const UNAVAILABLE: Record<UsernameUnavailableReason, { message: string; status: number }> = {
+  invalid: { message: "Username must be 3 to 30 letters, numbers or underscores", status: 400 },
+  reserved: { message: "This username is reserved", status: 400 },
+  taken: { message: "Username is already taken", status: 409 },
+}
+
+// The error for a name that can't be claimed
+export const usernameUnavailableError = (reason: UsernameUnavailableReason) =>
+  new AppError(UNAVAILABLE[reason].message, UNAVAILABLE[reason].status)
+
+const unavailable = (reason: UsernameUnavailableReason): DataResult<UsernameAvailability> => ({
+  data: { available: false, reason },
+  error: null,
+})
+
+// A released name stays with its previous owner for a while, so links to the
+// old profile can't be taken over right after a rename
+const isHeld = (claim: UsernameClaim, at: number) =>
+  !claim.released_at || at - Date.parse(claim.released_at) < config.usernames.releaseHoldDays * DAY_MS
+
+// Whether userId (anyone, when omitted) may take the name. Profiles from before
+// the registry existed have no claim yet, so their names are checked as well.
+export const checkUsername = async (username: string, userId?: string): Promise<DataResult<UsernameAvailability>> => {
+  if (!USERNAME_PATTERN.test(username)) return unavailable("invalid")
+  if (config.usernames.reserved.includes(username.toLowerCase())) return unavailable("reserved")
+
+  const [claims, profiles] = await Promise.all([
+    repositories.usernames.listByName(username),
+    repositories.profiles.findManyByUsernames([username]),
+  ])
+
+  const error = claims.error || profiles.error
+  if (error) {
+    return { data: null, error }
+  }
+
+  const at = Date.now()
+  const taken =
+    claims.data!.some((claim) => claim.user_id !== userId && isHeld(claim, at)) ||
+    profiles.data!.some(
+      (profile) => profile.id !== userId && profile.username.toLowerCase() === username.toLowerCase(),
+    )
+
+  return taken ? unavailable("taken") : { data: { available: true, reason: null }, error: null }
+}
+
+// The user's current name, falling back to the profile for users who haven't
+// claimed one since the registry was added
+export const currentUsername = async (userId: string): Promise<string | undefined> => {
+  const { data: claims, error } = await repositories.usernames.listByUser(userId)
+  if (error) {
+    logger.error("Username lookup error:", error)
+    return undefined
+  }
+
+  const current = (claims || []).find((claim) => !claim.released_at)
+  if (current) return current.username
+
+  const { data: profile } = await repositories.profiles.findById(userId)
+  return profile?.username || undefined
+}
+
+// Makes username the user's current name, on the profile and bookmarks as well,
+// and moves the previous one into their history. Re-submitting the current name is a no-op; any other change, case-only
+// ones included, waits out the cooldown since the last change. The first name a
+// user claims is free.
+export const claimUsername = async (
+  userId: string,
+  username: string,
+): Promise<{ claim?: UsernameClaim; error?: AppError }> => {
+  const { data: history, error: historyError } = await repositories.usernames.listByUser(userId)
+  if (historyError) {
+    logger.error("Username history fetch error:", historyError)
+    return { error: new AppError("Error updating username", 500) }
+  }
+
+  const current = history!.find((claim) => !claim.released_at)
+  if (current?.username === username) {
+    return { claim: current }
+  }
+
+  const { data: availability, error: checkError } = await checkUsername(username, userId)
+  if (checkError) {
+    logger.error("Username availability error:", checkError)
+    return { error: new AppError("Error updating username", 500) }
+  }
+  if (!availability!.available) {
+    return { error: usernameUnavailableError(availability!.reason!) }
+  }
+
+  const lastChange = history!
+    .map((claim) => claim.released_at)
+    .filter((releasedAt): releasedAt is string => !!releasedAt)
+    .sort()
+    .pop()
+  const nextChange = lastChange ? Date.parse(lastChange) + config.usernames.changeCooldownDays * DAY_MS : 0
+  if (current && nextChange > Date.now()) {
+    return { error: new AppError(`You can change your username again after ${new Date(nextChange).toISOString()}`, 429) }
+  }
+
+  const { data: claim, error: claimError } = await repositories.usernames.claim(userId, username)
+  if (claimError) {
+    // Someone claimed the name in the meantime; the previous name stays current
+    if (claimError.code === UNIQUE_VIOLATION_CODE) {
+      return { error: usernameUnavailableError("taken") }
+    }
+    logger.error("Username claim error:", claimError)
+    return { error: new AppError("Error updating username", 500) }
+  }
+
+  return { claim: claim! }
+}
+
+// Finds the profile behind a public profile URL. A name its owner has since
+// changed comes back as movedTo, the owner's current name, so old links keep working.
+export const resolveUsername = async (
+  username: string,
+): Promise<{ profile?: UserProfile; movedTo?: string; error?: AppError }> => {
+  const { data: claims, error } = await repositories.usernames.listByName(username)
+  if (error) {
+    logger.error("Username lookup error:", error)
+    return { error: new AppError("Error fetching profile", 500) }
+  }
+
+  const current = claims!.find((claim) => !claim.released_at)
+  if (current) {
+    const { data: profile, error: profileError } = await repositories.profiles.findById(current.user_id)
+    if (profileError) {
+      if (profileError.code === NOT_FOUND_CODE) {
+        return { error: new AppError("User not found", 404) }
+      }
+      logger.error("Profile fetch error:", profileError)
+      return { error: new AppError("Error fetching profile", 500) }
+    }
+    return { profile: profile! }
+  }
+
+  // The most recent holder of a released name gets its redirect
+  if (claims!.length > 0) {
+    const movedTo = await currentUsername(claims![0].user_id)
+    if (movedTo && movedTo.toLowerCase() !== username.toLowerCase()) {
+      return { movedTo }
+    }
+  }
+
+  // Profiles whose names predate the registry
+  const { data: profiles, error: profileError } = await repositories.profiles.findManyByUsernames([username])
+  if (profileError) {
+    logger.error("Profile lookup error:", profileError)
+    return { error: new AppError("Error fetching profile", 500) }
+  }
+
+  const profile = (profiles || []).find((row) => row.username.toLowerCase() === username.toLowerCase())
+  return profile ? { profile } : { error: new AppError("User not found", 404) }
+}
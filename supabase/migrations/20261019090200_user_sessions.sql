@@ -0,0 +1,18 @@
+-- One row per signed-in device. Only a hash of the refresh token is stored; it
+-- changes on every refresh, so a reused token can be told apart from the current one.
+create table public.user_sessions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  refresh_token_hash text not null,
+  user_agent text,
+  ip_address text,
+  created_at timestamptz not null default now(),
+  last_used_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  revoked_at timestamptz
+);
+
+create index user_sessions_user_id_idx on public.user_sessions (user_id);
+
+-- The API reaches the table with the service role only
+alter table public.user_sessions enable row level security;
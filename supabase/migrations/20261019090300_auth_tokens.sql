@@ -0,0 +1,16 @@
+-- Single-use tokens mailed for password resets and email verification. Only a
+-- hash of each token is stored.
+create table public.auth_tokens (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  purpose text not null check (purpose in ('password_reset', 'email_verification')),
+  token_hash text not null unique,
+  expires_at timestamptz not null,
+  used_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index auth_tokens_user_id_purpose_idx on public.auth_tokens (user_id, purpose);
+
+-- The API reaches the table with the service role only
+alter table public.auth_tokens enable row level security;
@@ -0,0 +1,8 @@
+-- Roles for the admin and moderation API, and account suspensions and bans
+alter table public.profiles
+  add column role text not null default 'user'
+    check (role in ('user', 'moderator', 'admin')),
+  add column status text not null default 'active'
+    check (status in ('active', 'suspended', 'banned')),
+  add column suspended_until timestamptz,
+  add column status_reason text;
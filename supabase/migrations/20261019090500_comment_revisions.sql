@@ -0,0 +1,14 @@
+-- Comment edits: when a comment was last edited, and the text of every earlier version
+alter table public.comments add column edited_at timestamptz;
+
+create table public.comment_revisions (
+  id uuid primary key default gen_random_uuid(),
+  comment_id uuid not null references public.comments (id) on delete cascade,
+  content text not null,
+  edited_by uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create index comment_revisions_comment_id_idx on public.comment_revisions (comment_id, created_at);
+
+alter table public.comment_revisions enable row level security;
@@ -0,0 +1,13 @@
+-- One reaction per user per comment; reacting again replaces it. score is the
+-- comment's net reaction score, kept for sorting.
+alter table public.comments add column score integer not null default 0;
+
+create table public.comment_reactions (
+  comment_id uuid not null references public.comments (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  reaction text not null check (reaction in ('like', 'dislike', 'love', 'laugh', 'wow', 'sad')),
+  created_at timestamptz not null default now(),
+  primary key (comment_id, user_id)
+);
+
+alter table public.comment_reactions enable row level security;
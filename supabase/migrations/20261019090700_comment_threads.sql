@@ -0,0 +1,8 @@
+-- Nested replies: root_id is the top-level comment of the thread and depth the
+-- number of replies above this one
+alter table public.comments
+  add column root_id uuid references public.comments (id) on delete cascade,
+  add column depth integer not null default 0;
+
+create index comments_root_id_idx on public.comments (root_id);
+create index comments_chapter_idx on public.comments (manga_id, chapter_hid, created_at);
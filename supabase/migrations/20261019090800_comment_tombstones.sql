@@ -0,0 +1,4 @@
+-- A deleted comment with replies stays as a tombstone so the thread keeps its shape
+alter table public.comments
+  add column deleted_at timestamptz,
+  add column deleted_by uuid references auth.users (id) on delete set null;
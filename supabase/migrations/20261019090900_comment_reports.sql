@@ -0,0 +1,27 @@
+-- Reader reports and the moderation actions taken on them: hidden comments and
+-- warnings counted on the author's profile
+alter table public.comments
+  add column hidden_at timestamptz,
+  add column hidden_by uuid references auth.users (id) on delete set null;
+
+alter table public.profiles add column warning_count integer not null default 0;
+
+-- Each reader can report a comment once
+create table public.comment_reports (
+  id uuid primary key default gen_random_uuid(),
+  comment_id uuid not null references public.comments (id) on delete cascade,
+  reporter_id uuid not null references auth.users (id) on delete cascade,
+  reason text not null check (reason in ('spam', 'spoiler', 'harassment', 'offensive', 'other')),
+  details text,
+  status text not null default 'open' check (status in ('open', 'resolved')),
+  action text check (action in ('dismiss', 'hide', 'delete', 'warn')),
+  resolved_by uuid references auth.users (id) on delete set null,
+  resolved_at timestamptz,
+  resolution_note text,
+  created_at timestamptz not null default now(),
+  unique (comment_id, reporter_id)
+);
+
+create index comment_reports_open_idx on public.comment_reports (created_at) where status = 'open';
+
+alter table public.comment_reports enable row level security;
@@ -0,0 +1,2 @@
+-- The parsed form of a comment's markup, stored next to the source text
+alter table public.comments add column content_parsed jsonb;
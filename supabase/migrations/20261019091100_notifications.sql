@@ -0,0 +1,19 @@
+-- Reply, mention and moderation notifications, and which kinds each user wants
+alter table public.profiles add column notification_preferences jsonb;
+
+create table public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  type text not null check (type in ('reply', 'mention', 'moderation')),
+  actor_id uuid references auth.users (id) on delete set null,
+  comment_id uuid references public.comments (id) on delete set null,
+  manga_id text,
+  chapter_hid text,
+  message text not null,
+  read_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index notifications_user_id_idx on public.notifications (user_id, created_at desc);
+
+alter table public.notifications enable row level security;
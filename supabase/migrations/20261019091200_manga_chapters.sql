@@ -0,0 +1,14 @@
+-- Chapters seen in the ComicK feed for bookmarked manga
+create table public.manga_chapters (
+  id uuid primary key default gen_random_uuid(),
+  manga_hid text not null,
+  chapter_hid text not null,
+  chapter text,
+  title text,
+  lang text,
+  published_at timestamptz not null,
+  created_at timestamptz not null default now(),
+  unique (manga_hid, chapter_hid)
+);
+
+alter table public.manga_chapters enable row level security;
@@ -0,0 +1,27 @@
+-- User collections of bookmarks, ordered by hand, with an optional public share link
+create table public.collections (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  slug text not null unique,
+  description text,
+  is_public boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index collections_user_id_idx on public.collections (user_id);
+
+-- Removing a bookmark removes it from its collections
+create table public.collection_items (
+  collection_id uuid not null references public.collections (id) on delete cascade,
+  bookmark_id uuid not null references public.bookmarks (id) on delete cascade,
+  position integer not null,
+  added_at timestamptz not null default now(),
+  primary key (collection_id, bookmark_id)
+);
+
+create index collection_items_bookmark_id_idx on public.collection_items (bookmark_id);
+
+alter table public.collections enable row level security;
+alter table public.collection_items enable row level security;
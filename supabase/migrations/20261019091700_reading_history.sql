@@ -0,0 +1,18 @@
+-- One row per chapter read. Manga details are copied in so history survives the
+-- bookmark being removed.
+create table public.reading_history (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  bookmark_id uuid references public.bookmarks (id) on delete set null,
+  manga_id text not null,
+  manga_hid text not null,
+  manga_title text not null,
+  manga_slug text not null,
+  chapter text not null,
+  chapter_hid text,
+  read_at timestamptz not null default now()
+);
+
+create index reading_history_user_id_idx on public.reading_history (user_id, read_at desc);
+
+alter table public.reading_history enable row level security;
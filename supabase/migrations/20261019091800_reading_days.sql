@@ -0,0 +1,5 @@
+-- The UTC day of each read, so reading stats can group by day
+alter table public.reading_history
+  add column read_on date not null default (now() at time zone 'utc')::date;
+
+update public.reading_history set read_on = (read_at at time zone 'utc')::date;
@@ -0,0 +1,8 @@
+-- Personal scores and notes on bookmarks, and public reviews
+alter table public.bookmarks
+  add column score smallint check (score between 1 and 10),
+  add column notes text,
+  add column review text,
+  add column reviewed_at timestamptz;
+
+create index bookmarks_reviews_idx on public.bookmarks (manga_id, reviewed_at desc) where review is not null;
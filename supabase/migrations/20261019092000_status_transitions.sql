@@ -0,0 +1,23 @@
+-- auto_status = false opts a bookmark out of automatic reading status changes.
+-- Every status change, manual ones included, is kept in bookmark_status_transitions;
+-- bookmark_id has no foreign key so the record outlives the bookmark.
+
+alter table public.bookmarks
+  add column auto_status boolean not null default true;
+
+create table public.bookmark_status_transitions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  bookmark_id uuid not null,
+  manga_id text not null,
+  manga_title text not null,
+  manga_slug text not null,
+  from_status text,
+  to_status text not null,
+  reason text not null check (reason in ('manual', 'started_reading', 'finished_series')),
+  created_at timestamptz not null default now()
+);
+
+create index bookmark_status_transitions_user_id_idx on public.bookmark_status_transitions (user_id, created_at desc);
+
+alter table public.bookmark_status_transitions enable row level security;
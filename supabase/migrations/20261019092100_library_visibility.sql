@@ -0,0 +1,3 @@
+-- Who may see a user's library; null falls back to the default visibility
+alter table public.profiles
+  add column library_visibility text check (library_visibility in ('public', 'followers', 'private'));
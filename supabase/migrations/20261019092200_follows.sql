@@ -0,0 +1,12 @@
+-- Who follows whom; a user can't follow themselves
+create table public.follows (
+  follower_id uuid not null references auth.users (id) on delete cascade,
+  following_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (follower_id, following_id),
+  check (follower_id <> following_id)
+);
+
+create index follows_following_id_idx on public.follows (following_id);
+
+alter table public.follows enable row level security;
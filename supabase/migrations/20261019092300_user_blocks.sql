@@ -0,0 +1,14 @@
+-- Blocks and mutes; a user can hold both on the same target
+
+create table public.user_blocks (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  target_id uuid not null references auth.users (id) on delete cascade,
+  kind text not null check (kind in ('block', 'mute')),
+  created_at timestamptz not null default now(),
+  primary key (user_id, target_id, kind),
+  check (user_id <> target_id)
+);
+
+create index user_blocks_target_id_idx on public.user_blocks (target_id);
+
+alter table public.user_blocks enable row level security;
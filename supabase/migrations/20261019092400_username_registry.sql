@@ -0,0 +1,49 @@
+-- Every name a user has held. The unreleased claim is the current name;
+-- released claims are the change history and back old-name redirects.
+
+create table public.usernames (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  username text not null,
+  username_key text not null check (username_key = lower(username)),
+  claimed_at timestamptz not null default now(),
+  released_at timestamptz
+);
+
+-- Current names are unique regardless of case
+create unique index usernames_current_key_idx on public.usernames (username_key) where released_at is null;
+create index usernames_user_id_idx on public.usernames (user_id, claimed_at desc);
+
+alter table public.usernames enable row level security;
+
+-- Releases the user's current name, claims the new one and copies it to the
+-- profile and bookmarks in one transaction, so the registry and profile can't
+-- disagree. Raises unique_violation (23505) when the name is already held.
+create function public.claim_username(target_user_id uuid, new_username text)
+returns public.usernames
+language plpgsql
+as $$
+declare
+  claimed public.usernames;
+begin
+  update public.usernames
+    set released_at = now()
+    where user_id = target_user_id and released_at is null;
+
+  insert into public.usernames (user_id, username, username_key)
+    values (target_user_id, new_username, lower(new_username))
+    returning * into claimed;
+
+  update public.profiles
+    set username = new_username, updated_at = now()
+    where id = target_user_id;
+
+  update public.bookmarks
+    set username = new_username
+    where user_id = target_user_id;
+
+  return claimed;
+end;
+$$;
+
+revoke execute on function public.claim_username(uuid, text) from public, anon, authenticated;
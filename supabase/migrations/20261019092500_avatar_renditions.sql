@@ -0,0 +1,2 @@
+-- Public URLs of the uploaded avatar's renditions, keyed by size in pixels
+alter table public.profiles add column avatar_urls jsonb;
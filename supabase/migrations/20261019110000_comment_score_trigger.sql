@@ -0,0 +1,44 @@
+-- Keeps comments.score (likes minus dislikes) in step with comment_reactions.
+-- Each change applies its own delta under the comment's row lock, so concurrent
+-- reactions can't overwrite one another's counts.
+
+create function public.reaction_score(reaction text)
+returns integer
+language sql
+immutable
+as $$
+  select case reaction when 'like' then 1 when 'dislike' then -1 else 0 end
+$$;
+
+create function public.apply_reaction_score()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op in ('UPDATE', 'DELETE') then
+    update public.comments
+      set score = score - public.reaction_score(old.reaction)
+      where id = old.comment_id;
+  end if;
+
+  if tg_op in ('INSERT', 'UPDATE') then
+    update public.comments
+      set score = score + public.reaction_score(new.reaction)
+      where id = new.comment_id;
+  end if;
+
+  return null;
+end;
+$$;
+
+create trigger comment_reactions_score
+  after insert or update of reaction or delete on public.comment_reactions
+  for each row execute function public.apply_reaction_score();
+
+-- Scores written by the application before the trigger existed
+update public.comments c
+  set score = coalesce((
+    select sum(public.reaction_score(r.reaction))
+    from public.comment_reactions r
+    where r.comment_id = c.id
+  ), 0);
@@ -0,0 +1,12 @@
+-- One row per comment with open reports, so the moderation queue can be
+-- ordered and paginated in the database
+create view public.open_report_queue as
+  select
+    comment_id,
+    count(*)::integer as report_count,
+    min(created_at) as first_reported_at
+  from public.comment_reports
+  where status = 'open'
+  group by comment_id;
+
+revoke all on public.open_report_queue from anon, authenticated;
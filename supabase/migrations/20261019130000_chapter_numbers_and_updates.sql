@@ -0,0 +1,55 @@
+-- Chapter numbers as the API reads them: the leading number of the label
+-- ("12", "12.5", "12a"), or null for labels without one
+create function public.chapter_number(label text)
+returns numeric
+language sql
+immutable
+as $$
+  select substring(label from '^\s*([+-]?(?:\d+\.?\d*|\.\d+))')::numeric
+$$;
+
+alter table public.manga_chapters
+  add column chapter_number numeric generated always as (public.chapter_number(chapter)) stored;
+
+create index manga_chapters_number_idx on public.manga_chapters (manga_hid, chapter_number);
+
+-- Manga the chapter feed polls; distinct in the database instead of across
+-- every bookmark row
+create view public.tracked_manga_hids as
+  select distinct manga_hid
+  from public.bookmarks
+  where manga_hid is not null and manga_hid <> '';
+
+revoke all on public.tracked_manga_hids from anon, authenticated;
+
+-- The user's bookmarks with chapters newer than the last one read, most recent
+-- release first. Dropped and completed series are left out. Rows match the
+-- API's BookmarkUpdate shape; page with limit/offset (PostgREST range).
+create function public.bookmark_updates(target_user_id uuid)
+returns table (bookmark jsonb, unread_count integer, latest_chapter jsonb)
+language sql
+stable
+as $$
+  select to_jsonb(b), unread.unread_count, to_jsonb(latest)
+  from public.bookmarks b
+  cross join lateral (
+    select count(distinct c.chapter_number)::integer as unread_count
+    from public.manga_chapters c
+    where c.manga_hid = b.manga_hid
+      and c.chapter_number > coalesce(public.chapter_number(b.last_read_chapter), '-infinity'::numeric)
+  ) unread
+  cross join lateral (
+    select c.chapter, c.chapter_hid, c.title, c.published_at
+    from public.manga_chapters c
+    where c.manga_hid = b.manga_hid
+      and c.chapter_number > coalesce(public.chapter_number(b.last_read_chapter), '-infinity'::numeric)
+    order by c.published_at desc
+    limit 1
+  ) latest
+  where b.user_id = target_user_id
+    and b.reading_status is distinct from 'dropped'
+    and b.reading_status is distinct from 'completed'
+  order by latest.published_at desc, b.id
+$$;
+
+revoke execute on function public.bookmark_updates(uuid) from public, anon, authenticated;
@@ -0,0 +1,43 @@
+-- Applies a bulk bookmark request in one transaction: every write lands or, when
+-- one fails, none do. writes is an array of {id, action: "update", changes} or
+-- {id, action: "delete"} objects, applied in order. Returns the updated rows as a
+-- JSON array in the same order, with null for deletes. Deleting a bookmark
+-- removes its collection entries through the foreign key, so they roll back too.
+create function public.apply_bookmark_writes(target_user_id uuid, writes jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  write jsonb;
+  written public.bookmarks;
+  results jsonb := '[]'::jsonb;
+begin
+  for write in select value from jsonb_array_elements(writes) loop
+    if write->>'action' = 'delete' then
+      delete from public.bookmarks
+        where id = (write->>'id')::uuid and user_id = target_user_id
+        returning * into written;
+    else
+      update public.bookmarks b
+        set (reading_status, last_read_chapter, last_read_chapter_hid, last_read_at, updated_at) = (
+          select p.reading_status, p.last_read_chapter, p.last_read_chapter_hid, p.last_read_at, now()
+          from jsonb_populate_record(b, write->'changes') p
+        )
+        where b.id = (write->>'id')::uuid and b.user_id = target_user_id
+        returning b.* into written;
+    end if;
+
+    if not found then
+      raise exception 'Bookmark % not found', write->>'id' using errcode = 'P0002';
+    end if;
+
+    results := results || jsonb_build_array(
+      case when write->>'action' = 'delete' then null else to_jsonb(written) end
+    );
+  end loop;
+
+  return results;
+end;
+$$;
+
+revoke execute on function public.apply_bookmark_writes(uuid, jsonb) from public, anon, authenticated;
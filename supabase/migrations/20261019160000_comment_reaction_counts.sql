@@ -0,0 +1,8 @@
+-- Reactions per comment and kind, so comment lists read counts rather than
+-- every reaction row
+create view public.comment_reaction_counts as
+  select comment_id, reaction, count(*)::integer as count
+  from public.comment_reactions
+  group by comment_id, reaction;
+
+revoke all on public.comment_reaction_counts from anon, authenticated;
@@ -0,0 +1,23 @@
+-- Appends a bookmark to the end of a collection. The collection row is locked so
+-- concurrent adds take turns computing the next position instead of sharing one.
+-- Adding a bookmark that is already in the collection fails on the primary key.
+create function public.add_collection_item(target_collection_id uuid, target_bookmark_id uuid)
+returns public.collection_items
+language plpgsql
+as $$
+declare
+  added public.collection_items;
+begin
+  perform 1 from public.collections where id = target_collection_id for update;
+
+  insert into public.collection_items (collection_id, bookmark_id, position)
+    select target_collection_id, target_bookmark_id, coalesce(max(position) + 1, 0)
+    from public.collection_items
+    where collection_id = target_collection_id
+    returning * into added;
+
+  return added;
+end;
+$$;
+
+revoke execute on function public.add_collection_item(uuid, uuid) from public, anon, authenticated;
@@ -0,0 +1,12 @@
+-- Average and number of scores given to a manga, computed in the database
+create function public.manga_score_summary(target_manga_id text)
+returns table (average numeric, count integer)
+language sql
+stable
+as $$
+  select avg(score), count(score)::integer
+  from public.bookmarks
+  where manga_id = target_manga_id;
+$$;
+
+revoke execute on function public.manga_score_summary(text) from public, anon, authenticated;
@@ -0,0 +1,59 @@
+-- Aggregates behind the reading stats endpoint. Each returns a bounded result
+-- (one row per distinct value, or a single JSON array), so none of them is cut
+-- short by PostgREST's max-rows limit.
+
+-- Number of the user's bookmarks per distinct value of one column. Values keep
+-- their JSON type, so manga_status comes back as a number.
+create function public.bookmark_counts(target_user_id uuid, field text)
+returns table (value jsonb, count integer)
+language sql
+stable
+as $$
+  select grouped.value, count(*)::integer
+  from (
+    select case field
+      when 'reading_status' then to_jsonb(reading_status)
+      when 'manga_country' then to_jsonb(manga_country)
+      when 'manga_status' then to_jsonb(manga_status)
+    end as value
+    from public.bookmarks
+    where user_id = target_user_id
+  ) grouped
+  group by grouped.value;
+$$;
+
+-- [{day, count}] for every day with reading history, oldest first
+create function public.reading_days(target_user_id uuid)
+returns jsonb
+language sql
+stable
+as $$
+  select coalesce(jsonb_agg(jsonb_build_object('day', read_on, 'count', reads) order by read_on), '[]'::jsonb)
+  from (
+    select read_on, count(*)::integer as reads
+    from public.reading_history
+    where user_id = target_user_id
+    group by read_on
+  ) days;
+$$;
+
+-- [{manga_id, first_read_at, last_read_at}] for each completed bookmark that has
+-- reading history
+create function public.completed_reading_spans(target_user_id uuid)
+returns jsonb
+language sql
+stable
+as $$
+  select coalesce(jsonb_agg(spans), '[]'::jsonb)
+  from (
+    select h.manga_id, min(h.read_at) as first_read_at, max(h.read_at) as last_read_at
+    from public.bookmarks b
+    join public.reading_history h on h.user_id = b.user_id and h.manga_id = b.manga_id
+    where b.user_id = target_user_id and b.reading_status = 'completed'
+    group by h.manga_id
+  ) spans;
+$$;
+
+revoke execute on function public.bookmark_counts(uuid, text) from public, anon, authenticated;
+revoke execute on function public.reading_days(uuid) from public, anon, authenticated;
+revoke execute on function public.completed_reading_spans(uuid) from public, anon, authenticated;